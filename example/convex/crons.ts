@@ -1,15 +1,30 @@
 import { cronJobs } from "convex/server";
 import { components, internal } from "./_generated/api.js";
-import { internalMutation } from "./_generated/server.js";
+import { internalAction, internalMutation } from "./_generated/server.js";
+import { revenuecat } from "./revenuecatWorker.js";
 
 const crons = cronJobs();
 
+// Drains the per-request rate limit rows earlier versions wrote, 500 per
+// run; remove it once it stops logging deletions
 crons.interval(
-  "Clean up expired RevenueCat rate limits",
+  "Clean up legacy RevenueCat rate limits",
   { minutes: 5 },
   internal.crons.cleanupRateLimits,
 );
 
+crons.interval(
+  "Reconcile stale RevenueCat subscribers",
+  { minutes: 15 },
+  internal.crons.reconcileSubscribers,
+);
+
+crons.interval(
+  "Sync RevenueCat catalog",
+  { hours: 1 },
+  internal.crons.syncCatalog,
+);
+
 export const cleanupRateLimits = internalMutation({
   args: {},
   handler: async (ctx) => {
@@ -18,9 +33,31 @@ export const cleanupRateLimits = internalMutation({
       {},
     );
     if (deleted > 0) {
-      console.log(`Cleaned up ${deleted} expired RevenueCat rate limit entries`);
+      console.log(`Cleaned up ${deleted} legacy RevenueCat rate limit rows`);
+    }
+  },
+});
+
+export const reconcileSubscribers = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const picked = await revenuecat.reconcileSubscribers(ctx);
+    if (picked.stale + picked.expiring > 0) {
+      console.log(
+        `Reconciling ${picked.stale} stale and ${picked.expiring} expiring RevenueCat subscribers`,
+      );
     }
   },
 });
 
+export const syncCatalog = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const synced = await revenuecat.syncCatalog(ctx);
+    console.log(
+      `Synced RevenueCat catalog: ${synced.offerings} offerings, ${synced.packages} packages, ${synced.products} products`,
+    );
+  },
+});
+
 export default crons;
@@ -1,5 +1,5 @@
 import { httpRouter } from "convex/server";
-import { components } from "./_generated/api";
+import { components, internal } from "./_generated/api";
 import { registerRoutes } from "@flyweightdev/convex-revenuecat";
 
 const http = httpRouter();
@@ -8,6 +8,7 @@ const http = httpRouter();
 // Paddle webhooks go directly to RevenueCat — no Paddle webhook routes needed here.
 registerRoutes(http, components.revenuecat, {
   webhookPath: "/revenuecat/webhook",
+  worker: internal.revenuecatWorker.worker,
   events: {
     INITIAL_PURCHASE: async (ctx, event) => {
       console.log("New purchase:", event.app_user_id);
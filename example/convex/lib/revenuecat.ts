@@ -15,10 +15,21 @@ export function getAppUserId(identity: { subject: string }): string {
   return identity.subject;
 }
 
+export const entitlementStatusValidator = v.union(
+  v.literal("trial"),
+  v.literal("active"),
+  v.literal("grace_period"),
+  v.literal("billing_retry"),
+  v.literal("cancelled"),
+  v.literal("paused"),
+  v.literal("expired"),
+);
+
 export const entitlementDataValidator = v.object({
   entitlementId: v.string(),
   isActive: v.boolean(),
   expiresDate: v.optional(v.string()),
+  status: v.optional(entitlementStatusValidator),
 });
 
 export const entitlementDocValidator = v.object({
@@ -26,11 +37,66 @@ export const entitlementDocValidator = v.object({
   entitlementId: v.string(),
   isActive: v.boolean(),
   expiresDate: v.optional(v.string()),
+  status: v.optional(entitlementStatusValidator),
   lastSyncedAt: v.number(),
+  lastEventTimestampMs: v.optional(v.number()),
 });
 
 export const subscriberDocValidator = v.object({
   appUserId: v.string(),
   lastSyncedAt: v.number(),
   rawSubscriber: v.optional(v.any()),
+  lastEventTimestampMs: v.optional(v.number()),
+});
+
+export const subscriptionDocValidator = v.object({
+  appUserId: v.string(),
+  subscriptionId: v.string(),
+  productId: v.optional(v.string()),
+  store: v.string(),
+  storeSubscriptionIdentifier: v.optional(v.string()),
+  status: v.string(),
+  periodType: v.union(v.literal("normal"), v.literal("trial")),
+  givesAccess: v.boolean(),
+  entitlementIds: v.array(v.string()),
+  autoRenewalStatus: v.optional(v.string()),
+  hasBillingIssue: v.boolean(),
+  startsAt: v.optional(v.number()),
+  currentPeriodStartsAt: v.optional(v.number()),
+  currentPeriodEndsAt: v.optional(v.number()),
+  nextRenewalAt: v.optional(v.number()),
+  environment: v.optional(v.string()),
+  managementUrl: v.optional(v.string()),
+  lastSyncedAt: v.number(),
+});
+
+export const productDocValidator = v.object({
+  productId: v.string(),
+  storeIdentifier: v.string(),
+  type: v.string(),
+  appId: v.optional(v.string()),
+  displayName: v.optional(v.string()),
+  subscriptionDuration: v.optional(v.string()),
+  lastSyncedAt: v.number(),
+});
+
+export const offeringDocValidator = v.object({
+  offeringId: v.string(),
+  lookupKey: v.string(),
+  displayName: v.string(),
+  isCurrent: v.boolean(),
+  metadata: v.optional(v.any()),
+  lastSyncedAt: v.number(),
+  packages: v.array(
+    v.object({
+      packageId: v.string(),
+      offeringId: v.string(),
+      lookupKey: v.string(),
+      displayName: v.string(),
+      position: v.optional(v.number()),
+      productIds: v.array(v.string()),
+      lastSyncedAt: v.number(),
+      products: v.array(productDocValidator),
+    }),
+  ),
 });
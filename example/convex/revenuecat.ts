@@ -1,13 +1,10 @@
 "use node";
 
 import { action } from "./_generated/server";
-import { RevenueCatSync } from "@flyweightdev/convex-revenuecat";
-import { components } from "./_generated/api";
 import { v } from "convex/values";
 import { requireAuth } from "./lib/auth";
 import { getAppUserId, entitlementDataValidator } from "./lib/revenuecat";
-
-const rcClient = new RevenueCatSync(components.revenuecat);
+import { revenuecat as rcClient } from "./revenuecatWorker";
 
 // ============================================================================
 // ENTITLEMENT SYNC (actions — require Node.js runtime)
@@ -19,7 +16,10 @@ const rcClient = new RevenueCatSync(components.revenuecat);
  */
 export const syncEntitlements = action({
   args: {},
-  returns: v.object({ entitlements: v.array(entitlementDataValidator) }),
+  returns: v.object({
+    entitlements: v.array(entitlementDataValidator),
+    fromCache: v.boolean(),
+  }),
   handler: async (ctx) => {
     const identity = await requireAuth(ctx);
     const appUserId = getAppUserId(identity);
@@ -42,6 +42,7 @@ export const waitForEntitlement = action({
   returns: v.object({
     found: v.boolean(),
     attempts: v.number(),
+    fromCache: v.boolean(),
   }),
   handler: async (ctx, args) => {
     const identity = await requireAuth(ctx);
@@ -4,7 +4,9 @@ import { v } from "convex/values";
 import {
   getAppUserId,
   entitlementDocValidator,
+  offeringDocValidator,
   subscriberDocValidator,
+  subscriptionDocValidator,
 } from "./lib/revenuecat";
 
 // ============================================================================
@@ -81,3 +83,35 @@ export const getMySubscriber = query({
     );
   },
 });
+
+/**
+ * Get the current user's subscriptions that grant access (reactive).
+ */
+export const getMySubscriptions = query({
+  args: {},
+  returns: v.array(subscriptionDocValidator),
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return [];
+
+    return await ctx.runQuery(
+      components.revenuecat.public.getActiveSubscriptions,
+      { appUserId: getAppUserId(identity) },
+    );
+  },
+});
+
+/**
+ * Get the current offering with its packages and products (reactive).
+ * Populated by the hourly catalog sync in crons.ts.
+ */
+export const getCurrentOffering = query({
+  args: {},
+  returns: v.union(offeringDocValidator, v.null()),
+  handler: async (ctx) => {
+    return await ctx.runQuery(
+      components.revenuecat.public.getCurrentOffering,
+      {},
+    );
+  },
+});
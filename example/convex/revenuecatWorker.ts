@@ -0,0 +1,13 @@
+import { RevenueCatSync } from "@flyweightdev/convex-revenuecat";
+import { components, internal } from "./_generated/api";
+
+// Shared client whose worker runs the component's background work (queued
+// webhooks, resyncs, backfills, reconciliation, purchase retries and
+// entitlement change callbacks) with the API key from this deployment's
+// environment.
+export const revenuecat: RevenueCatSync = new RevenueCatSync(
+  components.revenuecat,
+  { worker: internal.revenuecatWorker.worker },
+);
+
+export const worker = revenuecat.worker();
@@ -1,23 +1,98 @@
-import { httpActionGeneric } from "convex/server";
+import {
+  createFunctionHandle,
+  httpActionGeneric,
+  internalActionGeneric,
+  type FunctionArgs,
+  type FunctionReference,
+  type GenericActionCtx,
+  type GenericDataModel,
+} from "convex/server";
+import { v } from "convex/values";
 import type {
   ActionCtx,
+  EntitlementChange,
+  EntitlementChangeHandler,
   EntitlementData,
+  EntitlementDriftData,
+  EntitlementSnapshot,
   HttpRouter,
+  MutationCtx,
   RegisterRoutesConfig,
+  ReplayEventResult,
+  RevenueCatEventContext,
   RevenueCatEventHandlers,
+  RevenueCatRateLimitPolicy,
+  RevenueCatRateLimits,
+  RevenueCatSyncOptions,
   RevenueCatWebhookEvent,
   RevenueCatWebhookPayload,
+  RevenueCatWorker,
+  RevenueCatWorkerTask,
   VirtualCurrencyBalanceData,
+  VirtualCurrencyDefinitionData,
+  VirtualCurrencyPurchaseStatus,
 } from "./types.js";
 import type { ComponentApi } from "../component/_generated/component.js";
+import { RATE_LIMITED_RETRY_DELAY_MS } from "../component/rateLimits.js";
+import { workerTask } from "../component/schema.js";
+import {
+  abandonVirtualCurrencyPurchase,
+  diffEntitlements,
+  fetchCatalog,
+  fetchCustomerAndEntitlements,
+  fetchTransactions,
+  fetchVirtualCurrencyBalances,
+  fetchVirtualCurrencyDefinitions,
+  getCustomerAliases,
+  getErrorMessage,
+  getEventContext,
+  InsufficientFundsError,
+  mergeCustomerAliases,
+  postVirtualCurrencyTransaction,
+  processEvent,
+  reconcileSubscribers,
+  refreshEntitlementDefinitions,
+  resumeVirtualCurrencyPurchase,
+  RevenueCatAuthError,
+  RevenueCatRateLimitedError,
+  RevenueCatRequestError,
+  RevenueCatServerError,
+  runBackfillPage,
+  runBackgroundResync,
+  runVirtualCurrencyPurchase,
+  sanitizeForConvex,
+  withSyncLease,
+  type RevenueCatCredentials,
+  type RevenueCatRequestRateLimit,
+} from "./sync.js";
 
 export type RevenueCatComponent = ComponentApi;
 
+export {
+  InsufficientFundsError,
+  RevenueCatAuthError,
+  RevenueCatRateLimitedError,
+  RevenueCatRequestError,
+  RevenueCatServerError,
+};
+
 export type {
+  EntitlementChange,
+  EntitlementChangeHandler,
+  EntitlementSnapshot,
   RegisterRoutesConfig,
+  ReplayEventResult,
+  RevenueCatEventContext,
   RevenueCatEventHandlers,
+  RevenueCatRateLimitPolicy,
+  RevenueCatRateLimits,
+  RevenueCatSyncOptions,
   RevenueCatWebhookEvent,
+  RevenueCatWorker,
+  RevenueCatWorkerTask,
   VirtualCurrencyBalanceData,
+  VirtualCurrencyDefinitionData,
+  VirtualCurrencyPurchaseStatus,
 };
 
 // ============================================================================
@@ -34,18 +109,18 @@ export type {
 export class RevenueCatSync {
   private _apiKey: string;
   private _projectId: string;
+  private _options: RevenueCatSyncOptions;
+  private _workerRegistered = false;
 
   constructor(
     public component: RevenueCatComponent,
-    options?: {
-      REVENUECAT_API_KEY?: string;
-      REVENUECAT_PROJECT_ID?: string;
-    },
+    options?: RevenueCatSyncOptions,
   ) {
     this._apiKey =
       options?.REVENUECAT_API_KEY ?? process.env.REVENUECAT_API_KEY ?? "";
     this._projectId =
       options?.REVENUECAT_PROJECT_ID ?? process.env.REVENUECAT_PROJECT_ID ?? "";
+    this._options = options ?? {};
   }
 
   get apiKey() {
@@ -62,6 +137,101 @@ export class RevenueCatSync {
     return this._projectId;
   }
 
+  // ==========================================================================
+  // BACKGROUND WORKER
+  // ==========================================================================
+
+  /**
+   * Build the worker action that runs the component's background work —
+   * queued webhooks, resyncs, backfill pages, reconciliation, purchase
+   * retries and entitlement change callbacks — with this client's
+   * credentials and callbacks. The component only schedules tasks on it, so
+   * the API key is never stored with a scheduled function.
+   *
+   * Export it from a module and pass its reference as the `worker` option
+   * (annotate the client's type, since it refers to its own module):
+   *
+   * ```typescript
+   * export const revenuecat: RevenueCatSync = new RevenueCatSync(
+   *   components.revenuecat,
+   *   { worker: internal.revenuecatWorker.worker },
+   * );
+   * export const worker = revenuecat.worker();
+   * ```
+   */
+  worker() {
+    return internalActionGeneric({
+      args: { task: workerTask },
+      returns: v.null(),
+      handler: async (ctx, args) => {
+        await this.runWorkerTask(ctx, args.task);
+        return null;
+      },
+    });
+  }
+
+  private async runWorkerTask(
+    ctx: ActionCtx,
+    task: RevenueCatWorkerTask,
+  ): Promise<void> {
+    switch (task.kind) {
+      case "process_event":
+        await processQueuedEvent(ctx, this.component, task, this.eventConfig());
+        return;
+      case "resync":
+        await runBackgroundResync(ctx, this.component, this.credentials, task);
+        return;
+      case "backfill_page":
+        await runBackfillPage(
+          ctx,
+          this.component,
+          this.credentials,
+          task.jobId,
+        );
+        return;
+      case "reconcile":
+        await reconcileSubscribers(
+          ctx,
+          this.component,
+          this.credentials,
+          task.subscribers,
+        );
+        return;
+      case "purchase":
+        await resumeVirtualCurrencyPurchase(
+          ctx,
+          this.component,
+          this.credentials,
+          task.purchaseId,
+        );
+        return;
+      case "entitlement_changes":
+        await deliverEntitlementChanges(ctx, this.component, this._options);
+        return;
+    }
+  }
+
+  private get credentials() {
+    return { apiKey: this.apiKey, projectId: this.projectId };
+  }
+
+  /**
+   * Point the component's background work at the `worker` option, once per
+   * client instance. Throws if it isn't set.
+   */
+  private async registerWorker(ctx: MutationCtx): Promise<void> {
+    if (!this._options.worker) {
+      throw new Error(
+        "RevenueCatSync needs the `worker` option to run background work; export `worker()` and pass its reference",
+      );
+    }
+    if (this._workerRegistered) return;
+    await ctx.runMutation(this.component.private.registerWorker, {
+      workerHandle: await createFunctionHandle(this._options.worker),
+    });
+    this._workerRegistered = true;
+  }
+
   // ==========================================================================
   // SYNC ENGINE
   // ==========================================================================
@@ -73,35 +243,126 @@ export class RevenueCatSync {
    * entitlements, and writes the results to the Convex database.
    *
    * Call this on login, app load, or whenever you need fresh entitlement data.
+   * Requests share the rate limit budget with webhooks; when it is spent,
+   * `rateLimitPolicy` decides the outcome, and with "cache" the cached active
+   * entitlements are returned with `fromCache: true`.
+   *
+   * Syncs of the same user are coalesced: while another sync is running this
+   * waits for it, and within `minResyncIntervalMs` of the last one it
+   * returns that sync's cached result without calling RevenueCat.
    */
   async syncSubscriber(
     ctx: ActionCtx,
-    args: { appUserId: string },
-  ): Promise<{ entitlements: EntitlementData[] }> {
+    args: {
+      appUserId: string;
+      rateLimitPolicy?: RevenueCatRateLimitPolicy;
+      minResyncIntervalMs?: number;
+    },
+  ): Promise<{ entitlements: EntitlementData[]; fromCache: boolean }> {
+    // The sync may queue entitlement changes or schedule a trailing resync
+    await this.registerWorker(ctx);
+    return await this.withRateLimitPolicy(
+      ctx,
+      args.rateLimitPolicy,
+      async (rateLimit) => {
+        const synced = await withSyncLease(
+          ctx,
+          this.component,
+          args.appUserId,
+          {
+            minResyncIntervalMs:
+              args.minResyncIntervalMs ?? this._options.minResyncIntervalMs,
+          },
+          () => this.syncSubscriberWith(ctx, args.appUserId, rateLimit),
+        );
+        if (synced.status === "synced") {
+          return { entitlements: synced.result };
+        }
+        if (synced.status === "in_flight") {
+          await this.waitForSync(ctx, args.appUserId);
+        }
+        return {
+          entitlements: await this.readCachedEntitlements(ctx, args.appUserId),
+        };
+      },
+      async () => ({
+        entitlements: await this.readCachedEntitlements(ctx, args.appUserId),
+      }),
+    );
+  }
+
+  private async readCachedEntitlements(
+    ctx: ActionCtx,
+    appUserId: string,
+  ): Promise<EntitlementData[]> {
+    const cached = await ctx.runQuery(
+      this.component.public.getActiveEntitlements,
+      { appUserId },
+    );
+    return cached.map(({ entitlementId, isActive, expiresDate, status }) => ({
+      entitlementId,
+      isActive,
+      expiresDate,
+      status,
+    }));
+  }
+
+  /**
+   * Wait for a running sync of the user to release its lease, for up to
+   * `COALESCED_SYNC_MAX_WAIT_MS`.
+   */
+  private async waitForSync(ctx: ActionCtx, appUserId: string) {
+    const waitUntil = Date.now() + COALESCED_SYNC_MAX_WAIT_MS;
+    while (Date.now() < waitUntil) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, COALESCED_SYNC_WAIT_INTERVAL_MS),
+      );
+      const lease = await ctx.runQuery(this.component.public.getSyncLease, {
+        appUserId,
+      });
+      if (!lease?.running) return;
+    }
+  }
+
+  private async syncSubscriberWith(
+    ctx: ActionCtx,
+    appUserId: string,
+    rateLimit: RevenueCatRequestRateLimit,
+  ): Promise<EntitlementData[]> {
     const result = await fetchCustomerAndEntitlements(
+      ctx,
+      this.component,
       this.apiKey,
       this.projectId,
-      args.appUserId,
+      appUserId,
+      rateLimit,
     );
 
     if (!result) {
       await ctx.runMutation(this.component.private.clearEntitlements, {
-        appUserId: args.appUserId,
+        appUserId,
       });
-      return { entitlements: [] };
+      return [];
     }
 
-    const { customer, entitlements } = result;
+    const { customer, entitlements, subscriptions } = result;
     const lastSyncedAt = Date.now();
 
+    await mergeCustomerAliases(
+      ctx,
+      this.component,
+      appUserId,
+      getCustomerAliases(customer),
+    );
     await ctx.runMutation(this.component.private.syncSubscriberAndEntitlements, {
-      appUserId: args.appUserId,
+      appUserId,
       lastSyncedAt,
       rawSubscriber: sanitizeForConvex(customer),
       entitlements,
+      subscriptions,
     });
 
-    return { entitlements };
+    return entitlements;
   }
 
   /**
@@ -111,7 +372,11 @@ export class RevenueCatSync {
    * RevenueCat (takes a few seconds), so we poll until the entitlement appears.
    *
    * Each poll iteration syncs to the Convex database, so reactive queries
-   * will update the UI as soon as the entitlement is found.
+   * will update the UI as soon as the entitlement is found. Rate-limited
+   * iterations follow `rateLimitPolicy` like `syncSubscriber`; `fromCache`
+   * says whether the last check read the cache instead of RevenueCat.
+   * Iterations ignore `minResyncIntervalMs`, but still wait for a sync of
+   * the user that is already running instead of starting another.
    */
   async pollForEntitlement(
     ctx: ActionCtx,
@@ -120,22 +385,27 @@ export class RevenueCatSync {
       entitlementId: string;
       maxAttempts?: number;
       intervalMs?: number;
+      rateLimitPolicy?: RevenueCatRateLimitPolicy;
     },
-  ): Promise<{ found: boolean; attempts: number }> {
+  ): Promise<{ found: boolean; attempts: number; fromCache: boolean }> {
     const maxAttempts = args.maxAttempts ?? 10;
     const intervalMs = args.intervalMs ?? 3000;
+    let fromCache = false;
 
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       const result = await this.syncSubscriber(ctx, {
         appUserId: args.appUserId,
+        rateLimitPolicy: args.rateLimitPolicy,
+        minResyncIntervalMs: 0,
       });
+      fromCache = result.fromCache;
 
       const found = result.entitlements.some(
         (e) => e.entitlementId === args.entitlementId && e.isActive,
       );
 
       if (found) {
-        return { found: true, attempts: attempt };
+        return { found: true, attempts: attempt, fromCache };
       }
 
       if (attempt < maxAttempts) {
@@ -143,39 +413,513 @@ export class RevenueCatSync {
       }
     }
 
-    return { found: false, attempts: maxAttempts };
+    return { found: false, attempts: maxAttempts, fromCache };
   }
 
-  // ==========================================================================
-  // VIRTUAL CURRENCY
-  // ==========================================================================
+  /**
+   * Run a client sync through the shared rate limiter, applying the
+   * rate limit policy when it is throttled.
+   */
+  private async withRateLimitPolicy<T extends object>(
+    ctx: ActionCtx,
+    policy: RevenueCatRateLimitPolicy | undefined,
+    sync: (rateLimit: RevenueCatRequestRateLimit) => Promise<T>,
+    readCache: () => Promise<T>,
+  ): Promise<T & { fromCache: boolean }> {
+    const rateLimit = { ctx, component: this.component };
+    const resolvedPolicy = policy ?? this._options.rateLimitPolicy ?? "cache";
+    const maxWaitMs =
+      this._options.rateLimitMaxWaitMs ?? RATE_LIMIT_MAX_WAIT_MS;
+    const waitUntil = Date.now() + maxWaitMs;
+
+    while (true) {
+      try {
+        return { ...(await sync(rateLimit)), fromCache: false };
+      } catch (error) {
+        if (!(error instanceof RevenueCatRateLimitedError)) throw error;
+        if (resolvedPolicy === "cache") {
+          return { ...(await readCache()), fromCache: true };
+        }
+        const delayMs = error.retryAfterMs ?? RATE_LIMIT_WAIT_INTERVAL_MS;
+        if (resolvedPolicy === "reject" || Date.now() + delayMs > waitUntil) {
+          throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
 
   /**
-   * Fetch virtual currency balances from RevenueCat v2 API and sync to Convex.
+   * Set the RevenueCat API request budget of each bucket. The budget is
+   * stored in the component and shared by webhooks, client syncs and
+   * scheduled jobs; buckets left out go back to their defaults. Call it
+   * once, e.g. from a setup mutation, and again only to change it.
+   */
+  async setRateLimits(
+    ctx: MutationCtx,
+    limits: RevenueCatRateLimits,
+  ): Promise<void> {
+    await ctx.runMutation(this.component.private.setRateLimits, { limits });
+  }
+
+  /**
+   * Refetch the project's entitlement definitions into the component cache.
    *
-   * Requires REVENUECAT_PROJECT_ID to be set.
+   * Syncs refresh the cache on their own when it is older than an hour or
+   * meets an unknown entitlement ID; call this after renaming a lookup key
+   * in the RevenueCat dashboard to pick up the change immediately.
    */
-  async syncVirtualCurrencyBalances(
+  async refreshEntitlementDefinitions(
+    ctx: ActionCtx,
+  ): Promise<{ count: number }> {
+    const lookupMap = await refreshEntitlementDefinitions(
+      ctx,
+      this.component,
+      this.apiKey,
+      this.projectId,
+      { ctx, component: this.component },
+    );
+    return { count: lookupMap.size };
+  }
+
+  /**
+   * Backfill a user's transaction history from the v2 purchases endpoint.
+   *
+   * Webhooks record purchases, renewals and refunds as they happen; use this
+   * for purchases made before the webhook was set up. Existing transactions
+   * keep their webhook details and only have their refund status updated.
+   */
+  async backfillTransactions(
     ctx: ActionCtx,
     args: { appUserId: string },
-  ): Promise<{ balances: VirtualCurrencyBalanceData[] }> {
-    const balances = await fetchVirtualCurrencyBalances(
+  ): Promise<{ inserted: number; updated: number }> {
+    const transactions = await fetchTransactions(
       this.apiKey,
       this.projectId,
       args.appUserId,
+      { ctx, component: this.component },
+    );
+
+    return await ctx.runMutation(this.component.private.upsertTransactions, {
+      appUserId: args.appUserId,
+      transactions,
+    });
+  }
+
+  // ==========================================================================
+  // CUSTOMER BACKFILL
+  // ==========================================================================
+
+  /**
+   * Start a background backfill of every customer in the RevenueCat project.
+   *
+   * The component walks the v2 customers list one page per scheduled action
+   * and fully resyncs each customer, sharing the webhook rate limit budget.
+   * Progress is stored in the `backfill_jobs` table; read it with the
+   * `getBackfillJob` query. If a backfill is already running, its ID is
+   * returned instead of starting another.
+   */
+  async startBackfill(
+    ctx: MutationCtx,
+    args?: { pageSize?: number },
+  ): Promise<{ jobId: string }> {
+    await this.registerWorker(ctx);
+    const jobId = await ctx.runMutation(this.component.private.startBackfill, {
+      pageSize: args?.pageSize,
+    });
+    return { jobId };
+  }
+
+  /**
+   * Resume a failed or cancelled backfill from the customer it stopped at.
+   */
+  async resumeBackfill(
+    ctx: MutationCtx,
+    args: { jobId: string },
+  ): Promise<void> {
+    await this.registerWorker(ctx);
+    await ctx.runMutation(this.component.private.resumeBackfill, {
+      jobId: args.jobId,
+    });
+  }
+
+  /**
+   * Stop a running backfill after its current page.
+   */
+  async cancelBackfill(
+    ctx: MutationCtx,
+    args: { jobId: string },
+  ): Promise<void> {
+    await ctx.runMutation(this.component.private.cancelBackfill, {
+      jobId: args.jobId,
+    });
+  }
+
+  // ==========================================================================
+  // RECONCILIATION
+  // ==========================================================================
+
+  /**
+   * Re-sync subscribers whose cached state may have drifted because of a
+   * missed webhook. Schedule this from the app's `crons.ts`.
+   *
+   * Picks subscribers not synced for `staleAfterMs` (default 24 hours) or
+   * with an active entitlement expiring within `expiringWithinMs` (default
+   * 1 hour), up to `limit` per run (default 50), and re-syncs them in the
+   * background through the rate-limited fetch path. Corrected entitlements
+   * are recorded in the `reconciliation_drift` table.
+   */
+  async reconcileSubscribers(
+    ctx: MutationCtx,
+    args?: {
+      staleAfterMs?: number;
+      expiringWithinMs?: number;
+      limit?: number;
+    },
+  ): Promise<{ stale: number; expiring: number }> {
+    await this.registerWorker(ctx);
+    return await ctx.runMutation(this.component.private.startReconciliation, {
+      staleAfterMs: args?.staleAfterMs,
+      expiringWithinMs: args?.expiringWithinMs,
+      limit: args?.limit,
+    });
+  }
+
+  // ==========================================================================
+  // DRIFT AUDIT
+  // ==========================================================================
+
+  /**
+   * Check the cache against RevenueCat without changing any cached
+   * subscriber data.
+   *
+   * Walks every cached subscriber (or a random sample of `sampleSize`),
+   * fetches each one from RevenueCat and compares its active entitlements
+   * with what the component serves. The results are saved as a report: read
+   * it with the `getDriftReport` and `listDriftReportEntries` queries. Only
+   * subscribers with drift, or whose fetch failed, get an entry.
+   *
+   * Requests share the webhook rate limit budget and wait out the window when
+   * it runs out. The audit stops before the action time limit; a report that
+   * didn't get through every subscriber is marked `truncated`.
+   */
+  async auditEntitlements(
+    ctx: ActionCtx,
+    args?: { sampleSize?: number },
+  ): Promise<{
+    reportId: string;
+    subscribersChecked: number;
+    subscribersWithDrift: number;
+    truncated: boolean;
+  }> {
+    const deadline = Date.now() + AUDIT_TIME_BUDGET_MS;
+    const appUserIds = await selectSubscribersToAudit(
+      ctx,
+      this.component,
+      args?.sampleSize,
+    );
+    const reportId = await ctx.runMutation(
+      this.component.private.startDriftReport,
+      { sampleSize: args?.sampleSize, subscribersTotal: appUserIds.length },
+    );
+
+    const rateLimit = { ctx, component: this.component };
+    let subscribersChecked = 0;
+    let subscribersWithDrift = 0;
+    let truncated = false;
+
+    try {
+      for (const appUserId of appUserIds) {
+        let drift: EntitlementDriftData | undefined;
+        while (!drift && Date.now() < deadline) {
+          try {
+            const result = await fetchCustomerAndEntitlements(
+              ctx,
+              this.component,
+              this.apiKey,
+              this.projectId,
+              appUserId,
+              rateLimit,
+            );
+            const cached = await ctx.runQuery(
+              this.component.public.getActiveEntitlements,
+              { appUserId },
+            );
+            drift = diffEntitlements(
+              appUserId,
+              cached,
+              result?.entitlements ?? [],
+            );
+          } catch (error) {
+            if (!(error instanceof RevenueCatRateLimitedError)) {
+              drift = {
+                appUserId,
+                missing: [],
+                extra: [],
+                expiryMismatches: [],
+                error: getErrorMessage(error),
+              };
+            } else if (Date.now() + AUDIT_RATE_LIMIT_WAIT_MS < deadline) {
+              await new Promise((resolve) =>
+                setTimeout(resolve, AUDIT_RATE_LIMIT_WAIT_MS),
+              );
+            } else {
+              break;
+            }
+          }
+        }
+        if (!drift) {
+          truncated = true;
+          break;
+        }
+
+        subscribersChecked++;
+        if (
+          drift.error !== undefined ||
+          drift.missing.length > 0 ||
+          drift.extra.length > 0 ||
+          drift.expiryMismatches.length > 0
+        ) {
+          await ctx.runMutation(this.component.private.recordDriftReportEntry, {
+            reportId,
+            entry: drift,
+          });
+          if (drift.error === undefined) subscribersWithDrift++;
+        }
+      }
+    } catch (error) {
+      await ctx.runMutation(this.component.private.completeDriftReport, {
+        reportId,
+        status: "failed",
+        subscribersChecked,
+        truncated: true,
+        lastError: getErrorMessage(error),
+      });
+      throw error;
+    }
+
+    await ctx.runMutation(this.component.private.completeDriftReport, {
+      reportId,
+      status: "completed",
+      subscribersChecked,
+      truncated,
+    });
+    return { reportId, subscribersChecked, subscribersWithDrift, truncated };
+  }
+
+  // ==========================================================================
+  // CATALOG
+  // ==========================================================================
+
+  /**
+   * Sync the project's products, offerings, packages and entitlement →
+   * product attachments into the component, replacing the previous snapshot.
+   *
+   * Catalog changes don't produce webhook events, so run this from a cron or
+   * after editing offerings in the RevenueCat dashboard. Also refreshes the
+   * cached entitlement definitions.
+   */
+  async syncCatalog(ctx: ActionCtx): Promise<{
+    products: number;
+    offerings: number;
+    packages: number;
+  }> {
+    const { catalog, entitlementDefinitions } = await fetchCatalog(
+      this.apiKey,
+      this.projectId,
+      { ctx, component: this.component },
     );
     const lastSyncedAt = Date.now();
 
+    await ctx.runMutation(this.component.private.replaceCatalog, {
+      ...catalog,
+      lastSyncedAt,
+    });
     await ctx.runMutation(
-      this.component.private.syncVirtualCurrencyBalances,
+      this.component.private.replaceEntitlementDefinitions,
+      { definitions: entitlementDefinitions, fetchedAt: lastSyncedAt },
+    );
+
+    return {
+      products: catalog.products.length,
+      offerings: catalog.offerings.length,
+      packages: catalog.packages.length,
+    };
+  }
+
+  // ==========================================================================
+  // DEAD-LETTER REPLAY
+  // ==========================================================================
+
+  /**
+   * Re-run a logged webhook event through the same pipeline as the webhook
+   * route: default processing, `onEvent`, and the matching `events` handler.
+   *
+   * The payload is taken from the dead-letter table, falling back to the
+   * event log. Stored payloads are sanitized, so `$`-prefixed keys (e.g. in
+   * `subscriber_attributes`) reach handlers with a `_` prefix instead.
+   */
+  async replayEvent(
+    ctx: ActionCtx,
+    args: { revenuecatEventId: string },
+  ): Promise<ReplayEventResult> {
+    const logged =
+      (await ctx.runQuery(this.component.public.getDeadLetter, {
+        revenuecatEventId: args.revenuecatEventId,
+      })) ??
+      (await ctx.runQuery(this.component.public.getEventLogEntry, {
+        revenuecatEventId: args.revenuecatEventId,
+      }));
+
+    if (!logged) {
+      throw new Error(
+        `No logged payload found for RevenueCat event ${args.revenuecatEventId}`,
+      );
+    }
+    // The sync may queue entitlement changes or schedule a trailing resync
+    await this.registerWorker(ctx);
+
+    return await replayWebhookEvent(
+      ctx,
+      this.component,
+      logged.event as RevenueCatWebhookEvent,
+      this.eventConfig(),
+    );
+  }
+
+  /**
+   * Replay one page of pending dead-lettered events, oldest first.
+   *
+   * Events that fail again stay pending, so pass the returned
+   * `continueCursor` back as `cursor` to move on to the next page, until
+   * `isDone`. A pass that starts over from the first page (no `cursor`)
+   * retries the events that failed.
+   */
+  async replayDeadLetters(
+    ctx: ActionCtx,
+    args?: { limit?: number; cursor?: string | null },
+  ): Promise<{
+    replayed: number;
+    failed: number;
+    results: ReplayEventResult[];
+    continueCursor: string;
+    isDone: boolean;
+  }> {
+    const { page, continueCursor, isDone } = await ctx.runQuery(
+      this.component.public.listDeadLetters,
       {
-        appUserId: args.appUserId,
-        lastSyncedAt,
-        balances,
+        status: "pending",
+        paginationOpts: {
+          numItems: args?.limit ?? 25,
+          cursor: args?.cursor ?? null,
+        },
       },
     );
 
-    return { balances };
+    await this.registerWorker(ctx);
+    const results: ReplayEventResult[] = [];
+    for (const deadLetter of page) {
+      results.push(
+        await replayWebhookEvent(
+          ctx,
+          this.component,
+          deadLetter.event as RevenueCatWebhookEvent,
+          this.eventConfig(),
+        ),
+      );
+    }
+
+    return {
+      replayed: results.filter((r) => r.status === "processed").length,
+      failed: results.filter((r) => r.status === "failed").length,
+      results,
+      continueCursor,
+      isDone,
+    };
+  }
+
+  private eventConfig(): RegisterRoutesConfig {
+    return {
+      REVENUECAT_API_KEY: this.apiKey,
+      REVENUECAT_PROJECT_ID: this.projectId,
+      events: this._options.events,
+      onEvent: this._options.onEvent,
+      deadLetterAfterAttempts: this._options.deadLetterAfterAttempts,
+      minResyncIntervalMs: this._options.minResyncIntervalMs,
+    };
+  }
+
+  // ==========================================================================
+  // VIRTUAL CURRENCY
+  // ==========================================================================
+
+  /**
+   * Fetch virtual currency balances from RevenueCat v2 API and sync to Convex.
+   *
+   * Requires REVENUECAT_PROJECT_ID to be set.
+   */
+  async syncVirtualCurrencyBalances(
+    ctx: ActionCtx,
+    args: { appUserId: string; rateLimitPolicy?: RevenueCatRateLimitPolicy },
+  ): Promise<{ balances: VirtualCurrencyBalanceData[]; fromCache: boolean }> {
+    return await this.withRateLimitPolicy(
+      ctx,
+      args.rateLimitPolicy,
+      async (rateLimit) => {
+        const balances = await fetchVirtualCurrencyBalances(
+          this.apiKey,
+          this.projectId,
+          args.appUserId,
+          rateLimit,
+        );
+        const lastSyncedAt = Date.now();
+
+        await ctx.runMutation(
+          this.component.private.syncVirtualCurrencyBalances,
+          {
+            appUserId: args.appUserId,
+            lastSyncedAt,
+            balances,
+          },
+        );
+
+        return { balances };
+      },
+      async () => {
+        const cached = await ctx.runQuery(
+          this.component.public.getVirtualCurrencyBalances,
+          { appUserId: args.appUserId },
+        );
+        return {
+          balances: cached.map(({ currencyCode, balance }) => ({
+            currencyCode,
+            balance,
+          })),
+        };
+      },
+    );
+  }
+
+  /**
+   * Fetch the project's virtual currency definitions (code, name and
+   * description) from RevenueCat v2 API and replace the cached ones.
+   *
+   * Definition changes don't produce webhook events, so run this from a cron
+   * or after editing currencies in the RevenueCat dashboard.
+   */
+  async syncVirtualCurrencyDefinitions(
+    ctx: ActionCtx,
+  ): Promise<{ count: number }> {
+    const definitions = await fetchVirtualCurrencyDefinitions(
+      this.apiKey,
+      this.projectId,
+      { ctx, component: this.component },
+    );
+    await ctx.runMutation(
+      this.component.private.replaceVirtualCurrencyDefinitions,
+      { definitions, lastSyncedAt: Date.now() },
+    );
+    return { count: definitions.length };
   }
 
   /**
@@ -184,8 +928,9 @@ export class RevenueCatSync {
    * Accepts a map of currency codes to amounts to spend (positive numbers).
    * Returns the updated balances after the transaction.
    *
-   * API-based transactions don't fire webhooks, so we sync the response
-   * directly to keep the cache fresh.
+   * The amounts are checked against the cached balances and held while the
+   * request runs; throws `InsufficientFundsError` if they can't be covered,
+   * either by the cache or by RevenueCat.
    */
   async spendVirtualCurrency(
     ctx: ActionCtx,
@@ -196,192 +941,170 @@ export class RevenueCatSync {
     },
   ): Promise<{ balances: VirtualCurrencyBalanceData[] }> {
     // Negate amounts: caller passes positive spend amounts, API expects negative
-    const apiAdjustments = validateSpendAdjustments(args.adjustments);
-
-    const headers: Record<string, string> = {
-      Authorization: `Bearer ${this.apiKey}`,
-      "Content-Type": "application/json",
-    };
-    if (args.idempotencyKey) {
-      headers["Idempotency-Key"] = args.idempotencyKey;
-    }
-
-    const response = await fetch(
-      `https://api.revenuecat.com/v2/projects/${encodeURIComponent(this.projectId)}/customers/${encodeURIComponent(args.appUserId)}/virtual_currencies/transactions`,
+    const apiAdjustments = validateAdjustments(args.adjustments, "debit");
+    const balances = await postVirtualCurrencyTransaction(
+      ctx,
+      this.component,
+      this.apiKey,
+      this.projectId,
+      "spend",
       {
-        method: "POST",
-        headers,
-        body: JSON.stringify({ adjustments: apiAdjustments }),
+        appUserId: args.appUserId,
+        adjustments: apiAdjustments,
+        idempotencyKey: args.idempotencyKey,
       },
     );
+    return { balances };
+  }
 
-    if (!response.ok) {
-      const errorBody = await response.text();
-      console.error("RevenueCat v2 API error:", errorBody);
-      throw new Error(
-        `Failed to spend virtual currency for ${args.appUserId}: ${response.status}`,
-      );
-    }
-
-    const result = await response.json();
-    const balances = parseVirtualCurrencyBalances(result);
-    const lastSyncedAt = Date.now();
-
-    await ctx.runMutation(
-      this.component.private.syncVirtualCurrencyBalances,
+  /**
+   * Grant virtual currency via RevenueCat v2 API and sync updated balances.
+   *
+   * Accepts a map of currency codes to amounts to credit (positive numbers).
+   * Returns the updated balances after the transaction.
+   */
+  async grantVirtualCurrency(
+    ctx: ActionCtx,
+    args: {
+      appUserId: string;
+      adjustments: Record<string, number>;
+      idempotencyKey?: string;
+    },
+  ): Promise<{ balances: VirtualCurrencyBalanceData[] }> {
+    const apiAdjustments = validateAdjustments(args.adjustments, "credit");
+    const balances = await postVirtualCurrencyTransaction(
+      ctx,
+      this.component,
+      this.apiKey,
+      this.projectId,
+      "grant",
       {
         appUserId: args.appUserId,
-        lastSyncedAt,
-        balances,
+        adjustments: apiAdjustments,
+        idempotencyKey: args.idempotencyKey,
       },
     );
-
     return { balances };
   }
-}
 
-// ============================================================================
-// CUSTOMER & ENTITLEMENT FETCHING (shared by syncSubscriber + fullResync)
-// ============================================================================
-
-/**
- * Fetch a customer from the RevenueCat v2 API, resolve entitlement lookup keys,
- * and handle pagination for active_entitlements.
- *
- * Returns `null` when the customer does not exist (404).
- */
-async function fetchCustomerAndEntitlements(
-  apiKey: string,
-  projectId: string,
-  appUserId: string,
-  lookupMap?: Map<string, string>,
-  rateLimit?: RevenueCatRequestRateLimit,
-): Promise<{ customer: any; entitlements: EntitlementData[] } | null> {
-  const response = await fetchRevenueCat(
-    `https://api.revenuecat.com/v2/projects/${encodeURIComponent(projectId)}/customers/${encodeURIComponent(appUserId)}`,
-    {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
+  /**
+   * Adjust virtual currency balances via RevenueCat v2 API and sync updated
+   * balances.
+   *
+   * Accepts a map of currency codes to signed amounts: positive amounts are
+   * credited, negative amounts debited. A debit and a credit can be made in
+   * one transaction, e.g. to exchange one currency for another. Debits are
+   * checked and held like `spendVirtualCurrency`'s.
+   */
+  async adjustVirtualCurrency(
+    ctx: ActionCtx,
+    args: {
+      appUserId: string;
+      adjustments: Record<string, number>;
+      idempotencyKey?: string;
     },
-    rateLimit,
-  );
-
-  if (response.status === 404) {
-    return null;
-  }
-
-  if (!response.ok) {
-    const errorBody = await response.text();
-    console.error("RevenueCat API error:", errorBody);
-    throw new Error(`Failed to fetch customer ${appUserId} from RevenueCat`);
-  }
-
-  const customer = await response.json();
-
-  if (!customer || typeof customer !== "object" || customer.object !== "customer") {
-    throw new Error(
-      `Unexpected RevenueCat API response for customer ${appUserId}: missing customer object`,
-    );
-  }
-
-  const resolvedMap =
-    lookupMap ?? (await fetchEntitlementLookupMap(apiKey, projectId, rateLimit));
-
-  // Parse first page of active entitlements
-  const entitlements = parseActiveEntitlements(
-    customer.active_entitlements?.items,
-    resolvedMap,
-  );
-
-  // Follow pagination
-  let nextPage: string | null = customer.active_entitlements?.next_page ?? null;
-  while (nextPage) {
-    const pageResponse = await fetchRevenueCat(
-      `https://api.revenuecat.com${nextPage}`,
+  ): Promise<{ balances: VirtualCurrencyBalanceData[] }> {
+    const apiAdjustments = validateAdjustments(args.adjustments, "signed");
+    const balances = await postVirtualCurrencyTransaction(
+      ctx,
+      this.component,
+      this.apiKey,
+      this.projectId,
+      "adjust",
       {
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
+        appUserId: args.appUserId,
+        adjustments: apiAdjustments,
+        idempotencyKey: args.idempotencyKey,
       },
-      rateLimit,
     );
-    if (!pageResponse.ok) break;
-    const page = await pageResponse.json();
-    entitlements.push(...parseActiveEntitlements(page.items, resolvedMap));
-    nextPage = page.next_page ?? null;
+    return { balances };
   }
 
-  return { customer, entitlements };
-}
-
-/**
- * Fetch project entitlement definitions and build an ID → lookup_key map.
- *
- * The v2 active_entitlements response uses opaque entitlement IDs (e.g.,
- * "entla1b2c3d4e5"). This helper resolves them to the human-readable
- * lookup keys (e.g., "premium") that consumers expect.
- */
-async function fetchEntitlementLookupMap(
-  apiKey: string,
-  projectId: string,
-  rateLimit?: RevenueCatRequestRateLimit,
-): Promise<Map<string, string>> {
-  const map = new Map<string, string>();
-  let url: string | null =
-    `/v2/projects/${encodeURIComponent(projectId)}/entitlements?limit=200`;
-
-  while (url) {
-    const response: Response = await fetchRevenueCat(
-      `https://api.revenuecat.com${url}`,
+  /**
+   * Spend virtual currency and run a mutation of your app that delivers
+   * what was bought (an item, an unlock), as one purchase that is retried
+   * until both steps complete.
+   *
+   * The purchase is persisted before anything runs. The currency is spent
+   * with an idempotency key derived from the purchase, so it is debited at
+   * most once, and `fulfil` runs in the same transaction that marks the
+   * purchase fulfilled, so it runs exactly once. A step that fails, or an
+   * action that crashes, is resumed from a scheduled retry; calling again
+   * with the same `purchaseKey` also resumes the existing purchase, and
+   * throws if it was started for another user or other amounts.
+   *
+   * Returns the purchase's ID and status: `fulfilled` when both steps ran,
+   * `pending` or `spent` when a retry is scheduled, `in_progress` when
+   * another attempt is running it, or `failed` once the retries ran out.
+   * A purchase whose spend may have been sent is never failed: it is
+   * retried until it is fulfilled. A spend RevenueCat refuses wasn't made,
+   * so it doesn't count as sent. Throws `InsufficientFundsError`, after
+   * marking the purchase failed, if the balances can't cover the spend.
+   */
+  async purchaseWithVirtualCurrency<
+    Mutation extends FunctionReference<"mutation">,
+  >(
+    ctx: ActionCtx,
+    args: {
+      appUserId: string;
+      adjustments: Record<string, number>;
+      fulfil: Mutation;
+      fulfilArgs: FunctionArgs<Mutation>;
+      purchaseKey?: string;
+    },
+  ): Promise<{
+    purchaseId: string;
+    status: VirtualCurrencyPurchaseStatus | "in_progress";
+  }> {
+    const apiAdjustments = validateAdjustments(args.adjustments, "debit");
+    await this.registerWorker(ctx);
+    const purchaseId = await ctx.runMutation(
+      this.component.private.startVirtualCurrencyPurchase,
       {
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
+        appUserId: args.appUserId,
+        adjustments: Object.entries(apiAdjustments).map(
+          ([currencyCode, amount]) => ({ currencyCode, amount: -amount }),
+        ),
+        fulfilHandle: await createFunctionHandle(args.fulfil),
+        fulfilArgs: args.fulfilArgs,
+        purchaseKey: args.purchaseKey,
       },
-      rateLimit,
     );
 
-    if (!response.ok) {
-      console.error(
-        "Failed to fetch entitlement definitions:",
-        await response.text(),
-      );
-      break;
-    }
-
-    const result: any = await response.json();
-    for (const item of result.items ?? []) {
-      if (item.id && item.lookup_key) {
-        map.set(item.id, item.lookup_key);
-      }
-    }
-    url = result.next_page ?? null;
+    const result = await runVirtualCurrencyPurchase(
+      ctx,
+      this.component,
+      this.apiKey,
+      this.projectId,
+      purchaseId,
+    );
+    return { purchaseId, status: result.status };
   }
 
-  return map;
-}
-
-/**
- * Parse active entitlements from the RevenueCat v2 API response,
- * resolving opaque entitlement IDs to human-readable lookup keys.
- */
-function parseActiveEntitlements(
-  items: any[] | undefined,
-  lookupMap: Map<string, string>,
-): EntitlementData[] {
-  if (!Array.isArray(items)) return [];
-
-  return items.map((item) => ({
-    entitlementId: lookupMap.get(item.entitlement_id) ?? item.entitlement_id,
-    isActive: true,
-    expiresDate: item.expires_at
-      ? new Date(item.expires_at).toISOString()
-      : undefined,
-  }));
+  /**
+   * Give up a purchase that can't be fulfilled, e.g. because its
+   * fulfilment keeps throwing, and refund the currency if it may have been
+   * spent. A purchase whose spend was sent is never failed on its own, so
+   * this is how to stop one.
+   *
+   * Returns `failed` once the purchase is abandoned (`refundedAt` is set if
+   * it was refunded), the status of a purchase that already finished, or
+   * `in_progress` if an attempt is running it; call again after
+   * `expiresAt`.
+   */
+  async abandonVirtualCurrencyPurchase(
+    ctx: ActionCtx,
+    args: { purchaseId: string },
+  ): Promise<{ status: VirtualCurrencyPurchaseStatus | "in_progress" }> {
+    const result = await abandonVirtualCurrencyPurchase(
+      ctx,
+      this.component,
+      this.apiKey,
+      this.projectId,
+      args.purchaseId,
+    );
+    return { status: result.status };
+  }
 }
 
 // ============================================================================
@@ -389,69 +1112,13 @@ function parseActiveEntitlements(
 // ============================================================================
 
 /**
- * Fetch virtual currency balances from the RevenueCat v2 API.
+ * Validate and normalize adjustments into the signed amounts RevenueCat
+ * expects. Debits and credits take positive amounts (debits are negated);
+ * signed adjustments are passed through as long as they aren't zero.
  */
-async function fetchVirtualCurrencyBalances(
-  apiKey: string,
-  projectId: string,
-  appUserId: string,
-  rateLimit?: RevenueCatRequestRateLimit,
-): Promise<VirtualCurrencyBalanceData[]> {
-  const response = await fetchRevenueCat(
-    `https://api.revenuecat.com/v2/projects/${encodeURIComponent(projectId)}/customers/${encodeURIComponent(appUserId)}/virtual_currencies`,
-    {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-    },
-    rateLimit,
-  );
-
-  if (!response.ok) {
-    const errorBody = await response.text();
-    console.error("RevenueCat v2 API error:", errorBody);
-    throw new Error(
-      `Failed to fetch virtual currency balances for ${appUserId}: ${response.status}`,
-    );
-  }
-
-  const result = await response.json();
-  return parseVirtualCurrencyBalances(result);
-}
-
-/**
- * Parse virtual currency balances from a RevenueCat v2 API response.
- */
-function parseVirtualCurrencyBalances(
-  result: any,
-): VirtualCurrencyBalanceData[] {
-  const items = result?.items;
-  if (!Array.isArray(items)) return [];
-
-  const balances: VirtualCurrencyBalanceData[] = [];
-  for (const item of items) {
-    if (
-      item &&
-      typeof item.currency_code === "string" &&
-      typeof item.balance === "number" &&
-      Number.isFinite(item.balance)
-    ) {
-      balances.push({
-        currencyCode: item.currency_code,
-        balance: item.balance,
-      });
-    }
-  }
-  return balances;
-}
-
-/**
- * Validate and normalize spend adjustments.
- * Caller-facing API uses positive spend amounts; RevenueCat expects negatives.
- */
-function validateSpendAdjustments(
+function validateAdjustments(
   adjustments: Record<string, number>,
+  direction: "debit" | "credit" | "signed",
 ): Record<string, number> {
   const entries = Object.entries(adjustments ?? {});
   if (entries.length === 0) {
@@ -467,15 +1134,91 @@ function validateSpendAdjustments(
     if (typeof amount !== "number" || !Number.isFinite(amount)) {
       throw new Error(`adjustment for ${code} must be a finite number`);
     }
+    if (direction === "signed") {
+      if (amount === 0) {
+        throw new Error(`adjustment for ${code} must not be zero`);
+      }
+      normalized[code] = amount;
+      continue;
+    }
     if (amount <= 0) {
       throw new Error(`adjustment for ${code} must be greater than zero`);
     }
-    normalized[code] = -amount;
+    normalized[code] = direction === "debit" ? -amount : amount;
   }
 
   return normalized;
 }
 
+// ============================================================================
+// RATE LIMIT POLICY
+// ============================================================================
+
+/** Default longest wait for the "wait" rate limit policy. */
+const RATE_LIMIT_MAX_WAIT_MS = 10_000;
+
+/** Retry interval for the "wait" policy when no `Retry-After` is known. */
+const RATE_LIMIT_WAIT_INTERVAL_MS = 1_000;
+
+// ============================================================================
+// SYNC COALESCING
+// ============================================================================
+
+/** Longest wait for another sync of the same user to finish. */
+const COALESCED_SYNC_MAX_WAIT_MS = 10_000;
+
+const COALESCED_SYNC_WAIT_INTERVAL_MS = 500;
+
+// ============================================================================
+// DRIFT AUDIT HELPERS
+// ============================================================================
+
+/**
+ * Stop auditing with time to spare before Convex's 10 minute action limit.
+ */
+const AUDIT_TIME_BUDGET_MS = 8 * 60 * 1000;
+
+/**
+ * How long to wait when the shared rate limit budget runs out (one window).
+ */
+const AUDIT_RATE_LIMIT_WAIT_MS = 60_000;
+
+/**
+ * Read the IDs of all cached subscribers, keeping a uniform random sample of
+ * `sampleSize` when given.
+ */
+async function selectSubscribersToAudit(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  sampleSize?: number,
+): Promise<string[]> {
+  const selected: string[] = [];
+  let seen = 0;
+  let cursor: string | null = null;
+  let isDone = false;
+
+  while (!isDone) {
+    const result: { page: string[]; continueCursor: string; isDone: boolean } =
+      await ctx.runQuery(component.public.listSubscriberIds, {
+        paginationOpts: { numItems: 500, cursor },
+      });
+    for (const appUserId of result.page) {
+      seen++;
+      if (sampleSize === undefined || selected.length < sampleSize) {
+        selected.push(appUserId);
+        continue;
+      }
+      // Reservoir sampling: every subscriber ends up picked with equal odds
+      const slot = Math.floor(Math.random() * seen);
+      if (slot < sampleSize) selected[slot] = appUserId;
+    }
+    cursor = result.continueCursor;
+    isDone = result.isDone;
+  }
+
+  return selected;
+}
+
 // ============================================================================
 // WEBHOOK ROUTE REGISTRATION
 // ============================================================================
@@ -512,7 +1255,21 @@ export function registerRoutes(
   config?: RegisterRoutesConfig,
 ) {
   const webhookPath = config?.webhookPath ?? "/revenuecat/webhook";
-  const eventHandlers = config?.events ?? {};
+  const asyncProcessing =
+    config?.asyncProcessing === true ? {} : config?.asyncProcessing || null;
+  const worker = config?.worker;
+  if (!worker) {
+    throw new Error(
+      "registerRoutes needs the `worker` option to run the background work webhooks schedule",
+    );
+  }
+  // Registered once per isolate rather than on every delivery
+  let workerRegistered = false;
+  if (asyncProcessing && (config?.events || config?.onEvent)) {
+    throw new Error(
+      "With asyncProcessing, event handlers run in the worker: pass `events` and `onEvent` to its RevenueCatSync client",
+    );
+  }
 
   http.route({
     path: webhookPath,
@@ -558,12 +1315,20 @@ export function registerRoutes(
 
       // 4. Idempotency check (tri-state: "acquired" | "processing" | "processed")
       try {
+        if (!workerRegistered) {
+          await ctx.runMutation(component.private.registerWorker, {
+            workerHandle: await createFunctionHandle(worker),
+          });
+          workerRegistered = true;
+        }
         const lockState = await ctx.runMutation(
           component.private.checkAndRecordEvent,
           {
             revenuecatEventId: event.id,
             eventType: event.type,
             eventTimestampMs: event.event_timestamp_ms,
+            appUserId: event.app_user_id || undefined,
+            event: sanitizeForConvex(event),
           },
         );
 
@@ -594,26 +1359,34 @@ export function registerRoutes(
         return new Response("Idempotency check failed", { status: 500 });
       }
 
-      // 5. Process the event
+      // 5. Process the event (or queue it for background processing)
       try {
-        await processEvent(ctx, component, event, config);
+        if (asyncProcessing) {
+          await ctx.runMutation(component.private.enqueueEvent, {
+            revenuecatEventId: event.id,
+            event: sanitizeForConvex(event),
+            options: processEventOptions(config),
+            maxAttempts: asyncProcessing.maxAttempts,
+            initialBackoffMs: asyncProcessing.initialBackoffMs,
+          });
 
-        // Call generic event handler if provided
-        if (config?.onEvent) {
-          await config.onEvent(ctx, event);
+          return new Response(
+            JSON.stringify({ received: true, queued: true }),
+            {
+              status: 200,
+              headers: { "Content-Type": "application/json" },
+            },
+          );
         }
 
-        // Call custom event handler if provided
-        const customHandler: ((ctx: any, event: any) => Promise<void>) | undefined =
-          eventHandlers[event.type] as any;
-        if (customHandler) {
-          await customHandler(ctx, event);
-        }
+        await executeEvent(ctx, component, event, config);
 
         // 6. Mark as processed
         try {
           await ctx.runMutation(component.private.markEventProcessed, {
             revenuecatEventId: event.id,
+            appUserId: event.app_user_id || undefined,
+            eventTimestampMs: event.event_timestamp_ms,
           });
         } catch (markError) {
           console.error("Failed to mark event as processed:", markError);
@@ -624,6 +1397,9 @@ export function registerRoutes(
         try {
           await ctx.runMutation(component.private.unreserveEvent, {
             revenuecatEventId: event.id,
+            error: getErrorMessage(error),
+            rateLimited: error instanceof RevenueCatRateLimitedError,
+            deadLetterAfterAttempts: config?.deadLetterAfterAttempts,
           });
         } catch (unreserveError) {
           console.error(
@@ -638,7 +1414,9 @@ export function registerRoutes(
               status: 429,
               headers: {
                 "Content-Type": "application/json",
-                "Retry-After": "60",
+                "Retry-After": String(
+                  Math.ceil((error.retryAfterMs ?? 60_000) / 1000),
+                ),
               },
             },
           );
@@ -660,215 +1438,256 @@ export function registerRoutes(
 // ============================================================================
 
 /**
- * Process RevenueCat webhook events.
- *
- * For entitlement-affecting events, triggers a full resync from the
- * RevenueCat REST API rather than trying to incrementally update from
- * the webhook payload. This ensures the cached data always matches
- * RevenueCat's truth.
+ * Run default processing followed by the configured custom handlers.
+ * Shared by the webhook route and dead-letter replay.
  */
-async function processEvent(
+async function executeEvent(
   ctx: ActionCtx,
   component: ComponentApi,
   event: RevenueCatWebhookEvent,
   config?: RegisterRoutesConfig,
 ): Promise<void> {
-  const apiKey =
-    config?.REVENUECAT_API_KEY || process.env.REVENUECAT_API_KEY;
-  const projectId =
-    config?.REVENUECAT_PROJECT_ID || process.env.REVENUECAT_PROJECT_ID;
-  const appUserId = event.app_user_id;
-  const webhookRateLimit = getWebhookRateLimit(ctx, component, event);
-
-  switch (event.type) {
-    case "INITIAL_PURCHASE":
-    case "RENEWAL":
-    case "CANCELLATION":
-    case "UNCANCELLATION":
-    case "EXPIRATION":
-    case "BILLING_ISSUE":
-    case "SUBSCRIPTION_EXTENDED":
-    case "SUBSCRIPTION_PAUSED":
-    case "PRODUCT_CHANGE":
-    case "NON_RENEWING_PURCHASE":
-    case "TEMPORARY_ENTITLEMENT_GRANT":
-    case "REFUND":
-    case "REFUND_REVERSED": {
-      if (!apiKey || !projectId) {
-        throw new Error(
-          "REVENUECAT_API_KEY and REVENUECAT_PROJECT_ID are required to process entitlement-affecting events. " +
-          "Set them in the Convex dashboard environment variables.",
-        );
-      }
-      if (!appUserId) {
-        throw new Error(
-          `Webhook event ${event.type} (${event.id}) is missing app_user_id`,
-        );
-      }
-      await fullResync(
-        ctx,
-        component,
-        apiKey,
-        projectId,
-        appUserId,
-        undefined,
-        webhookRateLimit,
-      );
-      break;
-    }
+  await processEvent(
+    ctx,
+    component,
+    event,
+    resolveCredentials(config),
+    processEventOptions(config),
+  );
+  await runEventHandlers(ctx, component, event, config);
+}
 
-    case "TRANSFER": {
-      if (!apiKey || !projectId) {
-        throw new Error(
-          "REVENUECAT_API_KEY and REVENUECAT_PROJECT_ID are required to process TRANSFER events. " +
-          "Set them in the Convex dashboard environment variables.",
-        );
-      }
-      const userIds = new Set<string>();
-      if (appUserId) userIds.add(appUserId);
-      for (const id of event.transferred_from ?? []) {
-        if (id) userIds.add(id);
-      }
-      for (const id of event.transferred_to ?? []) {
-        if (id) userIds.add(id);
-      }
-      // Pre-fetch lookup map once for all users in this transfer
-      const lookupMap = await fetchEntitlementLookupMap(
-        apiKey,
-        projectId,
-        webhookRateLimit,
-      );
-      for (const id of userIds) {
-        await fullResync(
-          ctx,
-          component,
-          apiKey,
-          projectId,
-          id,
-          lookupMap,
-          webhookRateLimit,
-        );
-      }
-      break;
-    }
+/** Outbox changes delivered per worker run. */
+const ENTITLEMENT_CHANGE_BATCH_SIZE = 50;
 
-    case "VIRTUAL_CURRENCY_TRANSACTION": {
-      if (!apiKey || !projectId) {
-        throw new Error(
-          "REVENUECAT_API_KEY and REVENUECAT_PROJECT_ID are required to sync virtual currency. " +
-          "Set them in the Convex dashboard environment variables.",
-        );
-      }
-      if (!appUserId) {
-        throw new Error(
-          `Webhook event ${event.type} (${event.id}) is missing app_user_id`,
-        );
-      }
-      const balances = await fetchVirtualCurrencyBalances(
-        apiKey,
-        projectId,
-        appUserId,
-        webhookRateLimit,
-      );
-      await ctx.runMutation(
-        component.private.syncVirtualCurrencyBalances,
-        {
-          appUserId,
-          lastSyncedAt: Date.now(),
-          balances,
-        },
+/**
+ * Fire the entitlement change callbacks for a batch of the changes the
+ * component queued in its outbox, then acknowledge them; the component
+ * schedules another delivery while more are waiting.
+ *
+ * A failing callback is logged instead of failing the delivery, because
+ * the changes are already written and a retried sync would find nothing
+ * left to change.
+ */
+async function deliverEntitlementChanges(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  callbacks?: EntitlementChangeCallbacks,
+): Promise<void> {
+  const pending = await ctx.runQuery(
+    component.public.listPendingEntitlementChanges,
+    { limit: ENTITLEMENT_CHANGE_BATCH_SIZE },
+  );
+  if (pending.length === 0) return;
+
+  // Handlers are typed against the full action ctx, which every caller has
+  const handlerCtx = ctx as GenericActionCtx<GenericDataModel>;
+  const handlers: Record<
+    (typeof pending)[number]["kind"],
+    EntitlementChangeHandler | undefined
+  > = {
+    granted: callbacks?.onEntitlementGranted,
+    revoked: callbacks?.onEntitlementRevoked,
+    expiry_changed: callbacks?.onEntitlementExpiryChanged,
+  };
+
+  for (const { id: _id, kind, ...change } of pending) {
+    const handler = handlers[kind];
+    if (!handler) continue;
+    try {
+      await handler(handlerCtx, change);
+    } catch (error) {
+      console.error(
+        `Entitlement change callback failed for ${change.appUserId} (${change.entitlementId}):`,
+        getErrorMessage(error),
       );
-      break;
     }
-
-    case "TEST":
-    case "SUBSCRIBER_ALIAS":
-    case "INVOICE_ISSUANCE":
-    case "EXPERIMENT_ENROLLMENT":
-      console.log(`RevenueCat event ${event.type} — no sync needed`);
-      break;
-
-    default:
-      console.log(`Unhandled RevenueCat event type: ${event.type}`);
   }
+
+  await ctx.runMutation(component.private.acknowledgeEntitlementChanges, {
+    ids: pending.map((change) => change.id),
+  });
 }
 
+type EntitlementChangeCallbacks = Pick<
+  RevenueCatSyncOptions,
+  "onEntitlementGranted" | "onEntitlementRevoked" | "onEntitlementExpiryChanged"
+>;
+
 /**
- * Full resync: fetch customer from RevenueCat v2 API and update Convex DB.
+ * Run the configured `onEvent` and per-type handlers for an event.
  */
-async function fullResync(
+async function runEventHandlers(
   ctx: ActionCtx,
   component: ComponentApi,
-  apiKey: string,
-  projectId: string,
-  appUserId: string,
-  lookupMap?: Map<string, string>,
-  rateLimit?: RevenueCatRequestRateLimit,
+  event: RevenueCatWebhookEvent,
+  config?: RegisterRoutesConfig,
 ): Promise<void> {
-  const result = await fetchCustomerAndEntitlements(
-    apiKey,
-    projectId,
-    appUserId,
-    lookupMap,
-    rateLimit,
-  );
+  const customHandler:
+    | ((ctx: any, event: any, context: RevenueCatEventContext) => Promise<void>)
+    | undefined = config?.events?.[event.type] as any;
+  if (!config?.onEvent && !customHandler) return;
+
+  // Handlers are typed against the full action ctx, which every caller has
+  const handlerCtx = ctx as GenericActionCtx<GenericDataModel>;
+  const context = await getEventContext(ctx, component, event);
+
+  // Call generic event handler if provided
+  if (config?.onEvent) {
+    await config.onEvent(handlerCtx, event, context);
+  }
 
-  if (!result) {
-    console.warn(`Customer ${appUserId} not found in RevenueCat (404), clearing entitlements`);
-    await ctx.runMutation(component.private.clearEntitlements, { appUserId });
-    return;
+  // Call custom event handler if provided
+  if (customHandler) {
+    await customHandler(handlerCtx, event, context);
   }
+}
 
-  const { customer, entitlements } = result;
-  const lastSyncedAt = Date.now();
+/**
+ * Default-processing options taken from route config.
+ */
+function processEventOptions(config?: RegisterRoutesConfig) {
+  return {
+    payloadFirst: config?.payloadFirst,
+    skipStaleEvents: config?.skipStaleEvents,
+    minResyncIntervalMs: config?.minResyncIntervalMs,
+  };
+}
 
-  await ctx.runMutation(component.private.syncSubscriberAndEntitlements, {
-    appUserId,
-    lastSyncedAt,
-    rawSubscriber: sanitizeForConvex(customer),
-    entitlements,
-  });
+/**
+ * Resolve RevenueCat credentials from route config, falling back to the
+ * host app's environment variables.
+ */
+function resolveCredentials(
+  config?: RegisterRoutesConfig,
+): RevenueCatCredentials {
+  return {
+    apiKey: config?.REVENUECAT_API_KEY || process.env.REVENUECAT_API_KEY,
+    projectId:
+      config?.REVENUECAT_PROJECT_ID || process.env.REVENUECAT_PROJECT_ID,
+  };
 }
 
-type RevenueCatRequestRateLimit = {
-  component: ComponentApi;
-  ctx: ActionCtx;
-};
+/**
+ * Process a queued webhook event in the worker.
+ *
+ * Runs the same default processing and handlers as the inline webhook route
+ * — the handlers only once the sync has succeeded — and finishes with the
+ * same state machine: `markEventProcessed` on success, a scheduled retry
+ * with exponential backoff on failure, and — once `maxAttempts` is
+ * exhausted — `unreserveEvent`, which dead-letters the event for replay.
+ */
+async function processQueuedEvent(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  task: Extract<RevenueCatWorkerTask, { kind: "process_event" }>,
+  config: RegisterRoutesConfig,
+): Promise<void> {
+  const { kind: _kind, ...queued } = task;
+  try {
+    await processEvent(
+      ctx,
+      component,
+      task.event,
+      resolveCredentials(config),
+      task.options,
+    );
+    await runEventHandlers(ctx, component, task.event, config);
+  } catch (error) {
+    const message = getErrorMessage(error);
+    console.error(
+      `Queued RevenueCat event ${task.revenuecatEventId} failed (attempt ${task.attempt}/${task.maxAttempts}):`,
+      message,
+    );
 
-class RevenueCatRateLimitedError extends Error {
-  constructor() {
-    super("RevenueCat API rate limit exceeded");
-    this.name = "RevenueCatRateLimitedError";
+    // Running out of rate limit budget doesn't use up an attempt
+    const rateLimited = error instanceof RevenueCatRateLimitedError;
+    if (rateLimited || task.attempt < task.maxAttempts) {
+      const backoff = task.initialBackoffMs * 2 ** (task.attempt - 1);
+      const jitter = Math.random() * backoff * 0.2;
+      const delayMs = rateLimited
+        ? Math.max(
+            backoff + jitter,
+            error.retryAfterMs ?? RATE_LIMITED_RETRY_DELAY_MS,
+          )
+        : backoff + jitter;
+      await ctx.runMutation(component.private.retryQueuedEvent, {
+        ...queued,
+        attempt: rateLimited ? task.attempt : task.attempt + 1,
+        error: message,
+        rateLimited,
+        delayMs,
+      });
+    } else {
+      // RevenueCat already got a 200, so it won't redeliver: dead-letter now
+      await ctx.runMutation(component.private.unreserveEvent, {
+        revenuecatEventId: task.revenuecatEventId,
+        error: message,
+        deadLetterAfterAttempts: 1,
+      });
+    }
+    return;
   }
+
+  await ctx.runMutation(component.private.markEventProcessed, {
+    revenuecatEventId: task.revenuecatEventId,
+    appUserId: task.event.app_user_id || undefined,
+    eventTimestampMs: task.event.event_timestamp_ms,
+  });
 }
 
-function getWebhookRateLimit(
+/**
+ * Replay a stored webhook event through the idempotency state machine.
+ *
+ * Unlike the webhook route, failures are reported in the result instead of
+ * thrown, so a batch of replays can continue past a failing event.
+ */
+async function replayWebhookEvent(
   ctx: ActionCtx,
   component: ComponentApi,
   event: RevenueCatWebhookEvent,
-): RevenueCatRequestRateLimit | undefined {
-  if (!webhookEventUsesRevenueCatApi(event)) {
-    return undefined;
+  config: RegisterRoutesConfig,
+): Promise<ReplayEventResult> {
+  const lockState = await ctx.runMutation(
+    component.private.checkAndRecordEvent,
+    {
+      revenuecatEventId: event.id,
+      eventType: event.type,
+      eventTimestampMs: event.event_timestamp_ms,
+      appUserId: event.app_user_id || undefined,
+      event,
+    },
+  );
+
+  if (lockState === "processed") {
+    return { revenuecatEventId: event.id, status: "duplicate" };
+  }
+  if (lockState === "processing") {
+    return { revenuecatEventId: event.id, status: "in_progress" };
   }
-  return { ctx, component };
-}
 
-async function fetchRevenueCat(
-  input: string,
-  init: RequestInit,
-  rateLimit?: RevenueCatRequestRateLimit,
-): Promise<Response> {
-  if (rateLimit) {
-    const rateStatus = await rateLimit.ctx.runMutation(
-      rateLimit.component.private.checkRateLimit,
-      { key: "revenuecat_api" },
-    );
-    if (rateStatus === "rate_limited") {
-      throw new RevenueCatRateLimitedError();
-    }
+  try {
+    await executeEvent(ctx, component, event, config);
+  } catch (error) {
+    await ctx.runMutation(component.private.unreserveEvent, {
+      revenuecatEventId: event.id,
+      error: getErrorMessage(error),
+      rateLimited: error instanceof RevenueCatRateLimitedError,
+      deadLetterAfterAttempts: config.deadLetterAfterAttempts,
+    });
+    return {
+      revenuecatEventId: event.id,
+      status: "failed",
+      error: getErrorMessage(error),
+    };
   }
 
-  return await fetch(input, init);
+  await ctx.runMutation(component.private.markEventProcessed, {
+    revenuecatEventId: event.id,
+    appUserId: event.app_user_id || undefined,
+    eventTimestampMs: event.event_timestamp_ms,
+  });
+  return { revenuecatEventId: event.id, status: "processed" };
 }
 
 // ============================================================================
@@ -888,66 +1707,4 @@ function constantTimeEqual(a: string, b: string): boolean {
   return result === 0;
 }
 
-/**
- * Only some webhook types trigger outbound RevenueCat API calls.
- * Skip rate-limit accounting for no-op event types.
- */
-function webhookEventUsesRevenueCatApi(event: RevenueCatWebhookEvent): boolean {
-  switch (event.type) {
-    case "INITIAL_PURCHASE":
-    case "NON_RENEWING_PURCHASE":
-    case "RENEWAL":
-    case "PRODUCT_CHANGE":
-    case "CANCELLATION":
-    case "UNCANCELLATION":
-    case "BILLING_ISSUE":
-    case "SUBSCRIPTION_PAUSED":
-    case "SUBSCRIPTION_EXTENDED":
-    case "EXPIRATION":
-    case "TRANSFER":
-    case "TEMPORARY_ENTITLEMENT_GRANT":
-    case "REFUND":
-    case "REFUND_REVERSED":
-    case "VIRTUAL_CURRENCY_TRANSACTION":
-      return true;
-
-    case "TEST":
-    case "SUBSCRIBER_ALIAS":
-    case "INVOICE_ISSUANCE":
-    case "EXPERIMENT_ENROLLMENT":
-      return false;
-
-    default:
-      return false;
-  }
-}
-
-/**
- * Sanitize a value for safe storage in Convex.
- * - Preserves `null` values to keep the original payload shape intact
- * - Escapes keys starting with `$` (reserved by Convex)
- */
-function sanitizeForConvex(value: unknown): unknown {
-  if (value === null) return null;
-  if (value === undefined) return undefined;
-  if (Array.isArray(value)) {
-    return value.map(sanitizeForConvex);
-  }
-  if (typeof value === "object") {
-    const result: Record<string, unknown> = {};
-    for (const [key, val] of Object.entries(value as Record<string, unknown>)) {
-      if (val === undefined) continue;
-      const safeKey = key.startsWith("$") ? `_${key.slice(1)}` : key;
-      if (Object.prototype.hasOwnProperty.call(result, safeKey)) {
-        throw new Error(
-          `Convex sanitization: key collision — "${key}" would overwrite existing "${safeKey}"`,
-        );
-      }
-      result[safeKey] = sanitizeForConvex(val);
-    }
-    return result;
-  }
-  return value;
-}
-
 export default RevenueCatSync;
@@ -0,0 +1,2506 @@
+import type {
+  ActionCtx,
+  CatalogData,
+  EntitlementChange,
+  EntitlementData,
+  EntitlementDefinitionData,
+  EntitlementDriftData,
+  EntitlementProductData,
+  EntitlementStatus,
+  OfferingData,
+  PackageData,
+  ProductData,
+  RevenueCatEventContext,
+  RevenueCatRateLimitBucket,
+  RevenueCatEventType,
+  RevenueCatWebhookEvent,
+  SubscriptionData,
+  TransactionData,
+  VirtualCurrencyBalanceData,
+  VirtualCurrencyDefinitionData,
+  VirtualCurrencyPurchaseStatus,
+} from "./types.js";
+import type { ComponentApi } from "../component/_generated/component.js";
+import { RATE_LIMITED_RETRY_DELAY_MS } from "../component/rateLimits.js";
+
+/**
+ * RevenueCat REST API v2 sync engine.
+ *
+ * Shared by the `RevenueCatSync` client, the webhook route and the worker
+ * action that runs the component's scheduled work, all in the host app's
+ * actions, where the RevenueCat credentials live. Writes go through the
+ * component's mutations, referenced via `ComponentApi`.
+ */
+
+// ============================================================================
+// CUSTOMER & ENTITLEMENT FETCHING (shared by syncSubscriber + fullResync)
+// ============================================================================
+
+/**
+ * How long cached entitlement definitions are trusted before they are
+ * refetched from the project configuration API.
+ */
+const ENTITLEMENT_DEFINITIONS_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Fetch a customer from the RevenueCat v2 API, resolve entitlement lookup keys,
+ * and handle pagination for active_entitlements. Also fetches the customer's
+ * subscriptions.
+ *
+ * Lookup keys come from the cached entitlement definitions; the definitions
+ * are only refetched when the cache is stale or the customer has an
+ * entitlement ID the cache doesn't know yet. An ID still missing after the
+ * refetch is remembered as unknown, so it doesn't cause another one until
+ * the definitions are next refreshed.
+ *
+ * Returns `null` when the customer does not exist (404).
+ */
+export async function fetchCustomerAndEntitlements(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  apiKey: string,
+  projectId: string,
+  appUserId: string,
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<{
+  customer: any;
+  entitlements: EntitlementData[];
+  subscriptions: SubscriptionData[];
+} | null> {
+  const response = await fetchRevenueCat(
+    `https://api.revenuecat.com/v2/projects/${encodeURIComponent(projectId)}/customers/${encodeURIComponent(appUserId)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+    },
+    rateLimit,
+  );
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    console.error("RevenueCat API error:", errorBody);
+    throw new Error(`Failed to fetch customer ${appUserId} from RevenueCat`);
+  }
+
+  const customer = await response.json();
+
+  if (!customer || typeof customer !== "object" || customer.object !== "customer") {
+    throw new Error(
+      `Unexpected RevenueCat API response for customer ${appUserId}: missing customer object`,
+    );
+  }
+
+  // Collect the first page of active entitlements
+  const items: any[] = Array.isArray(customer.active_entitlements?.items)
+    ? [...customer.active_entitlements.items]
+    : [];
+
+  // Follow pagination
+  let nextPage: string | null = customer.active_entitlements?.next_page ?? null;
+  while (nextPage) {
+    const pageResponse = await fetchRevenueCat(
+      `https://api.revenuecat.com${nextPage}`,
+      {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+      },
+      rateLimit,
+    );
+    // A partial list would be written as the customer's complete set
+    if (!pageResponse.ok) {
+      console.error("RevenueCat API error:", await pageResponse.text());
+      throw new Error(
+        `Failed to fetch entitlements page for customer ${appUserId}: ${pageResponse.status}`,
+      );
+    }
+    const page = await pageResponse.json();
+    if (Array.isArray(page.items)) items.push(...page.items);
+    nextPage = page.next_page ?? null;
+  }
+
+  const subscriptionItems = await fetchAllPages(
+    `/v2/projects/${encodeURIComponent(projectId)}/customers/${encodeURIComponent(appUserId)}/subscriptions?limit=100`,
+    apiKey,
+    rateLimit,
+  );
+
+  const entitlementIds: string[] = [
+    ...items
+      .map((item) => item.entitlement_id)
+      .filter((id) => typeof id === "string"),
+    ...subscriptionItems.flatMap(subscriptionEntitlementIds),
+  ];
+  const lookupMap = await loadEntitlementLookupMap(
+    ctx,
+    component,
+    apiKey,
+    projectId,
+    entitlementIds,
+    rateLimit,
+  );
+
+  const subscriptions = parseSubscriptions(subscriptionItems, lookupMap);
+  const entitlements = parseActiveEntitlements(items, lookupMap).map(
+    (ent) => ({
+      ...ent,
+      status: entitlementStatusFromSubscriptions(ent, subscriptions),
+    }),
+  );
+
+  // Keep entitlements whose subscriptions lapsed as expired rows, so their
+  // status can still be queried
+  for (const sub of subscriptions) {
+    if (sub.givesAccess) continue;
+    for (const entitlementId of sub.entitlementIds) {
+      if (entitlements.some((ent) => ent.entitlementId === entitlementId)) {
+        continue;
+      }
+      entitlements.push({
+        entitlementId,
+        isActive: false,
+        expiresDate:
+          sub.currentPeriodEndsAt !== undefined
+            ? new Date(sub.currentPeriodEndsAt).toISOString()
+            : undefined,
+        status: "expired",
+      });
+    }
+  }
+
+  return { customer, entitlements, subscriptions };
+}
+
+/**
+ * Build the entitlement ID → lookup_key map for `entitlementIds` from the
+ * cached definitions, refreshing them first if the cache is empty, older
+ * than the TTL, or lacks one of the IDs not already known to be unknown.
+ * IDs the refreshed definitions still lack are recorded as unknown.
+ */
+async function loadEntitlementLookupMap(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  apiKey: string,
+  projectId: string,
+  entitlementIds: string[],
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<Map<string, string>> {
+  const cached = await ctx.runQuery(
+    component.public.getEntitlementDefinitions,
+    {},
+  );
+  const freshAfter = Date.now() - ENTITLEMENT_DEFINITIONS_TTL_MS;
+
+  if (cached.length > 0 && cached.every((def) => def.fetchedAt > freshAfter)) {
+    const lookupMap = new Map(
+      cached.map((def) => [def.entitlementId, def.lookupKey]),
+    );
+    const missing = entitlementIds.filter((id) => !lookupMap.has(id));
+    if (missing.length === 0) return lookupMap;
+    const unknown = new Set(
+      await ctx.runQuery(component.public.getUnknownEntitlementIds, {}),
+    );
+    if (missing.every((id) => unknown.has(id))) return lookupMap;
+  }
+
+  const lookupMap = await refreshEntitlementDefinitions(
+    ctx,
+    component,
+    apiKey,
+    projectId,
+    rateLimit,
+  );
+  const unknown = entitlementIds.filter((id) => !lookupMap.has(id));
+  if (unknown.length > 0) {
+    await ctx.runMutation(component.private.recordUnknownEntitlements, {
+      entitlementIds: unknown,
+    });
+  }
+  return lookupMap;
+}
+
+/**
+ * Refetch the project's entitlement definitions and replace the cache.
+ * Returns the resulting ID → lookup_key map.
+ */
+export async function refreshEntitlementDefinitions(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  apiKey: string,
+  projectId: string,
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<Map<string, string>> {
+  const definitions = await fetchEntitlementDefinitions(
+    apiKey,
+    projectId,
+    rateLimit,
+  );
+
+  await ctx.runMutation(component.private.replaceEntitlementDefinitions, {
+    definitions,
+    fetchedAt: Date.now(),
+  });
+
+  return new Map(definitions.map((def) => [def.entitlementId, def.lookupKey]));
+}
+
+/**
+ * Fetch project entitlement definitions from the v2 API.
+ *
+ * The v2 active_entitlements response uses opaque entitlement IDs (e.g.,
+ * "entla1b2c3d4e5"). The definitions resolve them to the human-readable
+ * lookup keys (e.g., "premium") that consumers expect.
+ *
+ * Throws if any page fails: a partial map would leave some entitlements
+ * stored under their opaque IDs.
+ */
+async function fetchEntitlementDefinitions(
+  apiKey: string,
+  projectId: string,
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<EntitlementDefinitionData[]> {
+  const definitions: EntitlementDefinitionData[] = [];
+  let url: string | null =
+    `/v2/projects/${encodeURIComponent(projectId)}/entitlements?limit=200`;
+
+  while (url) {
+    const response: Response = await fetchRevenueCat(
+      `https://api.revenuecat.com${url}`,
+      {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+      },
+      rateLimit,
+    );
+
+    if (!response.ok) {
+      console.error(
+        "Failed to fetch entitlement definitions:",
+        await response.text(),
+      );
+      throw new Error(
+        `Failed to fetch entitlement definitions from RevenueCat: ${response.status}`,
+      );
+    }
+
+    const result: any = await response.json();
+    for (const item of result.items ?? []) {
+      if (item.id && item.lookup_key) {
+        definitions.push({
+          entitlementId: item.id,
+          lookupKey: item.lookup_key,
+          displayName:
+            typeof item.display_name === "string" ? item.display_name : undefined,
+        });
+      }
+    }
+    url = result.next_page ?? null;
+  }
+
+  return definitions;
+}
+
+/**
+ * Parse active entitlements from the RevenueCat v2 API response,
+ * resolving opaque entitlement IDs to human-readable lookup keys.
+ */
+function parseActiveEntitlements(
+  items: any[] | undefined,
+  lookupMap: Map<string, string>,
+): EntitlementData[] {
+  if (!Array.isArray(items)) return [];
+
+  return items.map((item) => ({
+    entitlementId: lookupMap.get(item.entitlement_id) ?? item.entitlement_id,
+    isActive: true,
+    expiresDate: item.expires_at
+      ? new Date(item.expires_at).toISOString()
+      : undefined,
+  }));
+}
+
+/**
+ * Opaque IDs of the entitlements a v2 subscription object grants.
+ */
+function subscriptionEntitlementIds(item: any): string[] {
+  const entitlements = item?.entitlements?.items;
+  if (!Array.isArray(entitlements)) return [];
+  return entitlements
+    .map((ent: any) => ent?.id)
+    .filter((id: unknown): id is string => typeof id === "string");
+}
+
+/**
+ * Derive an entitlement's lifecycle status from the subscriptions granting
+ * it, preferring one that currently gives access. Entitlements without a
+ * subscription (one-time purchases, promotional grants) are "active".
+ */
+function entitlementStatusFromSubscriptions(
+  ent: EntitlementData,
+  subscriptions: SubscriptionData[],
+): EntitlementStatus {
+  const granting = subscriptions
+    .filter((sub) => sub.entitlementIds.includes(ent.entitlementId))
+    .sort(
+      (a, b) =>
+        Number(b.givesAccess) - Number(a.givesAccess) ||
+        (b.currentPeriodEndsAt ?? 0) - (a.currentPeriodEndsAt ?? 0),
+    );
+  const subscription = granting[0];
+  if (!subscription) return ent.isActive ? "active" : "expired";
+
+  switch (subscription.status) {
+    case "trialing":
+      return "trial";
+    case "in_grace_period":
+      return "grace_period";
+    case "in_billing_retry":
+      return "billing_retry";
+    case "paused":
+      return "paused";
+    case "expired":
+      return "expired";
+    case "active":
+      return subscription.autoRenewalStatus === "will_not_renew"
+        ? "cancelled"
+        : "active";
+    default:
+      return subscription.givesAccess ? "active" : "expired";
+  }
+}
+
+/**
+ * Parse subscriptions from the RevenueCat v2 customer subscriptions list.
+ */
+function parseSubscriptions(
+  items: any[],
+  lookupMap: Map<string, string>,
+): SubscriptionData[] {
+  const subscriptions: SubscriptionData[] = [];
+  for (const item of items) {
+    if (!item || typeof item.id !== "string") continue;
+
+    const status = typeof item.status === "string" ? item.status : "unknown";
+    const autoRenewalStatus =
+      typeof item.auto_renewal_status === "string"
+        ? item.auto_renewal_status
+        : undefined;
+    const currentPeriodEndsAt = optionalNumber(item.current_period_ends_at);
+
+    subscriptions.push({
+      subscriptionId: item.id,
+      productId: typeof item.product_id === "string" ? item.product_id : undefined,
+      store: typeof item.store === "string" ? item.store : "unknown",
+      storeSubscriptionIdentifier:
+        typeof item.store_subscription_identifier === "string"
+          ? item.store_subscription_identifier
+          : undefined,
+      status,
+      periodType: status === "trialing" ? "trial" : "normal",
+      givesAccess: item.gives_access === true,
+      entitlementIds: subscriptionEntitlementIds(item).map(
+        (id) => lookupMap.get(id) ?? id,
+      ),
+      autoRenewalStatus,
+      hasBillingIssue:
+        status === "in_grace_period" || status === "in_billing_retry",
+      startsAt: optionalNumber(item.starts_at),
+      currentPeriodStartsAt: optionalNumber(item.current_period_starts_at),
+      currentPeriodEndsAt,
+      nextRenewalAt:
+        autoRenewalStatus === "will_renew" ? currentPeriodEndsAt : undefined,
+      environment:
+        typeof item.environment === "string" ? item.environment : undefined,
+      managementUrl:
+        typeof item.management_url === "string" ? item.management_url : undefined,
+    });
+  }
+  return subscriptions;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+// ============================================================================
+// CUSTOMER LISTING
+// ============================================================================
+
+/**
+ * Fetch one page of the project's customers from the v2 customers list.
+ *
+ * `nextPage` is the `next_page` path returned by the previous page; omit it
+ * to start from the beginning.
+ */
+export async function fetchCustomerPage(
+  apiKey: string,
+  projectId: string,
+  pageSize: number,
+  nextPage?: string,
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<{ appUserIds: string[]; nextPage?: string }> {
+  const path =
+    nextPage ??
+    `/v2/projects/${encodeURIComponent(projectId)}/customers?limit=${pageSize}`;
+  const response = await fetchRevenueCat(
+    `https://api.revenuecat.com${path}`,
+    {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+    },
+    rateLimit,
+  );
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    console.error("RevenueCat v2 API error:", errorBody);
+    throw new Error(
+      `Failed to list customers from RevenueCat: ${response.status}`,
+    );
+  }
+
+  const result = await response.json();
+  const items: any[] = Array.isArray(result?.items) ? result.items : [];
+  return {
+    appUserIds: items
+      .map((item) => item?.id)
+      .filter((id): id is string => typeof id === "string" && id !== ""),
+    nextPage: result?.next_page ?? undefined,
+  };
+}
+
+// ============================================================================
+// TRANSACTION FETCHING
+// ============================================================================
+
+/**
+ * Fetch a customer's one-time purchases from the v2 purchases endpoint.
+ *
+ * Transactions are keyed on the store's purchase identifier so they line up
+ * with the `transaction_id` of webhook events.
+ */
+export async function fetchTransactions(
+  apiKey: string,
+  projectId: string,
+  appUserId: string,
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<Array<TransactionData & { status: "completed" | "refunded" }>> {
+  const items = await fetchAllPages(
+    `/v2/projects/${encodeURIComponent(projectId)}/customers/${encodeURIComponent(appUserId)}/purchases?limit=100`,
+    apiKey,
+    rateLimit,
+  );
+
+  const transactions: Array<
+    TransactionData & { status: "completed" | "refunded" }
+  > = [];
+  for (const item of items) {
+    const transactionId =
+      typeof item?.store_purchase_identifier === "string"
+        ? item.store_purchase_identifier
+        : item?.id;
+    if (typeof transactionId !== "string") continue;
+
+    transactions.push({
+      transactionId,
+      originalTransactionId: transactionId,
+      productId: typeof item.product_id === "string" ? item.product_id : undefined,
+      store: typeof item.store === "string" ? item.store : undefined,
+      environment:
+        typeof item.environment === "string" ? item.environment : undefined,
+      purchaseType: "NON_RENEWING_PURCHASE",
+      price: optionalNumber(item.revenue_in_usd?.gross),
+      countryCode: typeof item.country === "string" ? item.country : undefined,
+      purchasedAtMs: optionalNumber(item.purchased_at) ?? Date.now(),
+      status: item.status === "refunded" ? "refunded" : "completed",
+    });
+  }
+  return transactions;
+}
+
+// ============================================================================
+// CATALOG FETCHING
+// ============================================================================
+
+/**
+ * Fetch the project's products, offerings (with their packages) and
+ * entitlement → product attachments from the v2 API.
+ *
+ * Throws if any listing fails, so a partial catalog is never returned.
+ */
+export async function fetchCatalog(
+  apiKey: string,
+  projectId: string,
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<{
+  catalog: CatalogData;
+  entitlementDefinitions: EntitlementDefinitionData[];
+}> {
+  const projectPath = `/v2/projects/${encodeURIComponent(projectId)}`;
+  if (rateLimit) {
+    await reserveRevenueCatRequests(rateLimit, "project", CATALOG_REQUESTS);
+  }
+
+  const productItems = await fetchAllPages(
+    `${projectPath}/products?limit=200`,
+    apiKey,
+    rateLimit,
+  );
+  const products: ProductData[] = productItems
+    .filter((item) => item.id && item.store_identifier)
+    .map(parseProduct);
+
+  const offerings: OfferingData[] = [];
+  const packages: PackageData[] = [];
+  const offeringItems = await fetchAllPages(
+    `${projectPath}/offerings?limit=200&expand=items.package.product`,
+    apiKey,
+    rateLimit,
+  );
+  for (const offering of offeringItems) {
+    if (!offering.id || !offering.lookup_key) continue;
+    offerings.push({
+      offeringId: offering.id,
+      lookupKey: offering.lookup_key,
+      displayName: offering.display_name ?? offering.lookup_key,
+      isCurrent: offering.is_current === true,
+      metadata: offering.metadata
+        ? sanitizeForConvex(offering.metadata)
+        : undefined,
+    });
+
+    const packageItems = await fetchRemainingItems(
+      offering.packages,
+      apiKey,
+      rateLimit,
+    );
+    for (const pkg of packageItems) {
+      if (!pkg.id || !pkg.lookup_key) continue;
+      const productEntries = await fetchRemainingItems(
+        pkg.products,
+        apiKey,
+        rateLimit,
+      );
+      packages.push({
+        packageId: pkg.id,
+        offeringId: offering.id,
+        lookupKey: pkg.lookup_key,
+        displayName: pkg.display_name ?? pkg.lookup_key,
+        position: typeof pkg.position === "number" ? pkg.position : undefined,
+        productIds: productEntries
+          .map((entry) => entry.product?.id ?? entry.product_id)
+          .filter((id): id is string => typeof id === "string"),
+      });
+    }
+  }
+
+  const entitlementDefinitions: EntitlementDefinitionData[] = [];
+  const entitlementProducts: EntitlementProductData[] = [];
+  const entitlementItems = await fetchAllPages(
+    `${projectPath}/entitlements?limit=200&expand=items.product`,
+    apiKey,
+    rateLimit,
+  );
+  for (const entitlement of entitlementItems) {
+    if (!entitlement.id || !entitlement.lookup_key) continue;
+    entitlementDefinitions.push({
+      entitlementId: entitlement.id,
+      lookupKey: entitlement.lookup_key,
+      displayName:
+        typeof entitlement.display_name === "string"
+          ? entitlement.display_name
+          : undefined,
+    });
+
+    const attached = await fetchRemainingItems(
+      entitlement.products,
+      apiKey,
+      rateLimit,
+    );
+    for (const product of attached) {
+      if (typeof product.id !== "string") continue;
+      entitlementProducts.push({
+        entitlementId: entitlement.lookup_key,
+        productId: product.id,
+      });
+    }
+  }
+
+  return {
+    catalog: { products, offerings, packages, entitlementProducts },
+    entitlementDefinitions,
+  };
+}
+
+function parseProduct(item: any): ProductData {
+  return {
+    productId: item.id,
+    storeIdentifier: item.store_identifier,
+    type: typeof item.type === "string" ? item.type : "unknown",
+    appId: typeof item.app_id === "string" ? item.app_id : undefined,
+    displayName:
+      typeof item.display_name === "string" ? item.display_name : undefined,
+    subscriptionDuration:
+      typeof item.subscription?.duration === "string"
+        ? item.subscription.duration
+        : undefined,
+  };
+}
+
+/**
+ * Fetch every item of a paginated v2 list endpoint.
+ */
+async function fetchAllPages(
+  path: string,
+  apiKey: string,
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<any[]> {
+  return await fetchRemainingItems(
+    { items: [], next_page: path },
+    apiKey,
+    rateLimit,
+  );
+}
+
+/**
+ * Collect the items of an embedded v2 list (e.g., an offering's expanded
+ * packages), following `next_page` links until the list is exhausted.
+ */
+async function fetchRemainingItems(
+  list: any,
+  apiKey: string,
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<any[]> {
+  const items: any[] = Array.isArray(list?.items) ? [...list.items] : [];
+  let nextPage: string | null = list?.next_page ?? null;
+
+  while (nextPage) {
+    const response: Response = await fetchRevenueCat(
+      `https://api.revenuecat.com${nextPage}`,
+      {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+      },
+      rateLimit,
+    );
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      console.error("RevenueCat v2 API error:", errorBody);
+      throw new Error(
+        `Failed to fetch ${nextPage} from RevenueCat: ${response.status}`,
+      );
+    }
+
+    const page: any = await response.json();
+    if (Array.isArray(page.items)) items.push(...page.items);
+    nextPage = page.next_page ?? null;
+  }
+
+  return items;
+}
+
+// ============================================================================
+// DRIFT AUDIT
+// ============================================================================
+
+/**
+ * Compare the active entitlements served from the cache with the ones
+ * RevenueCat reports for the same customer.
+ *
+ * - `missing` — active in RevenueCat, not active in the cache
+ * - `extra` — active in the cache, not active in RevenueCat
+ * - `expiryMismatches` — active in both, with different expiration dates
+ */
+export function diffEntitlements(
+  appUserId: string,
+  cached: EntitlementData[],
+  revenueCat: EntitlementData[],
+): EntitlementDriftData {
+  const cachedById = new Map(cached.map((ent) => [ent.entitlementId, ent]));
+  const remoteById = new Map(
+    revenueCat
+      .filter((ent) => ent.isActive)
+      .map((ent) => [ent.entitlementId, ent]),
+  );
+
+  const drift: EntitlementDriftData = {
+    appUserId,
+    missing: [],
+    extra: [],
+    expiryMismatches: [],
+  };
+  for (const [entitlementId, remote] of remoteById) {
+    const local = cachedById.get(entitlementId);
+    if (!local) {
+      drift.missing.push({ entitlementId, expiresDate: remote.expiresDate });
+    } else if (local.expiresDate !== remote.expiresDate) {
+      drift.expiryMismatches.push({
+        entitlementId,
+        cachedExpiresDate: local.expiresDate,
+        revenueCatExpiresDate: remote.expiresDate,
+      });
+    }
+  }
+  for (const [entitlementId, local] of cachedById) {
+    if (!remoteById.has(entitlementId)) {
+      drift.extra.push({ entitlementId, expiresDate: local.expiresDate });
+    }
+  }
+  return drift;
+}
+
+// ============================================================================
+// VIRTUAL CURRENCY HELPERS
+// ============================================================================
+
+/**
+ * A debit was refused because the balance can't cover it: before reaching
+ * RevenueCat, when the cached balance less the funds held for spends in
+ * progress falls short, or by RevenueCat itself.
+ */
+export class InsufficientFundsError extends Error {
+  constructor(
+    readonly appUserId: string,
+    readonly currencyCode: string,
+    readonly requested: number,
+    readonly available: number,
+  ) {
+    super(
+      `Insufficient ${currencyCode} balance for ${appUserId}: ${requested} requested, ${available} available`,
+    );
+    this.name = "InsufficientFundsError";
+  }
+}
+
+/**
+ * Fetch virtual currency balances from the RevenueCat v2 API.
+ */
+export async function fetchVirtualCurrencyBalances(
+  apiKey: string,
+  projectId: string,
+  appUserId: string,
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<VirtualCurrencyBalanceData[]> {
+  const response = await fetchRevenueCat(
+    `https://api.revenuecat.com/v2/projects/${encodeURIComponent(projectId)}/customers/${encodeURIComponent(appUserId)}/virtual_currencies`,
+    {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+    },
+    rateLimit,
+  );
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    console.error("RevenueCat v2 API error:", errorBody);
+    throw new Error(
+      `Failed to fetch virtual currency balances for ${appUserId}: ${response.status}`,
+    );
+  }
+
+  const result = await response.json();
+  return parseVirtualCurrencyBalances(result);
+}
+
+/**
+ * Fetch the project's virtual currency definitions from the v2 API.
+ */
+export async function fetchVirtualCurrencyDefinitions(
+  apiKey: string,
+  projectId: string,
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<VirtualCurrencyDefinitionData[]> {
+  const items = await fetchAllPages(
+    `/v2/projects/${encodeURIComponent(projectId)}/virtual_currencies?limit=200`,
+    apiKey,
+    rateLimit,
+  );
+  return items
+    .filter(
+      (item) => typeof item?.code === "string" && typeof item.name === "string",
+    )
+    .map((item) => ({
+      currencyCode: item.code,
+      name: item.name,
+      description:
+        typeof item.description === "string" ? item.description : undefined,
+    }));
+}
+
+/**
+ * Create a virtual currency transaction with already validated, signed
+ * adjustments, then sync the balances from the response and record the
+ * transaction in the ledger. Returns the updated balances.
+ *
+ * Debits are held against the cached balances while the request runs,
+ * unless `skipBalanceCheck` is set. `beforeSend` runs once the check
+ * passed, right before the request is sent. API-based transactions don't
+ * fire webhooks, so we sync the response directly to keep the cache fresh.
+ * The request, and any balance refetch, is charged to the customer rate
+ * limit bucket.
+ */
+export async function postVirtualCurrencyTransaction(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  apiKey: string,
+  projectId: string,
+  operation: "spend" | "grant" | "adjust",
+  args: {
+    appUserId: string;
+    adjustments: Record<string, number>;
+    idempotencyKey?: string;
+  },
+  options?: {
+    skipBalanceCheck?: boolean;
+    beforeSend?: () => Promise<void>;
+  },
+): Promise<VirtualCurrencyBalanceData[]> {
+  const rateLimit = { ctx, component };
+  const debits = Object.entries(args.adjustments)
+    .filter(([, amount]) => amount < 0)
+    .map(([currencyCode, amount]) => ({ currencyCode, amount: -amount }));
+  const holdId =
+    debits.length > 0 && !options?.skipBalanceCheck
+      ? await holdVirtualCurrencyDebits(
+          ctx,
+          component,
+          apiKey,
+          projectId,
+          {
+            appUserId: args.appUserId,
+            debits,
+            idempotencyKey: args.idempotencyKey,
+          },
+          rateLimit,
+        )
+      : undefined;
+
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${apiKey}`,
+    "Content-Type": "application/json",
+  };
+  if (args.idempotencyKey) {
+    headers["Idempotency-Key"] = args.idempotencyKey;
+  }
+
+  try {
+    await options?.beforeSend?.();
+    const response = await fetchRevenueCat(
+      `https://api.revenuecat.com/v2/projects/${encodeURIComponent(projectId)}/customers/${encodeURIComponent(args.appUserId)}/virtual_currencies/transactions`,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ adjustments: args.adjustments }),
+      },
+      rateLimit,
+    );
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      console.error("RevenueCat v2 API error:", errorBody);
+      const apiError = parseRevenueCatError(errorBody);
+      if (debits.length > 0 && isInsufficientBalanceError(apiError)) {
+        throw await insufficientFundsFromRevenueCat(
+          ctx,
+          component,
+          apiKey,
+          projectId,
+          { appUserId: args.appUserId, debits },
+          rateLimit,
+        );
+      }
+      throw new RevenueCatRequestError(
+        response.status,
+        `Failed to ${operation} virtual currency for ${args.appUserId}: ${response.status}${apiError.message ? ` (${apiError.message})` : ""}`,
+      );
+    }
+
+    const result = await response.json();
+    const balances = parseVirtualCurrencyBalances(result);
+    const lastSyncedAt = Date.now();
+
+    // Releases the hold along with the sync, as the balances now include
+    // the debits
+    await ctx.runMutation(component.private.syncVirtualCurrencyBalances, {
+      appUserId: args.appUserId,
+      lastSyncedAt,
+      balances,
+      transaction: {
+        idempotencyKey: args.idempotencyKey,
+        origin: "rest_api",
+        occurredAt: lastSyncedAt,
+        adjustments: Object.entries(args.adjustments).map(
+          ([currencyCode, amount]) => ({ currencyCode, amount }),
+        ),
+      },
+      holdId,
+    });
+
+    return balances;
+  } catch (error) {
+    if (holdId) {
+      await ctx.runMutation(component.private.releaseVirtualCurrencyHold, {
+        holdId,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run one attempt of a virtual currency purchase, resuming from the last
+ * step that completed: spend the currency with the purchase's idempotency
+ * key, then run the fulfilment mutation. A failed attempt is retried from a
+ * scheduled job with backoff.
+ *
+ * Once an attempt has sent the spend, later ones skip the balance check:
+ * the balances may already include the debit, and the idempotency key
+ * makes RevenueCat answer with it instead of debiting again. A spend that
+ * RevenueCat refuses with a 4xx other than 429 was never made, as long as
+ * RevenueCat still remembers the key, so the purchase can fail again; a
+ * network error, 5xx or 429 leaves it possibly spent and retried.
+ *
+ * Returns the purchase's status after the attempt, or `in_progress` with
+ * the time its claim lapses if another attempt is running it. Throws
+ * `InsufficientFundsError`, after marking the purchase failed, if the
+ * balances, cached or RevenueCat's, can't cover the spend.
+ */
+export async function runVirtualCurrencyPurchase(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  apiKey: string,
+  projectId: string,
+  purchaseId: string,
+): Promise<
+  | { status: VirtualCurrencyPurchaseStatus }
+  | { status: "in_progress"; expiresAt: number }
+> {
+  const attempt = await ctx.runMutation(
+    component.private.beginVirtualCurrencyPurchaseAttempt,
+    { purchaseId },
+  );
+  if (attempt.status !== "pending" && attempt.status !== "spent") {
+    return attempt;
+  }
+
+  try {
+    if (attempt.status === "pending") {
+      await postVirtualCurrencyTransaction(
+        ctx,
+        component,
+        apiKey,
+        projectId,
+        "spend",
+        {
+          appUserId: attempt.appUserId,
+          adjustments: Object.fromEntries(
+            attempt.adjustments.map(({ currencyCode, amount }) => [
+              currencyCode,
+              -amount,
+            ]),
+          ),
+          idempotencyKey: attempt.idempotencyKey,
+        },
+        {
+          skipBalanceCheck: attempt.spendSent,
+          beforeSend: async () => {
+            await ctx.runMutation(
+              component.private.markVirtualCurrencyPurchaseSpendSent,
+              { purchaseId },
+            );
+          },
+        },
+      );
+      await ctx.runMutation(
+        component.private.markVirtualCurrencyPurchaseSpent,
+        { purchaseId },
+      );
+    }
+    await ctx.runMutation(component.private.fulfilVirtualCurrencyPurchase, {
+      purchaseId,
+    });
+    return { status: "fulfilled" };
+  } catch (error) {
+    const status = await ctx.runMutation(
+      component.private.failVirtualCurrencyPurchaseAttempt,
+      {
+        purchaseId,
+        error: getErrorMessage(error),
+        spendRejected:
+          isSpendRejection(error) ||
+          // Refused before RevenueCat looks up the idempotency key, so it
+          // only rules out a debit if no earlier attempt sent the spend
+          (error instanceof RevenueCatAuthError && !attempt.spendSent),
+        // Retrying won't add funds or fix the request
+        retryable: !isSpendRejection(error),
+      },
+    );
+    if (error instanceof InsufficientFundsError) throw error;
+    console.error(
+      `Virtual currency purchase ${purchaseId} attempt failed (${status}):`,
+      getErrorMessage(error),
+    );
+    return { status };
+  }
+}
+
+/**
+ * Give up a virtual currency purchase, e.g. one whose fulfilment keeps
+ * failing, and refund what it may have spent. A spend that was sent but
+ * not confirmed is resent with the purchase's idempotency key first —
+ * RevenueCat answers with the earlier debit, or makes it now — so the
+ * refund never grants currency that wasn't spent; if RevenueCat refuses
+ * it, nothing was spent and nothing is refunded. The refund has its own
+ * idempotency key, so it is granted at most once.
+ *
+ * Runs as an attempt, so it waits for none: returns `in_progress` if
+ * another attempt is running the purchase, and leaves a finished purchase
+ * as it is. If a request fails, the purchase goes back to being retried
+ * and the error is thrown.
+ */
+export async function abandonVirtualCurrencyPurchase(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  apiKey: string,
+  projectId: string,
+  purchaseId: string,
+): Promise<
+  | { status: VirtualCurrencyPurchaseStatus }
+  | { status: "in_progress"; expiresAt: number }
+> {
+  const attempt = await ctx.runMutation(
+    component.private.beginVirtualCurrencyPurchaseAttempt,
+    { purchaseId },
+  );
+  if (attempt.status !== "pending" && attempt.status !== "spent") {
+    return attempt;
+  }
+
+  const amounts = (sign: number) =>
+    Object.fromEntries(
+      attempt.adjustments.map(({ currencyCode, amount }) => [
+        currencyCode,
+        sign * amount,
+      ]),
+    );
+  let refund = attempt.status === "spent" || attempt.spendSent;
+  try {
+    if (refund && attempt.status === "pending") {
+      try {
+        await postVirtualCurrencyTransaction(
+          ctx,
+          component,
+          apiKey,
+          projectId,
+          "spend",
+          {
+            appUserId: attempt.appUserId,
+            adjustments: amounts(-1),
+            idempotencyKey: attempt.idempotencyKey,
+          },
+          { skipBalanceCheck: true },
+        );
+      } catch (error) {
+        if (!isSpendRejection(error)) throw error;
+        // RevenueCat refused the spend, so there is nothing to refund
+        refund = false;
+      }
+    }
+    if (refund) {
+      await postVirtualCurrencyTransaction(
+        ctx,
+        component,
+        apiKey,
+        projectId,
+        "grant",
+        {
+          appUserId: attempt.appUserId,
+          adjustments: amounts(1),
+          idempotencyKey: `${attempt.idempotencyKey}:refund`,
+        },
+      );
+    }
+  } catch (error) {
+    await ctx.runMutation(
+      component.private.failVirtualCurrencyPurchaseAttempt,
+      { purchaseId, error: getErrorMessage(error), retryable: true },
+    );
+    throw error;
+  }
+
+  await ctx.runMutation(component.private.abandonVirtualCurrencyPurchase, {
+    purchaseId,
+    refunded: refund,
+  });
+  return { status: "failed" };
+}
+
+/**
+ * Whether RevenueCat answered a spend by refusing it, which means nothing
+ * was debited under its idempotency key. Thrown before the spend was
+ * sent, `InsufficientFundsError` means the same.
+ */
+function isSpendRejection(error: unknown): boolean {
+  return (
+    error instanceof InsufficientFundsError ||
+    error instanceof RevenueCatRequestError
+  );
+}
+
+/**
+ * Hold debits against the cached balances while their transaction runs,
+ * so concurrent spends can't both pass the balance check. If the cache
+ * can't cover them, the balances are refetched once before giving up, in
+ * case the cache is behind (e.g. a purchase whose webhook hasn't arrived).
+ *
+ * Returns no hold for a retry of a transaction already in the ledger,
+ * which RevenueCat answers from its idempotency cache.
+ * Throws `InsufficientFundsError` if the balances can't cover the debits.
+ */
+async function holdVirtualCurrencyDebits(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  apiKey: string,
+  projectId: string,
+  args: {
+    appUserId: string;
+    debits: Array<{ currencyCode: string; amount: number }>;
+    idempotencyKey?: string;
+  },
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<string | undefined> {
+  const holdArgs = {
+    appUserId: args.appUserId,
+    adjustments: args.debits,
+    idempotencyKey: args.idempotencyKey,
+  };
+  let result = await ctx.runMutation(
+    component.private.holdVirtualCurrency,
+    holdArgs,
+  );
+  if (result.status === "insufficient_funds") {
+    const balances = await fetchVirtualCurrencyBalances(
+      apiKey,
+      projectId,
+      args.appUserId,
+      rateLimit,
+    );
+    await ctx.runMutation(component.private.syncVirtualCurrencyBalances, {
+      appUserId: args.appUserId,
+      lastSyncedAt: Date.now(),
+      balances,
+    });
+    result = await ctx.runMutation(
+      component.private.holdVirtualCurrency,
+      holdArgs,
+    );
+  }
+
+  if (result.status === "insufficient_funds") {
+    throw new InsufficientFundsError(
+      args.appUserId,
+      result.currencyCode,
+      result.requested,
+      result.available,
+    );
+  }
+  return result.status === "held" ? result.holdId : undefined;
+}
+
+/**
+ * Build the `InsufficientFundsError` for debits RevenueCat refused for
+ * want of funds. The balances are refetched so the cache catches up with
+ * whatever spent them, falling back to the cached ones if that fails, and
+ * the error names the first debit they can't cover.
+ */
+async function insufficientFundsFromRevenueCat(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  apiKey: string,
+  projectId: string,
+  args: {
+    appUserId: string;
+    debits: Array<{ currencyCode: string; amount: number }>;
+  },
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<InsufficientFundsError> {
+  let balances: VirtualCurrencyBalanceData[];
+  try {
+    balances = await fetchVirtualCurrencyBalances(
+      apiKey,
+      projectId,
+      args.appUserId,
+      rateLimit,
+    );
+    await ctx.runMutation(component.private.syncVirtualCurrencyBalances, {
+      appUserId: args.appUserId,
+      lastSyncedAt: Date.now(),
+      balances,
+    });
+  } catch (error) {
+    console.error(
+      `Failed to refetch virtual currency balances for ${args.appUserId}:`,
+      getErrorMessage(error),
+    );
+    balances = await ctx.runQuery(component.public.getVirtualCurrencyBalances, {
+      appUserId: args.appUserId,
+    });
+  }
+
+  const available = (currencyCode: string) =>
+    balances.find((balance) => balance.currencyCode === currencyCode)
+      ?.balance ?? 0;
+  const debit =
+    args.debits.find(
+      ({ currencyCode, amount }) => amount > available(currencyCode),
+    ) ?? args.debits[0];
+  return new InsufficientFundsError(
+    args.appUserId,
+    debit.currencyCode,
+    debit.amount,
+    available(debit.currencyCode),
+  );
+}
+
+/**
+ * Read the `type` and `message` of a v2 API error body, if it is one.
+ */
+function parseRevenueCatError(body: string): {
+  type?: string;
+  message?: string;
+} {
+  try {
+    const parsed = JSON.parse(body);
+    return {
+      type: typeof parsed?.type === "string" ? parsed.type : undefined,
+      message: typeof parsed?.message === "string" ? parsed.message : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Whether RevenueCat refused a transaction because a balance would go
+ * below zero. The error is matched by its type or message, as it has no
+ * dedicated code.
+ */
+function isInsufficientBalanceError(error: {
+  type?: string;
+  message?: string;
+}): boolean {
+  return /insufficient/i.test(`${error.type ?? ""} ${error.message ?? ""}`);
+}
+
+/**
+ * Parse virtual currency balances from a RevenueCat v2 API response.
+ */
+export function parseVirtualCurrencyBalances(
+  result: any,
+): VirtualCurrencyBalanceData[] {
+  const items = result?.items;
+  if (!Array.isArray(items)) return [];
+
+  const balances: VirtualCurrencyBalanceData[] = [];
+  for (const item of items) {
+    if (
+      item &&
+      typeof item.currency_code === "string" &&
+      typeof item.balance === "number" &&
+      Number.isFinite(item.balance)
+    ) {
+      balances.push({
+        currencyCode: item.currency_code,
+        balance: item.balance,
+      });
+    }
+  }
+  return balances;
+}
+
+// ============================================================================
+// WEBHOOK EVENT PROCESSING
+// ============================================================================
+
+/**
+ * RevenueCat credentials resolved by the caller.
+ * Components have no access to the host app's environment variables, so
+ * these are always passed in explicitly.
+ */
+export type RevenueCatCredentials = {
+  apiKey?: string;
+  projectId?: string;
+};
+
+/**
+ * Optional processing behaviour, configured on the webhook route.
+ */
+export type ProcessEventOptions = {
+  /**
+   * Apply entitlement changes straight from the webhook payload instead of
+   * resyncing from the REST API, falling back to a scheduled full resync
+   * for ambiguous or out-of-order events.
+   */
+  payloadFirst?: boolean;
+
+  /**
+   * Skip default processing for events older than the last event applied
+   * to the subscriber.
+   */
+  skipStaleEvents?: boolean;
+
+  /** Shortest time between two resyncs of one subscriber. */
+  minResyncIntervalMs?: number;
+};
+
+/**
+ * Check an event against the subscriber's last applied event timestamp.
+ */
+export async function getEventContext(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  event: RevenueCatWebhookEvent,
+): Promise<RevenueCatEventContext> {
+  if (!event.app_user_id) return { isStale: false };
+
+  const subscriber = await ctx.runQuery(component.public.getSubscriber, {
+    appUserId: event.app_user_id,
+  });
+  const lastAppliedEventTimestampMs = subscriber?.lastEventTimestampMs;
+
+  return {
+    isStale:
+      lastAppliedEventTimestampMs !== undefined &&
+      event.event_timestamp_ms < lastAppliedEventTimestampMs,
+    lastAppliedEventTimestampMs,
+  };
+}
+
+/**
+ * Process RevenueCat webhook events.
+ *
+ * For entitlement-affecting events, triggers a full resync from the
+ * RevenueCat REST API rather than trying to incrementally update from
+ * the webhook payload. This ensures the cached data always matches
+ * RevenueCat's truth.
+ *
+ * With `payloadFirst`, unambiguous events are applied from the payload
+ * instead, and a full resync is only scheduled when needed.
+ */
+export async function processEvent(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  event: RevenueCatWebhookEvent,
+  credentials: RevenueCatCredentials,
+  options?: ProcessEventOptions,
+): Promise<void> {
+  const { apiKey, projectId } = credentials;
+  const appUserId = event.app_user_id;
+  const webhookRateLimit = getWebhookRateLimit(ctx, component, event);
+  // The event may postdate a sync already running for the user
+  const webhookLease = {
+    minResyncIntervalMs: options?.minResyncIntervalMs,
+    trailing: true,
+  };
+
+  // Keep every ID of the customer on one set of cached rows before writing
+  if (event.type !== "TRANSFER") {
+    await mergeCustomerAliases(ctx, component, appUserId, [
+      event.original_app_user_id,
+      ...(event.aliases ?? []),
+    ]);
+  }
+
+  // Transaction history is order-independent, so it is recorded even for
+  // events that are skipped as stale below
+  await recordEventTransaction(ctx, component, event);
+
+  if (options?.skipStaleEvents) {
+    const { isStale } = await getEventContext(ctx, component, event);
+    if (isStale) {
+      console.log(
+        `RevenueCat event ${event.type} (${event.id}) is older than the last applied event — skipping`,
+      );
+      return;
+    }
+  }
+
+  switch (event.type) {
+    case "INITIAL_PURCHASE":
+    case "RENEWAL":
+    case "CANCELLATION":
+    case "UNCANCELLATION":
+    case "EXPIRATION":
+    case "BILLING_ISSUE":
+    case "SUBSCRIPTION_EXTENDED":
+    case "SUBSCRIPTION_PAUSED":
+    case "PRODUCT_CHANGE":
+    case "NON_RENEWING_PURCHASE":
+    case "TEMPORARY_ENTITLEMENT_GRANT":
+    case "REFUND":
+    case "REFUND_REVERSED": {
+      if (!apiKey || !projectId) {
+        throw new Error(
+          "REVENUECAT_API_KEY and REVENUECAT_PROJECT_ID are required to process entitlement-affecting events. " +
+          "Set them in the Convex dashboard environment variables.",
+        );
+      }
+      if (!appUserId) {
+        throw new Error(
+          `Webhook event ${event.type} (${event.id}) is missing app_user_id`,
+        );
+      }
+      if (options?.payloadFirst) {
+        await applyEventPayload(ctx, component, event, options);
+        break;
+      }
+      await fullResync(
+        ctx,
+        component,
+        apiKey,
+        projectId,
+        appUserId,
+        webhookRateLimit,
+        webhookLease,
+      );
+      break;
+    }
+
+    case "TRANSFER": {
+      if (!apiKey || !projectId) {
+        throw new Error(
+          "REVENUECAT_API_KEY and REVENUECAT_PROJECT_ID are required to process TRANSFER events. " +
+          "Set them in the Convex dashboard environment variables.",
+        );
+      }
+      const userIds = new Set<string>();
+      if (appUserId) userIds.add(appUserId);
+      for (const id of event.transferred_from ?? []) {
+        if (id) userIds.add(id);
+      }
+      for (const id of event.transferred_to ?? []) {
+        if (id) userIds.add(id);
+      }
+      // Reserve every resync's customer requests up front, so a transfer
+      // isn't left half-applied by the rate limit. Entitlement definitions
+      // are cached, so only the first resync may need to refresh them
+      if (webhookRateLimit) {
+        await reserveRevenueCatRequests(
+          webhookRateLimit,
+          "customer",
+          FULL_RESYNC_REQUESTS * userIds.size,
+        );
+      }
+      for (const id of userIds) {
+        await fullResync(
+          ctx,
+          component,
+          apiKey,
+          projectId,
+          id,
+          webhookRateLimit,
+          webhookLease,
+        );
+      }
+      break;
+    }
+
+    case "VIRTUAL_CURRENCY_TRANSACTION": {
+      if (!apiKey || !projectId) {
+        throw new Error(
+          "REVENUECAT_API_KEY and REVENUECAT_PROJECT_ID are required to sync virtual currency. " +
+          "Set them in the Convex dashboard environment variables.",
+        );
+      }
+      if (!appUserId) {
+        throw new Error(
+          `Webhook event ${event.type} (${event.id}) is missing app_user_id`,
+        );
+      }
+      // Adjustments without a currency code can't be attributed; the
+      // balance refetch below still picks up their effect
+      const allAdjustments = event.adjustments ?? [];
+      const adjustments = allAdjustments.flatMap((adjustment) =>
+        typeof adjustment?.currency?.code === "string" &&
+        typeof adjustment.amount === "number"
+          ? [{ currency: adjustment.currency, amount: adjustment.amount }]
+          : [],
+      );
+      if (adjustments.length < allAdjustments.length) {
+        console.warn(
+          `RevenueCat event ${event.type} (${event.id}) has adjustments without a currency code — syncing balances only`,
+        );
+      }
+
+      // The payload names each currency it adjusts
+      await ctx.runMutation(
+        component.private.upsertVirtualCurrencyDefinitions,
+        {
+          definitions: adjustments
+            .filter(({ currency }) => typeof currency?.name === "string")
+            .map(({ currency }) => ({
+              currencyCode: currency.code,
+              name: currency.name,
+              description:
+                typeof currency.description === "string"
+                  ? currency.description
+                  : undefined,
+            })),
+          lastSyncedAt: Date.now(),
+        },
+      );
+      const balances = await fetchVirtualCurrencyBalances(
+        apiKey,
+        projectId,
+        appUserId,
+        webhookRateLimit,
+      );
+      await ctx.runMutation(
+        component.private.syncVirtualCurrencyBalances,
+        {
+          appUserId,
+          lastSyncedAt: Date.now(),
+          balances,
+          // A partial ledger entry would misstate the transaction
+          transaction:
+            adjustments.length === allAdjustments.length
+              ? {
+                  transactionId: event.virtual_currency_transaction_id,
+                  source: event.source,
+                  origin: "webhook",
+                  occurredAt: event.event_timestamp_ms,
+                  adjustments: adjustments.map(({ currency, amount }) => ({
+                    currencyCode: currency.code,
+                    amount,
+                  })),
+                }
+              : undefined,
+        },
+      );
+      break;
+    }
+
+    case "SUBSCRIBER_ALIAS":
+      // Aliases were merged above
+      console.log(`RevenueCat event ${event.type} — aliases merged`);
+      break;
+
+    case "TEST":
+    case "INVOICE_ISSUANCE":
+    case "EXPERIMENT_ENROLLMENT":
+      console.log(`RevenueCat event ${event.type} — no sync needed`);
+      break;
+
+    default:
+      console.log(`Unhandled RevenueCat event type: ${event.type}`);
+  }
+}
+
+/**
+ * Record the transaction carried by a purchase, renewal or refund event.
+ */
+async function recordEventTransaction(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  event: RevenueCatWebhookEvent,
+): Promise<void> {
+  const kind = TRANSACTION_EVENT_KINDS[event.type];
+  if (!kind || !event.transaction_id || !event.app_user_id) return;
+
+  // Refund payloads carry negative prices; the row keeps the purchase price
+  const price =
+    event.price !== undefined && kind === "refund"
+      ? Math.abs(event.price)
+      : event.price;
+  const priceInPurchasedCurrency =
+    event.price_in_purchased_currency !== undefined && kind === "refund"
+      ? Math.abs(event.price_in_purchased_currency)
+      : event.price_in_purchased_currency;
+
+  await ctx.runMutation(component.private.recordTransaction, {
+    appUserId: event.app_user_id,
+    kind,
+    eventTimestampMs: event.event_timestamp_ms,
+    transaction: {
+      transactionId: event.transaction_id,
+      originalTransactionId: event.original_transaction_id,
+      productId: event.product_id,
+      store: event.store,
+      environment: event.environment,
+      purchaseType: kind === "purchase" ? event.type : undefined,
+      price,
+      priceInPurchasedCurrency,
+      currency: event.currency,
+      takehomePercentage: event.takehome_percentage,
+      countryCode: event.country_code,
+      purchasedAtMs: event.purchased_at_ms ?? event.event_timestamp_ms,
+    },
+  });
+}
+
+const TRANSACTION_EVENT_KINDS: Partial<
+  Record<RevenueCatEventType, "purchase" | "refund" | "refund_reversed">
+> = {
+  INITIAL_PURCHASE: "purchase",
+  RENEWAL: "purchase",
+  NON_RENEWING_PURCHASE: "purchase",
+  REFUND: "refund",
+  REFUND_REVERSED: "refund_reversed",
+};
+
+/**
+ * Payload-first processing: write the entitlement state carried by the event
+ * without calling the REST API. Events whose outcome can't be derived from
+ * the payload, or that are older than the cached state, schedule a
+ * reconciling full resync instead.
+ */
+async function applyEventPayload(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  event: RevenueCatWebhookEvent,
+  options: ProcessEventOptions,
+): Promise<void> {
+  const entitlements = entitlementsFromPayload(event);
+
+  if (entitlements) {
+    const result = await ctx.runMutation(
+      component.private.applyEntitlementEvent,
+      {
+        appUserId: event.app_user_id,
+        eventTimestampMs: event.event_timestamp_ms,
+        entitlements,
+      },
+    );
+    if (result.status === "applied") return;
+    console.log(
+      `RevenueCat event ${event.type} (${event.id}) is out of order — scheduling resync`,
+    );
+  } else {
+    console.log(
+      `RevenueCat event ${event.type} (${event.id}) is ambiguous — scheduling resync`,
+    );
+  }
+
+  await ctx.runMutation(component.private.scheduleResync, {
+    appUserId: event.app_user_id,
+    minResyncIntervalMs: options.minResyncIntervalMs,
+  });
+}
+
+/**
+ * Derive entitlement state from a webhook payload.
+ *
+ * Returns `null` when the payload alone can't tell us the outcome: no
+ * `entitlement_ids`, a missing expiration on a subscription event, or an
+ * event type whose effect depends on other purchases (product changes,
+ * refunds, transfers).
+ */
+function entitlementsFromPayload(
+  event: RevenueCatWebhookEvent,
+): EntitlementData[] | null {
+  const ids = event.entitlement_ids;
+  if (!Array.isArray(ids) || ids.length === 0) return null;
+
+  const expiresAtMs =
+    typeof event.expiration_at_ms === "number" ? event.expiration_at_ms : null;
+  let status: EntitlementStatus;
+
+  switch (event.type) {
+    case "EXPIRATION":
+      return ids.map((entitlementId) => ({
+        entitlementId,
+        isActive: false,
+        expiresDate:
+          expiresAtMs !== null ? new Date(expiresAtMs).toISOString() : undefined,
+        status: "expired",
+      }));
+
+    case "NON_RENEWING_PURCHASE":
+      // No expiration means a lifetime purchase
+      if (expiresAtMs === null) {
+        return ids.map((entitlementId) => ({
+          entitlementId,
+          isActive: true,
+          status: "active",
+        }));
+      }
+      status = "active";
+      break;
+
+    case "INITIAL_PURCHASE":
+    case "RENEWAL":
+    case "UNCANCELLATION":
+    case "SUBSCRIPTION_EXTENDED":
+      status = event.period_type === "TRIAL" ? "trial" : "active";
+      break;
+
+    case "TEMPORARY_ENTITLEMENT_GRANT":
+      status = "active";
+      break;
+
+    // Cancelled, paused and billing-issue subscriptions keep access until
+    // the current expiration
+    case "CANCELLATION":
+      status = "cancelled";
+      break;
+
+    case "SUBSCRIPTION_PAUSED":
+      status = "paused";
+      break;
+
+    case "BILLING_ISSUE":
+      status =
+        typeof event.grace_period_expiration_at_ms === "number" &&
+        event.grace_period_expiration_at_ms > Date.now()
+          ? "grace_period"
+          : "billing_retry";
+      break;
+
+    default:
+      return null;
+  }
+
+  if (expiresAtMs === null) return null;
+
+  const isActive = expiresAtMs > Date.now();
+  return ids.map((entitlementId) => ({
+    entitlementId,
+    isActive,
+    expiresDate: new Date(expiresAtMs).toISOString(),
+    status: isActive ? status : "expired",
+  }));
+}
+
+/**
+ * Full resync: fetch customer from RevenueCat v2 API and update Convex DB.
+ *
+ * Runs under the subscriber's sync lease, so nothing is fetched while
+ * another sync of the same user is running or just completed (see
+ * `withSyncLease`). Returns the entitlement changes the sync wrote, which is
+ * none when it was coalesced.
+ */
+export async function fullResync(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  apiKey: string,
+  projectId: string,
+  appUserId: string,
+  rateLimit?: RevenueCatRequestRateLimit,
+  lease?: SyncLeaseOptions,
+): Promise<EntitlementChange[]> {
+  const outcome = await withSyncLease(
+    ctx,
+    component,
+    appUserId,
+    lease ?? {},
+    () =>
+      resyncCustomer(ctx, component, apiKey, projectId, appUserId, rateLimit),
+  );
+  return outcome.status === "synced" ? outcome.result : [];
+}
+
+async function resyncCustomer(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  apiKey: string,
+  projectId: string,
+  appUserId: string,
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<EntitlementChange[]> {
+  if (rateLimit) {
+    await reserveRevenueCatRequests(
+      rateLimit,
+      "customer",
+      FULL_RESYNC_REQUESTS,
+    );
+  }
+  const result = await fetchCustomerAndEntitlements(
+    ctx,
+    component,
+    apiKey,
+    projectId,
+    appUserId,
+    rateLimit,
+  );
+
+  if (!result) {
+    console.warn(`Customer ${appUserId} not found in RevenueCat (404), clearing entitlements`);
+    return await ctx.runMutation(component.private.clearEntitlements, {
+      appUserId,
+    });
+  }
+
+  const { customer, entitlements, subscriptions } = result;
+  const lastSyncedAt = Date.now();
+
+  await mergeCustomerAliases(
+    ctx,
+    component,
+    appUserId,
+    getCustomerAliases(customer),
+  );
+  return await ctx.runMutation(
+    component.private.syncSubscriberAndEntitlements,
+    {
+      appUserId,
+      lastSyncedAt,
+      rawSubscriber: sanitizeForConvex(customer),
+      entitlements,
+      subscriptions,
+    },
+  );
+}
+
+// ============================================================================
+// SYNC LEASES
+// ============================================================================
+
+export type SyncLeaseOptions = {
+  /**
+   * Shortest time between two syncs of one subscriber; requests within it
+   * are coalesced. Defaults to 5 seconds.
+   */
+  minResyncIntervalMs?: number;
+
+  /**
+   * When coalesced, make sure one more resync runs after the current one.
+   * For requests that may carry changes the current sync started too early
+   * to see, such as webhooks.
+   */
+  trailing?: boolean;
+};
+
+/**
+ * - `synced` — this call ran the sync
+ * - `in_flight` — coalesced into a sync of the same user that is running
+ * - `recent` — coalesced into one that completed within the interval
+ */
+export type SyncLeaseStatus = "synced" | "in_flight" | "recent";
+
+export type SyncLeaseResult<T> =
+  | { status: "synced"; result: T }
+  | { status: Exclude<SyncLeaseStatus, "synced"> };
+
+/**
+ * Run a subscriber sync under their sync lease, so identical syncs from
+ * several tabs, or from webhooks fired moments apart, run once. `sync` only
+ * runs if the lease is free; otherwise the request is coalesced and, with
+ * `trailing`, a single resync is scheduled after the current one.
+ */
+export async function withSyncLease<T>(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  appUserId: string,
+  options: SyncLeaseOptions,
+  sync: () => Promise<T>,
+): Promise<SyncLeaseResult<T>> {
+  const leaseArgs = {
+    appUserId,
+    minResyncIntervalMs: options.minResyncIntervalMs,
+  };
+  const lease = await ctx.runMutation(component.private.acquireSyncLease, {
+    ...leaseArgs,
+    trailing: options.trailing,
+  });
+  if (lease.status !== "acquired") return lease;
+
+  let succeeded = false;
+  try {
+    const result = await sync();
+    succeeded = true;
+    return { status: "synced", result };
+  } finally {
+    await ctx.runMutation(component.private.releaseSyncLease, {
+      ...leaseArgs,
+      startedAt: lease.startedAt,
+      succeeded,
+    });
+  }
+}
+
+// ============================================================================
+// SUBSCRIBER ALIASES
+// ============================================================================
+
+/**
+ * Merge a customer's other IDs (from a webhook's `aliases` /
+ * `original_app_user_id` or the REST customer's alias list) into one
+ * canonical ID. Does nothing when there is only one ID.
+ *
+ * The canonical ID is `appUserId` unless it is an anonymous RevenueCat ID
+ * and a non-anonymous alias exists, so logged-in IDs from your auth provider
+ * win over `$RCAnonymousID:` IDs.
+ */
+export async function mergeCustomerAliases(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  appUserId: string | undefined,
+  aliases: Array<string | undefined>,
+): Promise<void> {
+  const ids = new Set<string>();
+  if (appUserId) ids.add(appUserId);
+  for (const alias of aliases) {
+    if (alias) ids.add(alias);
+  }
+  if (!appUserId || ids.size < 2) return;
+
+  const canonical = isAnonymousAppUserId(appUserId)
+    ? ([...ids].find((id) => !isAnonymousAppUserId(id)) ?? appUserId)
+    : appUserId;
+  ids.delete(canonical);
+
+  const { merged } = await ctx.runMutation(
+    component.private.mergeSubscriberAliases,
+    { appUserId: canonical, aliases: [...ids] },
+  );
+  if (merged.length > 0) {
+    console.log(
+      `Merged cached RevenueCat data for ${merged.join(", ")} into ${canonical}`,
+    );
+  }
+}
+
+/**
+ * Read the alias list of a v2 customer object, which may be a plain array
+ * of IDs or a list object of `{ id }` items.
+ */
+export function getCustomerAliases(customer: any): string[] {
+  const aliases = customer?.aliases;
+  const items: unknown[] = Array.isArray(aliases)
+    ? aliases
+    : Array.isArray(aliases?.items)
+      ? aliases.items
+      : [];
+  return items
+    .map((item: any) => (typeof item === "string" ? item : item?.id))
+    .filter((id): id is string => typeof id === "string");
+}
+
+function isAnonymousAppUserId(appUserId: string): boolean {
+  return appUserId.startsWith("$RCAnonymousID:");
+}
+
+export type RevenueCatRequestRateLimit = {
+  component: ComponentApi;
+  ctx: ActionCtx;
+  /** Tokens already taken by `reserveRevenueCatRequests` and not yet used. */
+  reserved?: Partial<Record<RevenueCatRateLimitBucket, number>>;
+};
+
+/**
+ * A request was refused for rate limiting: by our own per-bucket budget, or
+ * by RevenueCat with a 429 that persisted through the retries. For the
+ * latter, `retryAfterMs` carries RevenueCat's `Retry-After` when it sent one.
+ */
+export class RevenueCatRateLimitedError extends Error {
+  constructor(readonly retryAfterMs?: number) {
+    super("RevenueCat API rate limit exceeded");
+    this.name = "RevenueCatRateLimitedError";
+  }
+}
+
+/**
+ * RevenueCat kept answering with a 5xx through the retries.
+ */
+export class RevenueCatServerError extends Error {
+  constructor(
+    readonly status: number,
+    url: string,
+  ) {
+    super(`RevenueCat API server error ${status} for ${url}`);
+    this.name = "RevenueCatServerError";
+  }
+}
+
+/**
+ * RevenueCat rejected the API key (401) or its permissions (403).
+ * Not retried: the key or project ID needs fixing.
+ */
+export class RevenueCatAuthError extends Error {
+  constructor(
+    readonly status: number,
+    url: string,
+  ) {
+    super(
+      `RevenueCat API rejected the credentials (${status}) for ${url}; check REVENUECAT_API_KEY and REVENUECAT_PROJECT_ID`,
+    );
+    this.name = "RevenueCatAuthError";
+  }
+}
+
+/**
+ * RevenueCat refused a request with a 4xx other than 401, 403 and 429,
+ * e.g. for invalid parameters. Not retried: resending it gets the same
+ * answer.
+ */
+export class RevenueCatRequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "RevenueCatRequestError";
+  }
+}
+
+function getWebhookRateLimit(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  event: RevenueCatWebhookEvent,
+): RevenueCatRequestRateLimit | undefined {
+  if (!webhookEventUsesRevenueCatApi(event)) {
+    return undefined;
+  }
+  return { ctx, component };
+}
+
+/**
+ * The rate limit bucket an API URL is charged to: customer endpoints
+ * (including the customers list) are customer information, everything else
+ * is project configuration.
+ */
+export function getRateLimitBucket(url: string): RevenueCatRateLimitBucket {
+  const { pathname } = new URL(url);
+  return /^\/v2\/projects\/[^/]+\/customers(\/|$)/.test(pathname)
+    ? "customer"
+    : "project";
+}
+
+/**
+ * Take the tokens for `count` requests from a bucket up front, so a
+ * multi-call operation either gets its whole budget or fails before making
+ * any calls. Requests made with `rateLimit` use the reserved tokens before
+ * charging the bucket again; tokens already reserved count towards `count`.
+ * More than the bucket holds is capped at its size, and the rest is charged
+ * per request.
+ *
+ * Throws `RevenueCatRateLimitedError` if the bucket can't cover them.
+ */
+export async function reserveRevenueCatRequests(
+  rateLimit: RevenueCatRequestRateLimit,
+  bucket: RevenueCatRateLimitBucket,
+  count: number,
+): Promise<void> {
+  const reserved = rateLimit.reserved?.[bucket] ?? 0;
+  if (reserved >= count) return;
+  const rateStatus = await rateLimit.ctx.runMutation(
+    rateLimit.component.private.checkRateLimit,
+    { bucket, tokens: count - reserved },
+  );
+  if (rateStatus.status === "rate_limited") {
+    throw new RevenueCatRateLimitedError();
+  }
+  rateLimit.reserved = {
+    ...rateLimit.reserved,
+    [bucket]: reserved + rateStatus.tokens,
+  };
+}
+
+/**
+ * Customer requests made by a `fullResync` whose entitlement and
+ * subscription lists fit in one page: the customer and its subscriptions.
+ */
+const FULL_RESYNC_REQUESTS = 2;
+
+/**
+ * Project requests made by a `fetchCatalog` whose listings fit in one page:
+ * products, offerings and entitlements.
+ */
+const CATALOG_REQUESTS = 3;
+
+/** Retries after the first attempt for 429 and 5xx responses. */
+const REQUEST_MAX_RETRIES = 3;
+const REQUEST_INITIAL_BACKOFF_MS = 500;
+
+/**
+ * Longest wait inside a request. A `Retry-After` beyond this is handed to the
+ * caller as `RevenueCatRateLimitedError.retryAfterMs` instead, so background
+ * jobs reschedule rather than hold an action open.
+ */
+const REQUEST_MAX_RETRY_DELAY_MS = 10_000;
+
+/**
+ * Call the RevenueCat API, charging each attempt to its rate limit bucket
+ * (or to tokens reserved for it).
+ *
+ * 429 and 5xx responses to GET requests, and to writes sent with an
+ * `Idempotency-Key`, are retried with exponential backoff and jitter,
+ * waiting at least as long as `Retry-After`. When retries run out, a 429
+ * throws `RevenueCatRateLimitedError` and a 5xx throws
+ * `RevenueCatServerError`; 401 and 403 throw `RevenueCatAuthError` right
+ * away. Other responses are returned for the caller to check.
+ */
+export async function fetchRevenueCat(
+  input: string,
+  init: RequestInit,
+  rateLimit?: RevenueCatRequestRateLimit,
+): Promise<Response> {
+  // Retrying a write could apply it twice, unless RevenueCat dedupes it
+  const retryable =
+    (init.method ?? "GET") === "GET" ||
+    new Headers(init.headers).has("Idempotency-Key");
+
+  for (let attempt = 0; ; attempt++) {
+    if (rateLimit) {
+      const bucket = getRateLimitBucket(input);
+      const reserved = rateLimit.reserved?.[bucket] ?? 0;
+      if (reserved > 0) {
+        rateLimit.reserved = { ...rateLimit.reserved, [bucket]: reserved - 1 };
+      } else {
+        const rateStatus = await rateLimit.ctx.runMutation(
+          rateLimit.component.private.checkRateLimit,
+          { bucket },
+        );
+        if (rateStatus.status === "rate_limited") {
+          throw new RevenueCatRateLimitedError();
+        }
+      }
+    }
+
+    const response = await fetch(input, init);
+    const { status } = response;
+
+    if (status === 401 || status === 403) {
+      throw new RevenueCatAuthError(status, new URL(input).pathname);
+    }
+    if (status !== 429 && status < 500) {
+      return response;
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+    const backoff = REQUEST_INITIAL_BACKOFF_MS * 2 ** attempt;
+    const delayMs = Math.max(
+      backoff + Math.random() * backoff * 0.2,
+      retryAfterMs ?? 0,
+    );
+    if (
+      !retryable ||
+      attempt >= REQUEST_MAX_RETRIES ||
+      delayMs > REQUEST_MAX_RETRY_DELAY_MS
+    ) {
+      console.error(
+        `RevenueCat API ${status} for ${new URL(input).pathname}:`,
+        await response.text(),
+      );
+      if (status === 429) throw new RevenueCatRateLimitedError(retryAfterMs);
+      throw new RevenueCatServerError(status, new URL(input).pathname);
+    }
+
+    await response.body?.cancel();
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+}
+
+/**
+ * Parse a `Retry-After` header (delay in seconds, or an HTTP date) into
+ * milliseconds from now.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// ============================================================================
+// BACKGROUND WORK (run by the host app's worker action)
+// ============================================================================
+
+/** Attempts of a background resync before it is given up. */
+const BACKGROUND_RESYNC_MAX_ATTEMPTS = 5;
+const BACKGROUND_RESYNC_INITIAL_BACKOFF_MS = 30_000;
+
+/**
+ * Background full resync of one subscriber, retried with backoff. Also runs
+ * the trailing sync of a sync lease.
+ */
+export async function runBackgroundResync(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  credentials: { apiKey: string; projectId: string },
+  task: { appUserId: string; minResyncIntervalMs?: number; attempt: number },
+): Promise<void> {
+  try {
+    await fullResync(
+      ctx,
+      component,
+      credentials.apiKey,
+      credentials.projectId,
+      task.appUserId,
+      { ctx, component },
+      { minResyncIntervalMs: task.minResyncIntervalMs, trailing: true },
+    );
+  } catch (error) {
+    console.error(
+      `Background resync of ${task.appUserId} failed (attempt ${task.attempt}/${BACKGROUND_RESYNC_MAX_ATTEMPTS}):`,
+      getErrorMessage(error),
+    );
+    if (task.attempt < BACKGROUND_RESYNC_MAX_ATTEMPTS) {
+      const backoff =
+        BACKGROUND_RESYNC_INITIAL_BACKOFF_MS * 2 ** (task.attempt - 1);
+      const delayMs =
+        error instanceof RevenueCatRateLimitedError
+          ? Math.max(backoff, error.retryAfterMs ?? RATE_LIMITED_RETRY_DELAY_MS)
+          : backoff;
+      await ctx.runMutation(component.private.scheduleResync, {
+        appUserId: task.appUserId,
+        minResyncIntervalMs: task.minResyncIntervalMs,
+        delayMs,
+        attempt: task.attempt + 1,
+      });
+    }
+  }
+}
+
+/**
+ * Backfill worker: syncs one page of customers through the same path as
+ * `fullResync`, then records progress, which schedules the next page.
+ *
+ * All RevenueCat calls share the rate limit budgets; when one runs out the
+ * position within the page is saved and the next run is scheduled after the
+ * rate limit window.
+ */
+export async function runBackfillPage(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  credentials: { apiKey: string; projectId: string },
+  jobId: string,
+): Promise<void> {
+  const job = await ctx.runQuery(component.public.getBackfillJob, { jobId });
+  if (!job || job.status !== "running") return;
+
+  const rateLimit = { ctx, component };
+  const progress = {
+    jobId,
+    customersSynced: 0,
+    customersFailed: 0,
+    lastError: undefined as string | undefined,
+  };
+
+  let page;
+  try {
+    page = await fetchCustomerPage(
+      credentials.apiKey,
+      credentials.projectId,
+      job.pageSize,
+      job.nextPage,
+      rateLimit,
+    );
+  } catch (error) {
+    const message = getErrorMessage(error);
+    console.error(`Backfill ${jobId} failed to list customers:`, message);
+    await ctx.runMutation(component.private.recordBackfillProgress, {
+      ...progress,
+      nextPage: job.nextPage,
+      pageOffset: job.pageOffset,
+      outcome:
+        error instanceof RevenueCatRateLimitedError ? "rate_limited" : "failed",
+      lastError: message,
+    });
+    return;
+  }
+
+  for (let offset = job.pageOffset; offset < page.appUserIds.length; offset++) {
+    const appUserId = page.appUserIds[offset];
+    try {
+      await fullResync(
+        ctx,
+        component,
+        credentials.apiKey,
+        credentials.projectId,
+        appUserId,
+        rateLimit,
+      );
+      progress.customersSynced++;
+    } catch (error) {
+      if (error instanceof RevenueCatRateLimitedError) {
+        await ctx.runMutation(component.private.recordBackfillProgress, {
+          ...progress,
+          nextPage: job.nextPage,
+          pageOffset: offset,
+          outcome: "rate_limited",
+        });
+        return;
+      }
+      progress.customersFailed++;
+      progress.lastError = `${appUserId}: ${getErrorMessage(error)}`;
+      console.error(`Backfill ${jobId} failed to sync`, progress.lastError);
+    }
+  }
+
+  await ctx.runMutation(component.private.recordBackfillProgress, {
+    ...progress,
+    nextPage: page.nextPage,
+    pageOffset: 0,
+    outcome: page.nextPage ? "page_done" : "completed",
+  });
+}
+
+/**
+ * Reconciliation worker: re-syncs each subscriber through `fullResync` and
+ * records any entitlement it had to correct.
+ *
+ * Stops at the first rate-limited request. The remaining subscribers are
+ * still stale, so the next reconciliation run picks them up again.
+ */
+export async function reconcileSubscribers(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  credentials: { apiKey: string; projectId: string },
+  subscribers: Array<{ appUserId: string; reason: "stale" | "expiring" }>,
+): Promise<void> {
+  const rateLimit = { ctx, component };
+
+  for (const { appUserId, reason } of subscribers) {
+    let changes: EntitlementChange[];
+    try {
+      changes = await fullResync(
+        ctx,
+        component,
+        credentials.apiKey,
+        credentials.projectId,
+        appUserId,
+        rateLimit,
+      );
+    } catch (error) {
+      if (error instanceof RevenueCatRateLimitedError) {
+        console.warn(
+          "Reconciliation rate limited, deferring remaining subscribers to the next run",
+        );
+        return;
+      }
+      console.error(
+        `Reconciliation failed to sync ${appUserId}:`,
+        getErrorMessage(error),
+      );
+      continue;
+    }
+
+    if (changes.length > 0) {
+      await ctx.runMutation(component.private.recordReconciliationDrift, {
+        appUserId,
+        reason,
+        changes: changes.map(({ entitlementId, before, after }) => ({
+          entitlementId,
+          before,
+          after,
+        })),
+      });
+    }
+  }
+}
+
+/**
+ * Scheduled retry of a virtual currency purchase, resuming from the last
+ * step that completed. The purchase keeps a retry scheduled until it
+ * finishes, so there is nothing to reschedule here.
+ */
+export async function resumeVirtualCurrencyPurchase(
+  ctx: ActionCtx,
+  component: ComponentApi,
+  credentials: { apiKey: string; projectId: string },
+  purchaseId: string,
+): Promise<void> {
+  try {
+    await runVirtualCurrencyPurchase(
+      ctx,
+      component,
+      credentials.apiKey,
+      credentials.projectId,
+      purchaseId,
+    );
+  } catch (error) {
+    // The purchase was marked failed without spending anything
+    if (!(error instanceof InsufficientFundsError)) throw error;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Only some webhook types trigger outbound RevenueCat API calls.
+ * Skip rate-limit accounting for no-op event types.
+ */
+function webhookEventUsesRevenueCatApi(event: RevenueCatWebhookEvent): boolean {
+  switch (event.type) {
+    case "INITIAL_PURCHASE":
+    case "NON_RENEWING_PURCHASE":
+    case "RENEWAL":
+    case "PRODUCT_CHANGE":
+    case "CANCELLATION":
+    case "UNCANCELLATION":
+    case "BILLING_ISSUE":
+    case "SUBSCRIPTION_PAUSED":
+    case "SUBSCRIPTION_EXTENDED":
+    case "EXPIRATION":
+    case "TRANSFER":
+    case "TEMPORARY_ENTITLEMENT_GRANT":
+    case "REFUND":
+    case "REFUND_REVERSED":
+    case "VIRTUAL_CURRENCY_TRANSACTION":
+      return true;
+
+    case "TEST":
+    case "SUBSCRIBER_ALIAS":
+    case "INVOICE_ISSUANCE":
+    case "EXPERIMENT_ENROLLMENT":
+      return false;
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Extract a human-readable message from an unknown thrown value.
+ */
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Sanitize a value for safe storage in Convex.
+ * - Preserves `null` values to keep the original payload shape intact
+ * - Escapes keys starting with `$` (reserved by Convex)
+ */
+export function sanitizeForConvex(value: unknown): unknown {
+  if (value === null) return null;
+  if (value === undefined) return undefined;
+  if (Array.isArray(value)) {
+    return value.map(sanitizeForConvex);
+  }
+  if (typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, val] of Object.entries(value as Record<string, unknown>)) {
+      if (val === undefined) continue;
+      const safeKey = key.startsWith("$") ? `_${key.slice(1)}` : key;
+      if (Object.prototype.hasOwnProperty.call(result, safeKey)) {
+        throw new Error(
+          `Convex sanitization: key collision — "${key}" would overwrite existing "${safeKey}"`,
+        );
+      }
+      result[safeKey] = sanitizeForConvex(val);
+    }
+    return result;
+  }
+  return value;
+}
@@ -1,10 +1,13 @@
 import type {
+  FunctionReference,
   HttpRouter,
   GenericActionCtx,
   GenericMutationCtx,
   GenericDataModel,
   GenericQueryCtx,
 } from "convex/server";
+import type { Infer } from "convex/values";
+import type { workerTask } from "../component/schema.js";
 
 export type QueryCtx = Pick<GenericQueryCtx<GenericDataModel>, "runQuery">;
 export type MutationCtx = Pick<
@@ -61,6 +64,7 @@ export interface RevenueCatWebhookEvent {
   period_type?: string;
   purchased_at_ms?: number;
   expiration_at_ms?: number;
+  grace_period_expiration_at_ms?: number;
   environment?: string;
   store?: string;
   is_family_share?: boolean;
@@ -81,7 +85,8 @@ export interface RevenueCatWebhookEvent {
   // Virtual currency fields
   adjustments?: Array<{
     amount: number;
-    currency: {
+    /** Missing from malformed payloads; such adjustments are skipped. */
+    currency?: {
       code: string;
       name: string;
       description?: string;
@@ -99,6 +104,25 @@ export interface RevenueCatWebhookPayload {
   event: RevenueCatWebhookEvent;
 }
 
+/**
+ * Lifecycle state of an entitlement:
+ * - `trial` — in a free trial
+ * - `active` — paid and set to renew (or a lifetime/one-time grant)
+ * - `grace_period` — renewal payment failed, access kept during the store's grace period
+ * - `billing_retry` — renewal payment failed, store is retrying
+ * - `cancelled` — won't renew, active until `expiresDate`
+ * - `paused` — subscription paused (Play Store)
+ * - `expired` — no longer active
+ */
+export type EntitlementStatus =
+  | "trial"
+  | "active"
+  | "grace_period"
+  | "billing_retry"
+  | "cancelled"
+  | "paused"
+  | "expired";
+
 /**
  * Parsed entitlement data for storage.
  *
@@ -109,6 +133,171 @@ export interface EntitlementData {
   entitlementId: string;
   isActive: boolean;
   expiresDate?: string;
+  status?: EntitlementStatus;
+}
+
+/**
+ * A cached entitlement's access-relevant fields.
+ */
+export type EntitlementSnapshot = Omit<EntitlementData, "entitlementId">;
+
+/**
+ * A change a sync made to one of a subscriber's cached entitlements, under
+ * the subscriber's canonical app_user_id. `before` / `after` are `null` when
+ * the entitlement had no row.
+ */
+export interface EntitlementChange {
+  appUserId: string;
+  entitlementId: string;
+  before: EntitlementSnapshot | null;
+  after: EntitlementSnapshot | null;
+}
+
+/**
+ * One subscriber's differences between the cached active entitlements and
+ * RevenueCat, as recorded in a drift audit report. `error` is set instead
+ * when the customer couldn't be fetched.
+ */
+export interface EntitlementDriftData {
+  appUserId: string;
+  missing: Array<{ entitlementId: string; expiresDate?: string }>;
+  extra: Array<{ entitlementId: string; expiresDate?: string }>;
+  expiryMismatches: Array<{
+    entitlementId: string;
+    cachedExpiresDate?: string;
+    revenueCatExpiresDate?: string;
+  }>;
+  error?: string;
+}
+
+/**
+ * Parsed subscription data for storage. Timestamps are in milliseconds.
+ */
+export interface SubscriptionData {
+  subscriptionId: string;
+  productId?: string;
+  /** Store the subscription was purchased in (e.g., "app_store", "paddle"). */
+  store: string;
+  storeSubscriptionIdentifier?: string;
+  /** RevenueCat status, e.g. "trialing", "active", "in_grace_period", "expired". */
+  status: string;
+  /** "trial" while the subscription is in a free trial, otherwise "normal". */
+  periodType: "normal" | "trial";
+  /** Whether the subscription currently grants its entitlements. */
+  givesAccess: boolean;
+  /** Lookup keys of the entitlements the subscription grants. */
+  entitlementIds: string[];
+  /** e.g. "will_renew", "will_not_renew", "will_change_product". */
+  autoRenewalStatus?: string;
+  /** True while a renewal payment is failing (grace period or billing retry). */
+  hasBillingIssue: boolean;
+  startsAt?: number;
+  currentPeriodStartsAt?: number;
+  currentPeriodEndsAt?: number;
+  /** When the subscription renews next; unset unless it will auto-renew. */
+  nextRenewalAt?: number;
+  environment?: string;
+  managementUrl?: string;
+}
+
+/**
+ * A purchase, renewal or one-time purchase, keyed on the store's
+ * `transaction_id`. Prices are as reported by RevenueCat: `price` in USD,
+ * `priceInPurchasedCurrency` in `currency`.
+ */
+export interface TransactionData {
+  transactionId: string;
+  originalTransactionId?: string;
+  productId?: string;
+  store?: string;
+  environment?: string;
+  /** Event type that created the transaction, e.g. "INITIAL_PURCHASE" or "RENEWAL". */
+  purchaseType?: string;
+  price?: number;
+  priceInPurchasedCurrency?: number;
+  currency?: string;
+  takehomePercentage?: number;
+  countryCode?: string;
+  purchasedAtMs: number;
+}
+
+/**
+ * Entitlement definition from the project configuration, cached to resolve
+ * opaque entitlement IDs to lookup keys.
+ */
+export interface EntitlementDefinitionData {
+  entitlementId: string;
+  lookupKey: string;
+  displayName?: string;
+}
+
+/**
+ * Product from the project catalog.
+ */
+export interface ProductData {
+  productId: string;
+  storeIdentifier: string;
+  type: string;
+  appId?: string;
+  displayName?: string;
+  /** ISO 8601 duration of a subscription period (e.g., "P1M"). */
+  subscriptionDuration?: string;
+}
+
+/**
+ * Offering from the project catalog.
+ */
+export interface OfferingData {
+  offeringId: string;
+  lookupKey: string;
+  displayName: string;
+  isCurrent: boolean;
+  metadata?: any;
+}
+
+/**
+ * Package within an offering, with the IDs of the products it sells.
+ */
+export interface PackageData {
+  packageId: string;
+  offeringId: string;
+  lookupKey: string;
+  displayName: string;
+  position?: number;
+  productIds: string[];
+}
+
+/**
+ * Product attached to an entitlement. The `entitlementId` is the
+ * entitlement's lookup key, matching the `entitlements` table.
+ */
+export interface EntitlementProductData {
+  entitlementId: string;
+  productId: string;
+}
+
+/**
+ * The project's product, offering and package catalog.
+ */
+export interface CatalogData {
+  products: ProductData[];
+  offerings: OfferingData[];
+  packages: PackageData[];
+  entitlementProducts: EntitlementProductData[];
+}
+
+/**
+ * Extra information passed to event handlers alongside the raw event.
+ */
+export interface RevenueCatEventContext {
+  /**
+   * True when the event is older than the last event already applied to
+   * this subscriber, e.g. a delayed CANCELLATION arriving after a RENEWAL.
+   */
+  isStale: boolean;
+
+  /** `event_timestamp_ms` of the last event applied to this subscriber. */
+  lastAppliedEventTimestampMs?: number;
 }
 
 /**
@@ -119,6 +308,7 @@ export type RevenueCatEventHandler<
 > = (
   ctx: GenericActionCtx<GenericDataModel>,
   event: RevenueCatWebhookEvent & { type: T },
+  context: RevenueCatEventContext,
 ) => Promise<void>;
 
 /**
@@ -128,6 +318,14 @@ export type RevenueCatEventHandlers = {
   [K in RevenueCatEventType]?: RevenueCatEventHandler<K>;
 };
 
+/**
+ * Handler for a net change in a subscriber's access after a sync.
+ */
+export type EntitlementChangeHandler = (
+  ctx: GenericActionCtx<GenericDataModel>,
+  change: EntitlementChange,
+) => Promise<void>;
+
 /**
  * Virtual currency balance data for storage.
  */
@@ -136,6 +334,90 @@ export interface VirtualCurrencyBalanceData {
   balance: number;
 }
 
+/**
+ * Virtual currency definition from the project configuration.
+ */
+export interface VirtualCurrencyDefinitionData {
+  currencyCode: string;
+  name: string;
+  description?: string;
+}
+
+/**
+ * State of a virtual currency purchase.
+ *
+ * - `pending`   — the currency hasn't been spent yet
+ * - `spent`     — the currency was spent; the fulfilment hasn't run yet
+ * - `fulfilled` — the currency was spent and the fulfilment ran
+ * - `failed`    — gave up before the spend was sent, or abandoned and
+ *   refunded (`refundedAt`)
+ */
+export type VirtualCurrencyPurchaseStatus =
+  | "pending"
+  | "spent"
+  | "fulfilled"
+  | "failed";
+
+/**
+ * Outcome of replaying a logged or dead-lettered webhook event.
+ *
+ * - `processed`   — the event ran through the full pipeline successfully
+ * - `failed`      — processing threw again; `error` holds the message
+ * - `duplicate`   — the event was already processed, nothing was re-run
+ * - `in_progress` — another handler currently holds the event's lock
+ */
+export interface ReplayEventResult {
+  revenuecatEventId: string;
+  status: "processed" | "failed" | "duplicate" | "in_progress";
+  error?: string;
+}
+
+/**
+ * RevenueCat API v2 rate limit domains, each with its own request budget:
+ * - `customer` — customer information endpoints (`/customers/...`)
+ * - `project` — project configuration (entitlements, products, offerings)
+ */
+export type RevenueCatRateLimitBucket = "customer" | "project";
+
+/**
+ * Request budget for one rate limit bucket.
+ */
+export type RevenueCatRateLimitConfig = {
+  /** Requests allowed per window. */
+  maxRequests: number;
+
+  /** Window length in milliseconds. Defaults to 60 seconds. */
+  windowMs?: number;
+};
+
+/**
+ * Per-bucket overrides of the default RevenueCat API budgets
+ * (customer: 400/min, project: 50/min), set with `setRateLimits`.
+ */
+export type RevenueCatRateLimits = Partial<
+  Record<RevenueCatRateLimitBucket, RevenueCatRateLimitConfig>
+>;
+
+/**
+ * What client sync calls do when the RevenueCat API budget is spent:
+ * - `reject` — throw `RevenueCatRateLimitedError`
+ * - `wait` — retry once budget frees up, for up to `rateLimitMaxWaitMs`,
+ *   then throw
+ * - `cache` — return the cached data instead, flagged with `fromCache`
+ */
+export type RevenueCatRateLimitPolicy = "reject" | "wait" | "cache";
+
+/**
+ * Background work the component schedules on the host app's worker action.
+ */
+export type RevenueCatWorkerTask = Infer<typeof workerTask>;
+
+/**
+ * Reference to the host app's export of `RevenueCatSync.worker()`, e.g.
+ * `internal.revenuecatWorker.worker`.
+ */
+export type RevenueCatWorker = FunctionReference<"action", "internal">;
+
 /**
  * Configuration for webhook registration.
  */
@@ -143,6 +425,13 @@ export type RegisterRoutesConfig = {
   /** Optional webhook path. Defaults to "/revenuecat/webhook" */
   webhookPath?: string;
 
+  /**
+   * The worker that runs the background work webhooks schedule: queued
+   * events, payload-first resyncs, the trailing resyncs of coalesced syncs
+   * and the entitlement change callbacks. Required.
+   */
+  worker?: RevenueCatWorker;
+
   /** Optional event handlers that run after default processing. */
   events?: RevenueCatEventHandlers;
 
@@ -168,6 +457,146 @@ export type RegisterRoutesConfig = {
    * Defaults to process.env.REVENUECAT_PROJECT_ID
    */
   REVENUECAT_PROJECT_ID?: string;
+
+  /**
+   * Number of failed processing attempts after which an event is copied
+   * to the dead-letter table for replay. Defaults to 5.
+   */
+  deadLetterAfterAttempts?: number;
+
+  /**
+   * Apply entitlement changes straight from webhook payloads
+   * (`entitlement_ids`, `expiration_at_ms` and the event type) instead of
+   * resyncing every event from the REST API.
+   *
+   * Ambiguous events (product changes, refunds, missing entitlement IDs)
+   * and events older than the cached state schedule a reconciling full
+   * resync in the background. TRANSFER and virtual currency events are
+   * always synced from the REST API.
+   *
+   * Defaults to false.
+   */
+  payloadFirst?: boolean;
+
+  /**
+   * Skip default processing for events older than the last event applied
+   * to the subscriber (by `event_timestamp_ms`). Custom handlers still run
+   * and can check `context.isStale`.
+   *
+   * Defaults to false.
+   */
+  skipStaleEvents?: boolean;
+
+  /**
+   * Shortest time between two full resyncs of one subscriber. A webhook
+   * resync requested within it, or while another resync of the user is
+   * running, is coalesced into a single trailing resync.
+   *
+   * Defaults to 5 seconds.
+   */
+  minResyncIntervalMs?: number;
+
+  /**
+   * Acknowledge webhooks immediately and sync in the background.
+   *
+   * When enabled, the event is stored and answered with a 200 right away,
+   * and the RevenueCat API work runs in the `worker`, which retries with
+   * exponential backoff. Events that still fail after `maxAttempts` are
+   * dead-lettered.
+   *
+   * Event handlers run in the worker once the sync has succeeded, so set
+   * `events` and `onEvent` on the worker's `RevenueCatSync` client instead
+   * of here.
+   *
+   * Defaults to false (sync inline before responding).
+   */
+  asyncProcessing?:
+    | boolean
+    | {
+        /** Total processing attempts, including the first. Defaults to 5. */
+        maxAttempts?: number;
+        /** Delay before the first retry, doubled for each retry. Defaults to 30000. */
+        initialBackoffMs?: number;
+      };
+};
+
+/**
+ * Options for the `RevenueCatSync` client.
+ */
+export type RevenueCatSyncOptions = {
+  /** Defaults to process.env.REVENUECAT_API_KEY */
+  REVENUECAT_API_KEY?: string;
+
+  /** Defaults to process.env.REVENUECAT_PROJECT_ID */
+  REVENUECAT_PROJECT_ID?: string;
+
+  /**
+   * The app's export of this client's `worker()`, which runs the background
+   * work the client starts — backfills, reconciliation, purchase retries
+   * and the trailing resyncs of coalesced syncs — and fires the entitlement
+   * change callbacks. Required by the methods that sync or start background
+   * work.
+   */
+  worker?: RevenueCatWorker;
+
+  /**
+   * Event handlers to run when replaying webhook events and, with
+   * `asyncProcessing`, when the worker processes queued events.
+   * Pass the same handlers you give to `registerRoutes`.
+   */
+  events?: RevenueCatEventHandlers;
+
+  /**
+   * Generic event handler to run when replaying webhook events and when the
+   * worker processes queued events.
+   */
+  onEvent?: RevenueCatEventHandler;
+
+  /**
+   * Called when a sync makes an entitlement active that wasn't. Like the
+   * other entitlement change callbacks, it runs in the `worker` for every
+   * sync — webhooks, client calls, background resyncs, backfills and
+   * reconciliation.
+   */
+  onEntitlementGranted?: EntitlementChangeHandler;
+
+  /**
+   * Called when a sync makes an active entitlement inactive or removes it.
+   */
+  onEntitlementRevoked?: EntitlementChangeHandler;
+
+  /**
+   * Called when a sync moves the expiration of an entitlement that stays
+   * active, e.g. on renewal.
+   */
+  onEntitlementExpiryChanged?: EntitlementChangeHandler;
+
+  /**
+   * Number of failed attempts after which a replayed event stays in the
+   * dead-letter table. Defaults to 5.
+   */
+  deadLetterAfterAttempts?: number;
+
+  /**
+   * What `syncSubscriber`, `pollForEntitlement` and
+   * `syncVirtualCurrencyBalances` do when rate limited. Can be overridden
+   * per call. Defaults to "cache".
+   */
+  rateLimitPolicy?: RevenueCatRateLimitPolicy;
+
+  /**
+   * Longest time the "wait" policy waits for budget before giving up.
+   * Defaults to 10 seconds.
+   */
+  rateLimitMaxWaitMs?: number;
+
+  /**
+   * Shortest time between two syncs of one subscriber. `syncSubscriber`
+   * calls within it, or while another sync of the user is running, return
+   * that sync's result instead of calling RevenueCat again. Pass the same
+   * value you give to `registerRoutes`. Defaults to 5 seconds.
+   */
+  minResyncIntervalMs?: number;
 };
 
 export type { HttpRouter };
@@ -8,8 +8,10 @@
  * @module
  */
 
+import type * as aliases from "../aliases.js";
 import type * as private_ from "../private.js";
 import type * as public_ from "../public.js";
+import type * as rateLimits from "../rateLimits.js";
 
 import type {
   ApiFromModules,
@@ -19,8 +21,10 @@ import type {
 import { anyApi, componentsGeneric } from "convex/server";
 
 const fullApi: ApiFromModules<{
+  aliases: typeof aliases;
   private: typeof private_;
   public: typeof public_;
+  rateLimits: typeof rateLimits;
 }> = anyApi as any;
 
 /**
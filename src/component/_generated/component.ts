@@ -24,10 +24,111 @@ import type { FunctionReference } from "convex/server";
 export type ComponentApi<Name extends string | undefined = string | undefined> =
   {
     private: {
+      abandonVirtualCurrencyPurchase: FunctionReference<
+        "mutation",
+        "internal",
+        { purchaseId: string; refunded: boolean },
+        null,
+        Name
+      >;
+      acknowledgeEntitlementChanges: FunctionReference<
+        "mutation",
+        "internal",
+        { ids: Array<string> },
+        null,
+        Name
+      >;
+      acquireSyncLease: FunctionReference<
+        "mutation",
+        "internal",
+        { appUserId: string; minResyncIntervalMs?: number; trailing?: boolean },
+        | { startedAt: number; status: "acquired" }
+        | { status: "in_flight" }
+        | { status: "recent" },
+        Name
+      >;
+      applyEntitlementEvent: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          appUserId: string;
+          entitlements: Array<{
+            entitlementId: string;
+            expiresDate?: string;
+            isActive: boolean;
+            status?:
+              | "trial"
+              | "active"
+              | "grace_period"
+              | "billing_retry"
+              | "cancelled"
+              | "paused"
+              | "expired";
+          }>;
+          eventTimestampMs: number;
+        },
+        | {
+            changes: Array<{
+              after: {
+                expiresDate?: string;
+                isActive: boolean;
+                status?:
+                  | "trial"
+                  | "active"
+                  | "grace_period"
+                  | "billing_retry"
+                  | "cancelled"
+                  | "paused"
+                  | "expired";
+              } | null;
+              appUserId: string;
+              before: {
+                expiresDate?: string;
+                isActive: boolean;
+                status?:
+                  | "trial"
+                  | "active"
+                  | "grace_period"
+                  | "billing_retry"
+                  | "cancelled"
+                  | "paused"
+                  | "expired";
+              } | null;
+              entitlementId: string;
+            }>;
+            status: "applied";
+          }
+        | { status: "stale" },
+        Name
+      >;
+      beginVirtualCurrencyPurchaseAttempt: FunctionReference<
+        "mutation",
+        "internal",
+        { purchaseId: string },
+        | {
+            adjustments: Array<{ amount: number; currencyCode: string }>;
+            appUserId: string;
+            idempotencyKey: string;
+            spendSent: boolean;
+            status: "pending" | "spent";
+          }
+        | { status: "fulfilled" | "failed" }
+        | { expiresAt: number; status: "in_progress" },
+        Name
+      >;
+      cancelBackfill: FunctionReference<
+        "mutation",
+        "internal",
+        { jobId: string },
+        null,
+        Name
+      >;
       checkAndRecordEvent: FunctionReference<
         "mutation",
         "internal",
         {
+          appUserId?: string;
+          event?: any;
           eventTimestampMs: number;
           eventType: string;
           revenuecatEventId: string;
@@ -38,8 +139,8 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       checkRateLimit: FunctionReference<
         "mutation",
         "internal",
-        { key: string },
-        "allowed" | "rate_limited",
+        { bucket: "customer" | "project"; tokens?: number },
+        { status: "allowed"; tokens: number } | { status: "rate_limited" },
         Name
       >;
       cleanupRateLimits: FunctionReference<
@@ -53,128 +154,1723 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         { appUserId: string },
+        Array<{
+          after: {
+            expiresDate?: string;
+            isActive: boolean;
+            status?:
+              | "trial"
+              | "active"
+              | "grace_period"
+              | "billing_retry"
+              | "cancelled"
+              | "paused"
+              | "expired";
+          } | null;
+          appUserId: string;
+          before: {
+            expiresDate?: string;
+            isActive: boolean;
+            status?:
+              | "trial"
+              | "active"
+              | "grace_period"
+              | "billing_retry"
+              | "cancelled"
+              | "paused"
+              | "expired";
+          } | null;
+          entitlementId: string;
+        }>,
+        Name
+      >;
+      completeDriftReport: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          lastError?: string;
+          reportId: string;
+          status: "completed" | "failed";
+          subscribersChecked: number;
+          truncated: boolean;
+        },
+        null,
+        Name
+      >;
+      enqueueEvent: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          event: any;
+          initialBackoffMs?: number;
+          maxAttempts?: number;
+          options?: {
+            minResyncIntervalMs?: number;
+            payloadFirst?: boolean;
+            skipStaleEvents?: boolean;
+          };
+          revenuecatEventId: string;
+        },
+        null,
+        Name
+      >;
+      failVirtualCurrencyPurchaseAttempt: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          error: string;
+          purchaseId: string;
+          retryable: boolean;
+          spendRejected?: boolean;
+        },
+        "pending" | "spent" | "fulfilled" | "failed",
+        Name
+      >;
+      fulfilVirtualCurrencyPurchase: FunctionReference<
+        "mutation",
+        "internal",
+        { purchaseId: string },
         null,
         Name
       >;
+      holdVirtualCurrency: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          adjustments: Array<{ amount: number; currencyCode: string }>;
+          appUserId: string;
+          idempotencyKey?: string;
+        },
+        | { holdId: string; status: "held" }
+        | { status: "already_recorded" }
+        | {
+            available: number;
+            currencyCode: string;
+            requested: number;
+            status: "insufficient_funds";
+          },
+        Name
+      >;
       markEventProcessed: FunctionReference<
         "mutation",
         "internal",
-        { revenuecatEventId: string },
+        {
+          appUserId?: string;
+          eventTimestampMs?: number;
+          revenuecatEventId: string;
+        },
         null,
         Name
       >;
-      syncSubscriberAndEntitlements: FunctionReference<
+      markVirtualCurrencyPurchaseSpendSent: FunctionReference<
+        "mutation",
+        "internal",
+        { purchaseId: string },
+        null,
+        Name
+      >;
+      markVirtualCurrencyPurchaseSpent: FunctionReference<
+        "mutation",
+        "internal",
+        { purchaseId: string },
+        null,
+        Name
+      >;
+      mergeSubscriberAliases: FunctionReference<
+        "mutation",
+        "internal",
+        { aliases: Array<string>; appUserId: string },
+        { merged: Array<string> },
+        Name
+      >;
+      recordBackfillProgress: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          customersFailed: number;
+          customersSynced: number;
+          jobId: string;
+          lastError?: string;
+          nextPage?: string;
+          outcome: "page_done" | "completed" | "rate_limited" | "failed";
+          pageOffset: number;
+        },
+        null,
+        Name
+      >;
+      recordDriftReportEntry: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          entry: {
+            appUserId: string;
+            error?: string;
+            expiryMismatches: Array<{
+              cachedExpiresDate?: string;
+              entitlementId: string;
+              revenueCatExpiresDate?: string;
+            }>;
+            extra: Array<{ entitlementId: string; expiresDate?: string }>;
+            missing: Array<{ entitlementId: string; expiresDate?: string }>;
+          };
+          reportId: string;
+        },
+        null,
+        Name
+      >;
+      recordReconciliationDrift: FunctionReference<
         "mutation",
         "internal",
         {
           appUserId: string;
-          entitlements: Array<{
+          changes: Array<{
+            after: {
+              expiresDate?: string;
+              isActive: boolean;
+              status?:
+                | "trial"
+                | "active"
+                | "grace_period"
+                | "billing_retry"
+                | "cancelled"
+                | "paused"
+                | "expired";
+            } | null;
+            before: {
+              expiresDate?: string;
+              isActive: boolean;
+              status?:
+                | "trial"
+                | "active"
+                | "grace_period"
+                | "billing_retry"
+                | "cancelled"
+                | "paused"
+                | "expired";
+            } | null;
             entitlementId: string;
-            expiresDate?: string;
-            isActive: boolean;
           }>;
-          lastSyncedAt: number;
-          rawSubscriber?: any;
+          reason: "stale" | "expiring";
         },
         null,
         Name
       >;
-      syncVirtualCurrencyBalances: FunctionReference<
+      recordTransaction: FunctionReference<
         "mutation",
         "internal",
         {
           appUserId: string;
-          balances: Array<{ balance: number; currencyCode: string }>;
-          lastSyncedAt: number;
+          eventTimestampMs: number;
+          kind: "purchase" | "refund" | "refund_reversed";
+          transaction: {
+            countryCode?: string;
+            currency?: string;
+            environment?: string;
+            originalTransactionId?: string;
+            price?: number;
+            priceInPurchasedCurrency?: number;
+            productId?: string;
+            purchaseType?: string;
+            purchasedAtMs: number;
+            store?: string;
+            takehomePercentage?: number;
+            transactionId: string;
+          };
         },
         null,
         Name
       >;
-      unreserveEvent: FunctionReference<
+      recordUnknownEntitlements: FunctionReference<
         "mutation",
         "internal",
-        { revenuecatEventId: string },
+        { entitlementIds: Array<string> },
         null,
         Name
       >;
-    };
-    public: {
-      getActiveEntitlements: FunctionReference<
-        "query",
+      registerWorker: FunctionReference<
+        "mutation",
         "internal",
-        { appUserId: string },
-        Array<{
+        { workerHandle: string },
+        null,
+        Name
+      >;
+      releaseSyncLease: FunctionReference<
+        "mutation",
+        "internal",
+        {
           appUserId: string;
-          entitlementId: string;
-          expiresDate?: string;
-          isActive: boolean;
+          minResyncIntervalMs?: number;
+          startedAt: number;
+          succeeded: boolean;
+        },
+        null,
+        Name
+      >;
+      releaseVirtualCurrencyHold: FunctionReference<
+        "mutation",
+        "internal",
+        { holdId: string },
+        null,
+        Name
+      >;
+      replaceCatalog: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          entitlementProducts: Array<{ entitlementId: string; productId: string }>;
           lastSyncedAt: number;
-        }>,
+          offerings: Array<{
+            displayName: string;
+            isCurrent: boolean;
+            lookupKey: string;
+            metadata?: any;
+            offeringId: string;
+          }>;
+          packages: Array<{
+            displayName: string;
+            lookupKey: string;
+            offeringId: string;
+            packageId: string;
+            position?: number;
+            productIds: Array<string>;
+          }>;
+          products: Array<{
+            appId?: string;
+            displayName?: string;
+            productId: string;
+            storeIdentifier: string;
+            subscriptionDuration?: string;
+            type: string;
+          }>;
+        },
+        null,
         Name
       >;
-      getEntitlement: FunctionReference<
-        "query",
+      replaceEntitlementDefinitions: FunctionReference<
+        "mutation",
         "internal",
-        { appUserId: string; entitlementId: string },
         {
-          appUserId: string;
-          entitlementId: string;
-          expiresDate?: string;
-          isActive: boolean;
+          definitions: Array<{
+            displayName?: string;
+            entitlementId: string;
+            lookupKey: string;
+          }>;
+          fetchedAt: number;
+        },
+        null,
+        Name
+      >;
+      replaceVirtualCurrencyDefinitions: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          definitions: Array<{
+            currencyCode: string;
+            description?: string;
+            name: string;
+          }>;
           lastSyncedAt: number;
-        } | null,
+        },
+        null,
         Name
       >;
-      getEntitlements: FunctionReference<
-        "query",
+      resumeBackfill: FunctionReference<
+        "mutation",
         "internal",
-        { appUserId: string },
-        Array<{
+        { jobId: string },
+        null,
+        Name
+      >;
+      retryQueuedEvent: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          attempt: number;
+          delayMs: number;
+          error: string;
+          event: any;
+          initialBackoffMs: number;
+          maxAttempts: number;
+          options?: {
+            minResyncIntervalMs?: number;
+            payloadFirst?: boolean;
+            skipStaleEvents?: boolean;
+          };
+          rateLimited: boolean;
+          revenuecatEventId: string;
+        },
+        null,
+        Name
+      >;
+      scheduleResync: FunctionReference<
+        "mutation",
+        "internal",
+        {
           appUserId: string;
-          entitlementId: string;
-          expiresDate?: string;
-          isActive: boolean;
-          lastSyncedAt: number;
-        }>,
+          attempt?: number;
+          delayMs?: number;
+          minResyncIntervalMs?: number;
+        },
+        null,
         Name
       >;
-      getSubscriber: FunctionReference<
-        "query",
+      setRateLimits: FunctionReference<
+        "mutation",
         "internal",
-        { appUserId: string },
-        { appUserId: string; lastSyncedAt: number; rawSubscriber?: any } | null,
+        {
+          limits: {
+            customer?: { maxRequests: number; windowMs?: number };
+            project?: { maxRequests: number; windowMs?: number };
+          };
+        },
+        null,
         Name
       >;
-      getVirtualCurrencyBalance: FunctionReference<
-        "query",
+      startBackfill: FunctionReference<
+        "mutation",
+        "internal",
+        { pageSize?: number },
+        string,
+        Name
+      >;
+      startDriftReport: FunctionReference<
+        "mutation",
+        "internal",
+        { sampleSize?: number; subscribersTotal: number },
+        string,
+        Name
+      >;
+      startReconciliation: FunctionReference<
+        "mutation",
+        "internal",
+        { expiringWithinMs?: number; limit?: number; staleAfterMs?: number },
+        { expiring: number; stale: number },
+        Name
+      >;
+      startVirtualCurrencyPurchase: FunctionReference<
+        "mutation",
         "internal",
-        { appUserId: string; currencyCode: string },
         {
+          adjustments: Array<{ amount: number; currencyCode: string }>;
           appUserId: string;
-          balance: number;
-          currencyCode: string;
-          lastSyncedAt: number;
-        } | null,
+          fulfilArgs: any;
+          fulfilHandle: string;
+          purchaseKey?: string;
+        },
+        string,
         Name
       >;
-      getVirtualCurrencyBalances: FunctionReference<
-        "query",
+      syncSubscriberAndEntitlements: FunctionReference<
+        "mutation",
         "internal",
-        { appUserId: string },
-        Array<{
+        {
           appUserId: string;
-          balance: number;
-          currencyCode: string;
+          entitlements: Array<{
+            entitlementId: string;
+            expiresDate?: string;
+            isActive: boolean;
+            status?:
+              | "trial"
+              | "active"
+              | "grace_period"
+              | "billing_retry"
+              | "cancelled"
+              | "paused"
+              | "expired";
+          }>;
           lastSyncedAt: number;
+          rawSubscriber?: any;
+          subscriptions: Array<{
+            autoRenewalStatus?: string;
+            currentPeriodEndsAt?: number;
+            currentPeriodStartsAt?: number;
+            entitlementIds: Array<string>;
+            environment?: string;
+            givesAccess: boolean;
+            hasBillingIssue: boolean;
+            managementUrl?: string;
+            nextRenewalAt?: number;
+            periodType: "normal" | "trial";
+            productId?: string;
+            startsAt?: number;
+            status: string;
+            store: string;
+            storeSubscriptionIdentifier?: string;
+            subscriptionId: string;
+          }>;
+        },
+        Array<{
+          after: {
+            expiresDate?: string;
+            isActive: boolean;
+            status?:
+              | "trial"
+              | "active"
+              | "grace_period"
+              | "billing_retry"
+              | "cancelled"
+              | "paused"
+              | "expired";
+          } | null;
+          appUserId: string;
+          before: {
+            expiresDate?: string;
+            isActive: boolean;
+            status?:
+              | "trial"
+              | "active"
+              | "grace_period"
+              | "billing_retry"
+              | "cancelled"
+              | "paused"
+              | "expired";
+          } | null;
+          entitlementId: string;
         }>,
         Name
       >;
-      hasActiveEntitlement: FunctionReference<
-        "query",
-        "internal",
+      syncVirtualCurrencyBalances: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          appUserId: string;
+          balances: Array<{ balance: number; currencyCode: string }>;
+          holdId?: string;
+          lastSyncedAt: number;
+          transaction?: {
+            adjustments: Array<{ amount: number; currencyCode: string }>;
+            idempotencyKey?: string;
+            occurredAt: number;
+            origin: "webhook" | "rest_api";
+            source?: string;
+            transactionId?: string;
+          };
+        },
+        null,
+        Name
+      >;
+      unreserveEvent: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          deadLetterAfterAttempts?: number;
+          error?: string;
+          rateLimited?: boolean;
+          revenuecatEventId: string;
+        },
+        null,
+        Name
+      >;
+      upsertTransactions: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          appUserId: string;
+          transactions: Array<{
+            countryCode?: string;
+            currency?: string;
+            environment?: string;
+            originalTransactionId?: string;
+            price?: number;
+            priceInPurchasedCurrency?: number;
+            productId?: string;
+            purchaseType?: string;
+            purchasedAtMs: number;
+            status: "completed" | "refunded";
+            store?: string;
+            takehomePercentage?: number;
+            transactionId: string;
+          }>;
+        },
+        { inserted: number; updated: number },
+        Name
+      >;
+      upsertVirtualCurrencyDefinitions: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          definitions: Array<{
+            currencyCode: string;
+            description?: string;
+            name: string;
+          }>;
+          lastSyncedAt: number;
+        },
+        null,
+        Name
+      >;
+    };
+    public: {
+      getActiveEntitlements: FunctionReference<
+        "query",
+        "internal",
+        { appUserId: string },
+        Array<{
+          appUserId: string;
+          entitlementId: string;
+          expiresDate?: string;
+          isActive: boolean;
+          lastEventTimestampMs?: number;
+          lastSyncedAt: number;
+          status?:
+            | "trial"
+            | "active"
+            | "grace_period"
+            | "billing_retry"
+            | "cancelled"
+            | "paused"
+            | "expired";
+        }>,
+        Name
+      >;
+      getActiveSubscriptions: FunctionReference<
+        "query",
+        "internal",
+        { appUserId: string },
+        Array<{
+          appUserId: string;
+          autoRenewalStatus?: string;
+          currentPeriodEndsAt?: number;
+          currentPeriodStartsAt?: number;
+          entitlementIds: Array<string>;
+          environment?: string;
+          givesAccess: boolean;
+          hasBillingIssue: boolean;
+          lastSyncedAt: number;
+          managementUrl?: string;
+          nextRenewalAt?: number;
+          periodType: "normal" | "trial";
+          productId?: string;
+          startsAt?: number;
+          status: string;
+          store: string;
+          storeSubscriptionIdentifier?: string;
+          subscriptionId: string;
+        }>,
+        Name
+      >;
+      getBackfillJob: FunctionReference<
+        "query",
+        "internal",
+        { jobId: string },
+        {
+          completedAt?: number;
+          customersFailed: number;
+          customersSynced: number;
+          jobId: string;
+          lastError?: string;
+          nextPage?: string;
+          pageOffset: number;
+          pageSize: number;
+          pagesProcessed: number;
+          rateLimitedPauses: number;
+          startedAt: number;
+          status: "running" | "completed" | "failed" | "cancelled";
+          updatedAt: number;
+        } | null,
+        Name
+      >;
+      getCurrentOffering: FunctionReference<
+        "query",
+        "internal",
+        {},
+        {
+          displayName: string;
+          isCurrent: boolean;
+          lastSyncedAt: number;
+          lookupKey: string;
+          metadata?: any;
+          offeringId: string;
+          packages: Array<{
+            displayName: string;
+            lastSyncedAt: number;
+            lookupKey: string;
+            offeringId: string;
+            packageId: string;
+            position?: number;
+            productIds: Array<string>;
+            products: Array<{
+              appId?: string;
+              displayName?: string;
+              lastSyncedAt: number;
+              productId: string;
+              storeIdentifier: string;
+              subscriptionDuration?: string;
+              type: string;
+            }>;
+          }>;
+        } | null,
+        Name
+      >;
+      getDeadLetter: FunctionReference<
+        "query",
+        "internal",
+        { revenuecatEventId: string },
+        {
+          appUserId?: string;
+          attempts: number;
+          deadLetteredAt: number;
+          event: any;
+          eventType: string;
+          lastError?: string;
+          lastFailedAt: number;
+          resolvedAt?: number;
+          revenuecatEventId: string;
+          status: "pending" | "resolved";
+        } | null,
+        Name
+      >;
+      getDriftReport: FunctionReference<
+        "query",
+        "internal",
+        { reportId: string },
+        {
+          completedAt?: number;
+          expiryMismatches: number;
+          extraEntitlements: number;
+          lastError?: string;
+          missingEntitlements: number;
+          reportId: string;
+          sampleSize?: number;
+          startedAt: number;
+          status: "running" | "completed" | "failed";
+          subscribersChecked: number;
+          subscribersFailed: number;
+          subscribersTotal: number;
+          subscribersWithDrift: number;
+          truncated: boolean;
+        } | null,
+        Name
+      >;
+      getEntitlement: FunctionReference<
+        "query",
+        "internal",
+        { appUserId: string; entitlementId: string },
+        {
+          appUserId: string;
+          entitlementId: string;
+          expiresDate?: string;
+          isActive: boolean;
+          lastEventTimestampMs?: number;
+          lastSyncedAt: number;
+          status?:
+            | "trial"
+            | "active"
+            | "grace_period"
+            | "billing_retry"
+            | "cancelled"
+            | "paused"
+            | "expired";
+        } | null,
+        Name
+      >;
+      getEntitlementDefinitions: FunctionReference<
+        "query",
+        "internal",
+        {},
+        Array<{
+          displayName?: string;
+          entitlementId: string;
+          fetchedAt: number;
+          lookupKey: string;
+        }>,
+        Name
+      >;
+      getEntitlements: FunctionReference<
+        "query",
+        "internal",
+        { appUserId: string },
+        Array<{
+          appUserId: string;
+          entitlementId: string;
+          expiresDate?: string;
+          isActive: boolean;
+          lastEventTimestampMs?: number;
+          lastSyncedAt: number;
+          status?:
+            | "trial"
+            | "active"
+            | "grace_period"
+            | "billing_retry"
+            | "cancelled"
+            | "paused"
+            | "expired";
+        }>,
+        Name
+      >;
+      getEventLogEntry: FunctionReference<
+        "query",
+        "internal",
+        { revenuecatEventId: string },
+        {
+          appUserId?: string;
+          deliveries?: number;
+          error?: string;
+          event: any;
+          eventTimestampMs: number;
+          eventType: string;
+          lastReceivedAt?: number;
+          receivedAt: number;
+          revenuecatEventId: string;
+          status: "received" | "processing" | "processed" | "failed";
+          statusHistory: Array<{
+            at: number;
+            error?: string;
+            rateLimited?: boolean;
+            status: "received" | "processing" | "processed" | "failed";
+          }>;
+        } | null,
+        Name
+      >;
+      getOffering: FunctionReference<
+        "query",
+        "internal",
+        { lookupKey: string },
+        {
+          displayName: string;
+          isCurrent: boolean;
+          lastSyncedAt: number;
+          lookupKey: string;
+          metadata?: any;
+          offeringId: string;
+          packages: Array<{
+            displayName: string;
+            lastSyncedAt: number;
+            lookupKey: string;
+            offeringId: string;
+            packageId: string;
+            position?: number;
+            productIds: Array<string>;
+            products: Array<{
+              appId?: string;
+              displayName?: string;
+              lastSyncedAt: number;
+              productId: string;
+              storeIdentifier: string;
+              subscriptionDuration?: string;
+              type: string;
+            }>;
+          }>;
+        } | null,
+        Name
+      >;
+      getOfferings: FunctionReference<
+        "query",
+        "internal",
+        {},
+        Array<{
+          displayName: string;
+          isCurrent: boolean;
+          lastSyncedAt: number;
+          lookupKey: string;
+          metadata?: any;
+          offeringId: string;
+          packages: Array<{
+            displayName: string;
+            lastSyncedAt: number;
+            lookupKey: string;
+            offeringId: string;
+            packageId: string;
+            position?: number;
+            productIds: Array<string>;
+            products: Array<{
+              appId?: string;
+              displayName?: string;
+              lastSyncedAt: number;
+              productId: string;
+              storeIdentifier: string;
+              subscriptionDuration?: string;
+              type: string;
+            }>;
+          }>;
+        }>,
+        Name
+      >;
+      getProductsForEntitlement: FunctionReference<
+        "query",
+        "internal",
+        { entitlementId: string },
+        Array<{
+          appId?: string;
+          displayName?: string;
+          lastSyncedAt: number;
+          productId: string;
+          storeIdentifier: string;
+          subscriptionDuration?: string;
+          type: string;
+        }>,
+        Name
+      >;
+      getRateLimitStatus: FunctionReference<
+        "query",
+        "internal",
+        {},
+        Array<{
+          bucket: "customer" | "project";
+          maxRequests: number;
+          nextSlotAt: number | null;
+          remaining: number;
+          used: number;
+          windowMs: number;
+        }>,
+        Name
+      >;
+      getSubscriber: FunctionReference<
+        "query",
+        "internal",
+        { appUserId: string },
+        {
+          appUserId: string;
+          lastEventTimestampMs?: number;
+          lastSyncedAt: number;
+          rawSubscriber?: any;
+        } | null,
+        Name
+      >;
+      getSubscriberAliases: FunctionReference<
+        "query",
+        "internal",
+        { appUserId: string },
+        { aliases: Array<string>; appUserId: string },
+        Name
+      >;
+      getSubscription: FunctionReference<
+        "query",
+        "internal",
+        { appUserId: string; subscriptionId: string },
+        {
+          appUserId: string;
+          autoRenewalStatus?: string;
+          currentPeriodEndsAt?: number;
+          currentPeriodStartsAt?: number;
+          entitlementIds: Array<string>;
+          environment?: string;
+          givesAccess: boolean;
+          hasBillingIssue: boolean;
+          lastSyncedAt: number;
+          managementUrl?: string;
+          nextRenewalAt?: number;
+          periodType: "normal" | "trial";
+          productId?: string;
+          startsAt?: number;
+          status: string;
+          store: string;
+          storeSubscriptionIdentifier?: string;
+          subscriptionId: string;
+        } | null,
+        Name
+      >;
+      getSubscriptionStatus: FunctionReference<
+        "query",
+        "internal",
+        { appUserId: string; entitlementId: string },
+        {
+          entitlementId: string;
+          expiresDate?: string;
+          isActive: boolean;
+          status:
+            | "trial"
+            | "active"
+            | "grace_period"
+            | "billing_retry"
+            | "cancelled"
+            | "paused"
+            | "expired";
+        } | null,
+        Name
+      >;
+      getSubscriptionStatuses: FunctionReference<
+        "query",
+        "internal",
+        { appUserId: string },
+        Array<{
+          entitlementId: string;
+          expiresDate?: string;
+          isActive: boolean;
+          status:
+            | "trial"
+            | "active"
+            | "grace_period"
+            | "billing_retry"
+            | "cancelled"
+            | "paused"
+            | "expired";
+        }>,
+        Name
+      >;
+      getSubscriptions: FunctionReference<
+        "query",
+        "internal",
+        { appUserId: string },
+        Array<{
+          appUserId: string;
+          autoRenewalStatus?: string;
+          currentPeriodEndsAt?: number;
+          currentPeriodStartsAt?: number;
+          entitlementIds: Array<string>;
+          environment?: string;
+          givesAccess: boolean;
+          hasBillingIssue: boolean;
+          lastSyncedAt: number;
+          managementUrl?: string;
+          nextRenewalAt?: number;
+          periodType: "normal" | "trial";
+          productId?: string;
+          startsAt?: number;
+          status: string;
+          store: string;
+          storeSubscriptionIdentifier?: string;
+          subscriptionId: string;
+        }>,
+        Name
+      >;
+      getSyncLease: FunctionReference<
+        "query",
+        "internal",
+        { appUserId: string },
+        {
+          appUserId: string;
+          completedAt?: number;
+          running: boolean;
+          startedAt?: number;
+          trailingSyncPending: boolean;
+        } | null,
+        Name
+      >;
+      getTransaction: FunctionReference<
+        "query",
+        "internal",
+        { transactionId: string },
+        {
+          appUserId: string;
+          countryCode?: string;
+          currency?: string;
+          environment?: string;
+          lastEventTimestampMs?: number;
+          originalTransactionId?: string;
+          price?: number;
+          priceInPurchasedCurrency?: number;
+          productId?: string;
+          purchaseType?: string;
+          purchasedAtMs: number;
+          refundedAtMs?: number;
+          source: "webhook" | "rest_api";
+          status: "completed" | "refunded";
+          store?: string;
+          takehomePercentage?: number;
+          transactionId: string;
+          updatedAt: number;
+        } | null,
+        Name
+      >;
+      getUnknownEntitlementIds: FunctionReference<
+        "query",
+        "internal",
+        {},
+        Array<string>,
+        Name
+      >;
+      getVirtualCurrencyBalance: FunctionReference<
+        "query",
+        "internal",
+        { appUserId: string; currencyCode: string },
+        {
+          appUserId: string;
+          balance: number;
+          currencyCode: string;
+          lastSyncedAt: number;
+        } | null,
+        Name
+      >;
+      getVirtualCurrencyBalances: FunctionReference<
+        "query",
+        "internal",
+        { appUserId: string },
+        Array<{
+          appUserId: string;
+          balance: number;
+          currencyCode: string;
+          lastSyncedAt: number;
+        }>,
+        Name
+      >;
+      getVirtualCurrencyBalancesWithDefinitions: FunctionReference<
+        "query",
+        "internal",
+        { appUserId: string },
+        Array<{
+          appUserId: string;
+          balance: number;
+          currencyCode: string;
+          description?: string;
+          lastSyncedAt: number;
+          name?: string;
+        }>,
+        Name
+      >;
+      getVirtualCurrencyDefinitions: FunctionReference<
+        "query",
+        "internal",
+        {},
+        Array<{
+          currencyCode: string;
+          description?: string;
+          lastSyncedAt: number;
+          name: string;
+        }>,
+        Name
+      >;
+      getVirtualCurrencyPurchase: FunctionReference<
+        "query",
+        "internal",
+        { purchaseId: string },
+        {
+          adjustments: Array<{ amount: number; currencyCode: string }>;
+          appUserId: string;
+          attemptExpiresAt?: number;
+          attempts: number;
+          completedAt?: number;
+          createdAt: number;
+          fulfilArgs: any;
+          fulfilHandle: string;
+          lastError?: string;
+          purchaseId: string;
+          purchaseKey?: string;
+          refundedAt?: number;
+          retryJobId?: string;
+          spendSentAt?: number;
+          spentAt?: number;
+          status: "pending" | "spent" | "fulfilled" | "failed";
+          updatedAt: number;
+        } | null,
+        Name
+      >;
+      hasActiveEntitlement: FunctionReference<
+        "query",
+        "internal",
         { appUserId: string; entitlementId: string },
         boolean,
         Name
       >;
+      listBackfillJobs: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            completedAt?: number;
+            customersFailed: number;
+            customersSynced: number;
+            jobId: string;
+            lastError?: string;
+            nextPage?: string;
+            pageOffset: number;
+            pageSize: number;
+            pagesProcessed: number;
+            rateLimitedPauses: number;
+            startedAt: number;
+            status: "running" | "completed" | "failed" | "cancelled";
+            updatedAt: number;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      listDeadLetters: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          status?: "pending" | "resolved";
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            appUserId?: string;
+            attempts: number;
+            deadLetteredAt: number;
+            event: any;
+            eventType: string;
+            lastError?: string;
+            lastFailedAt: number;
+            resolvedAt?: number;
+            revenuecatEventId: string;
+            status: "pending" | "resolved";
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      listDriftReportEntries: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          reportId: string;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            appUserId: string;
+            error?: string;
+            expiryMismatches: Array<{
+              cachedExpiresDate?: string;
+              entitlementId: string;
+              revenueCatExpiresDate?: string;
+            }>;
+            extra: Array<{ entitlementId: string; expiresDate?: string }>;
+            missing: Array<{ entitlementId: string; expiresDate?: string }>;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      listDriftReports: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            completedAt?: number;
+            expiryMismatches: number;
+            extraEntitlements: number;
+            lastError?: string;
+            missingEntitlements: number;
+            reportId: string;
+            sampleSize?: number;
+            startedAt: number;
+            status: "running" | "completed" | "failed";
+            subscribersChecked: number;
+            subscribersFailed: number;
+            subscribersTotal: number;
+            subscribersWithDrift: number;
+            truncated: boolean;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      listEventLogByAppUserId: FunctionReference<
+        "query",
+        "internal",
+        {
+          appUserId: string;
+          endMs?: number;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          startMs?: number;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            appUserId?: string;
+            deliveries?: number;
+            error?: string;
+            event: any;
+            eventTimestampMs: number;
+            eventType: string;
+            lastReceivedAt?: number;
+            receivedAt: number;
+            revenuecatEventId: string;
+            status: "received" | "processing" | "processed" | "failed";
+            statusHistory: Array<{
+              at: number;
+              error?: string;
+              rateLimited?: boolean;
+              status: "received" | "processing" | "processed" | "failed";
+            }>;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      listEventLogByEventType: FunctionReference<
+        "query",
+        "internal",
+        {
+          endMs?: number;
+          eventType: string;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          startMs?: number;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            appUserId?: string;
+            deliveries?: number;
+            error?: string;
+            event: any;
+            eventTimestampMs: number;
+            eventType: string;
+            lastReceivedAt?: number;
+            receivedAt: number;
+            revenuecatEventId: string;
+            status: "received" | "processing" | "processed" | "failed";
+            statusHistory: Array<{
+              at: number;
+              error?: string;
+              rateLimited?: boolean;
+              status: "received" | "processing" | "processed" | "failed";
+            }>;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      listEventLogByTimeRange: FunctionReference<
+        "query",
+        "internal",
+        {
+          endMs?: number;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          startMs?: number;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            appUserId?: string;
+            deliveries?: number;
+            error?: string;
+            event: any;
+            eventTimestampMs: number;
+            eventType: string;
+            lastReceivedAt?: number;
+            receivedAt: number;
+            revenuecatEventId: string;
+            status: "received" | "processing" | "processed" | "failed";
+            statusHistory: Array<{
+              at: number;
+              error?: string;
+              rateLimited?: boolean;
+              status: "received" | "processing" | "processed" | "failed";
+            }>;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      listPendingEntitlementChanges: FunctionReference<
+        "query",
+        "internal",
+        { limit: number },
+        Array<{
+          after: {
+            expiresDate?: string;
+            isActive: boolean;
+            status?:
+              | "trial"
+              | "active"
+              | "grace_period"
+              | "billing_retry"
+              | "cancelled"
+              | "paused"
+              | "expired";
+          } | null;
+          appUserId: string;
+          before: {
+            expiresDate?: string;
+            isActive: boolean;
+            status?:
+              | "trial"
+              | "active"
+              | "grace_period"
+              | "billing_retry"
+              | "cancelled"
+              | "paused"
+              | "expired";
+          } | null;
+          entitlementId: string;
+          id: string;
+          kind: "granted" | "revoked" | "expiry_changed";
+        }>,
+        Name
+      >;
+      listReconciliationDrift: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            appUserId: string;
+            changes: Array<{
+              after: {
+                expiresDate?: string;
+                isActive: boolean;
+                status?:
+                  | "trial"
+                  | "active"
+                  | "grace_period"
+                  | "billing_retry"
+                  | "cancelled"
+                  | "paused"
+                  | "expired";
+              } | null;
+              before: {
+                expiresDate?: string;
+                isActive: boolean;
+                status?:
+                  | "trial"
+                  | "active"
+                  | "grace_period"
+                  | "billing_retry"
+                  | "cancelled"
+                  | "paused"
+                  | "expired";
+              } | null;
+              entitlementId: string;
+            }>;
+            detectedAt: number;
+            reason: "stale" | "expiring";
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      listReconciliationDriftByAppUserId: FunctionReference<
+        "query",
+        "internal",
+        {
+          appUserId: string;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            appUserId: string;
+            changes: Array<{
+              after: {
+                expiresDate?: string;
+                isActive: boolean;
+                status?:
+                  | "trial"
+                  | "active"
+                  | "grace_period"
+                  | "billing_retry"
+                  | "cancelled"
+                  | "paused"
+                  | "expired";
+              } | null;
+              before: {
+                expiresDate?: string;
+                isActive: boolean;
+                status?:
+                  | "trial"
+                  | "active"
+                  | "grace_period"
+                  | "billing_retry"
+                  | "cancelled"
+                  | "paused"
+                  | "expired";
+              } | null;
+              entitlementId: string;
+            }>;
+            detectedAt: number;
+            reason: "stale" | "expiring";
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      listSubscriberIds: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<string>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      listTransactionsByAppUserId: FunctionReference<
+        "query",
+        "internal",
+        {
+          appUserId: string;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            appUserId: string;
+            countryCode?: string;
+            currency?: string;
+            environment?: string;
+            lastEventTimestampMs?: number;
+            originalTransactionId?: string;
+            price?: number;
+            priceInPurchasedCurrency?: number;
+            productId?: string;
+            purchaseType?: string;
+            purchasedAtMs: number;
+            refundedAtMs?: number;
+            source: "webhook" | "rest_api";
+            status: "completed" | "refunded";
+            store?: string;
+            takehomePercentage?: number;
+            transactionId: string;
+            updatedAt: number;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      listTransactionsByOriginalTransactionId: FunctionReference<
+        "query",
+        "internal",
+        {
+          originalTransactionId: string;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            appUserId: string;
+            countryCode?: string;
+            currency?: string;
+            environment?: string;
+            lastEventTimestampMs?: number;
+            originalTransactionId?: string;
+            price?: number;
+            priceInPurchasedCurrency?: number;
+            productId?: string;
+            purchaseType?: string;
+            purchasedAtMs: number;
+            refundedAtMs?: number;
+            source: "webhook" | "rest_api";
+            status: "completed" | "refunded";
+            store?: string;
+            takehomePercentage?: number;
+            transactionId: string;
+            updatedAt: number;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      listVirtualCurrencyPurchasesByStatus: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          status: "pending" | "spent" | "fulfilled" | "failed";
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            adjustments: Array<{ amount: number; currencyCode: string }>;
+            appUserId: string;
+            attemptExpiresAt?: number;
+            attempts: number;
+            completedAt?: number;
+            createdAt: number;
+            fulfilArgs: any;
+            fulfilHandle: string;
+            lastError?: string;
+            purchaseId: string;
+            purchaseKey?: string;
+            refundedAt?: number;
+            retryJobId?: string;
+            spendSentAt?: number;
+            spentAt?: number;
+            status: "pending" | "spent" | "fulfilled" | "failed";
+            updatedAt: number;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      listVirtualCurrencyTransactionsByAppUserId: FunctionReference<
+        "query",
+        "internal",
+        {
+          appUserId: string;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            amount: number;
+            appUserId: string;
+            currencyCode: string;
+            idempotencyKey?: string;
+            occurredAt: number;
+            origin: "webhook" | "rest_api";
+            source?: string;
+            transactionId?: string;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      listVirtualCurrencyTransactionsByCurrency: FunctionReference<
+        "query",
+        "internal",
+        {
+          appUserId: string;
+          currencyCode: string;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            amount: number;
+            appUserId: string;
+            currencyCode: string;
+            idempotencyKey?: string;
+            occurredAt: number;
+            origin: "webhook" | "rest_api";
+            source?: string;
+            transactionId?: string;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
     };
   };
@@ -0,0 +1,166 @@
+import { describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+
+type TestConvex = ReturnType<typeof initConvexTest>;
+
+function sync(
+  t: TestConvex,
+  appUserId: string,
+  lastSyncedAt: number,
+  entitlements: {
+    entitlementId: string;
+    isActive: boolean;
+    expiresDate?: string;
+  }[],
+) {
+  return t.mutation(api.private.syncSubscriberAndEntitlements, {
+    appUserId,
+    lastSyncedAt,
+    entitlements,
+    subscriptions: [],
+  });
+}
+
+function rowsFor(t: TestConvex, appUserId: string) {
+  return t.run(async (ctx) => ({
+    subscribers: await ctx.db
+      .query("subscribers")
+      .withIndex("by_app_user_id", (q) => q.eq("appUserId", appUserId))
+      .collect(),
+    entitlements: await ctx.db
+      .query("entitlements")
+      .withIndex("by_app_user_id", (q) => q.eq("appUserId", appUserId))
+      .collect(),
+  }));
+}
+
+describe("subscriber aliases", () => {
+  test("moves an alias's rows onto the canonical ID", async () => {
+    const t = initConvexTest();
+    await sync(t, "$RCAnonymousID:abc", 1_000, [
+      { entitlementId: "pro", isActive: true },
+    ]);
+
+    const { merged } = await t.mutation(api.private.mergeSubscriberAliases, {
+      appUserId: "user_1",
+      aliases: ["$RCAnonymousID:abc"],
+    });
+    expect(merged).toEqual(["$RCAnonymousID:abc"]);
+
+    const canonical = await rowsFor(t, "user_1");
+    expect(canonical.subscribers).toHaveLength(1);
+    expect(canonical.entitlements.map((e) => e.entitlementId)).toEqual(["pro"]);
+    const alias = await rowsFor(t, "$RCAnonymousID:abc");
+    expect(alias.subscribers).toHaveLength(0);
+    expect(alias.entitlements).toHaveLength(0);
+  });
+
+  test("keeps the fresher entitlement when both IDs have one", async () => {
+    const t = initConvexTest();
+    await sync(t, "user_1", 2_000, [
+      {
+        entitlementId: "pro",
+        isActive: false,
+        expiresDate: "2026-01-01T00:00:00Z",
+      },
+    ]);
+    await sync(t, "anon", 1_000, [
+      {
+        entitlementId: "pro",
+        isActive: true,
+        expiresDate: "2027-01-01T00:00:00Z",
+      },
+    ]);
+
+    await t.mutation(api.private.mergeSubscriberAliases, {
+      appUserId: "user_1",
+      aliases: ["anon"],
+    });
+
+    const { subscribers, entitlements } = await rowsFor(t, "user_1");
+    expect(subscribers).toHaveLength(1);
+    expect(entitlements).toHaveLength(1);
+    expect(entitlements[0]).toMatchObject({
+      isActive: true,
+      expiresDate: "2027-01-01T00:00:00Z",
+    });
+  });
+
+  test("resolves reads and writes through an alias", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.private.mergeSubscriberAliases, {
+      appUserId: "user_1",
+      aliases: ["anon"],
+    });
+    await sync(t, "anon", 1_000, [{ entitlementId: "pro", isActive: true }]);
+
+    expect((await rowsFor(t, "anon")).entitlements).toHaveLength(0);
+    expect((await rowsFor(t, "user_1")).entitlements).toHaveLength(1);
+    expect(
+      await t.query(api.public.hasActiveEntitlement, {
+        appUserId: "anon",
+        entitlementId: "pro",
+      }),
+    ).toBe(true);
+    expect(
+      await t.query(api.public.getSubscriberAliases, { appUserId: "anon" }),
+    ).toEqual({ appUserId: "user_1", aliases: ["anon"] });
+  });
+
+  test("moves a long history over several mutations", async () => {
+    vi.useFakeTimers();
+    const t = initConvexTest();
+    const entitlements = Array.from({ length: 150 }, (_, i) => ({
+      entitlementId: `ent_${i}`,
+      isActive: true,
+    }));
+    await sync(t, "anon", 1_000, entitlements);
+
+    await t.mutation(api.private.mergeSubscriberAliases, {
+      appUserId: "user_1",
+      aliases: ["anon"],
+    });
+    expect((await rowsFor(t, "user_1")).entitlements).toHaveLength(100);
+    expect((await rowsFor(t, "anon")).entitlements).toHaveLength(50);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect((await rowsFor(t, "user_1")).entitlements).toHaveLength(150);
+    expect((await rowsFor(t, "anon")).entitlements).toHaveLength(0);
+    vi.useRealTimers();
+  });
+
+  test("collapses an existing identity onto a new canonical ID", async () => {
+    const t = initConvexTest();
+    await sync(t, "anon", 1_000, [{ entitlementId: "pro", isActive: true }]);
+    await t.mutation(api.private.mergeSubscriberAliases, {
+      appUserId: "user_1",
+      aliases: ["anon"],
+    });
+
+    // Merging the old canonical ID carries its aliases along
+    await t.mutation(api.private.mergeSubscriberAliases, {
+      appUserId: "user_2",
+      aliases: ["user_1"],
+    });
+
+    const { aliases } = await t.query(api.public.getSubscriberAliases, {
+      appUserId: "anon",
+    });
+    expect(aliases.sort()).toEqual(["anon", "user_1"]);
+    expect((await rowsFor(t, "user_2")).entitlements).toHaveLength(1);
+    expect((await rowsFor(t, "user_1")).entitlements).toHaveLength(0);
+
+    // Merging back makes the new ID canonical again without a self alias
+    await t.mutation(api.private.mergeSubscriberAliases, {
+      appUserId: "user_1",
+      aliases: ["user_2"],
+    });
+    const back = await t.query(api.public.getSubscriberAliases, {
+      appUserId: "anon",
+    });
+    expect(back.appUserId).toBe("user_1");
+    expect(back.aliases.sort()).toEqual(["anon", "user_2"]);
+    expect((await rowsFor(t, "user_1")).entitlements).toHaveLength(1);
+  });
+});
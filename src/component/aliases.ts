@@ -0,0 +1,303 @@
+import type { Doc } from "./_generated/dataModel.js";
+import type { MutationCtx, QueryCtx } from "./_generated/server.js";
+
+/**
+ * Subscriber alias resolution.
+ *
+ * RevenueCat merges customers when an anonymous user logs in (or via
+ * `Purchases.logIn` aliasing). The component keeps every cached row under one
+ * canonical app_user_id and records the other IDs in `subscriber_aliases`, so
+ * queries and writes using any of the IDs land on the same rows.
+ */
+
+/**
+ * Resolve an app_user_id to the canonical ID its rows are stored under.
+ * IDs without an alias resolve to themselves.
+ */
+export async function resolveAppUserId(
+  ctx: QueryCtx,
+  appUserId: string,
+): Promise<string> {
+  const alias = await ctx.db
+    .query("subscriber_aliases")
+    .withIndex("by_alias", (q) => q.eq("alias", appUserId))
+    .unique();
+  return alias?.appUserId ?? appUserId;
+}
+
+/**
+ * Rows of each per-user table moved per mutation. An alias with more is
+ * moved over follow-up mutations, so a merge never reads a long history in
+ * one transaction.
+ */
+const MOVE_ROWS_PAGE_SIZE = 100;
+
+/**
+ * Make `appUserId` canonical for itself and `aliases`, moving every cached
+ * row stored under an alias (or under IDs already aliased to one) onto it.
+ *
+ * Returns the IDs that were re-keyed, and those with rows left to move in
+ * follow-up mutations (see `moveRemainingRows`).
+ */
+export async function mergeAliases(
+  ctx: MutationCtx,
+  appUserId: string,
+  aliases: string[],
+): Promise<{ merged: string[]; unfinished: string[] }> {
+  // Collect the whole identity: the given IDs, their current canonical IDs,
+  // and every ID already aliased to one of those
+  const ids = new Set<string>([appUserId, ...aliases]);
+  for (const id of [...ids]) {
+    ids.add(await resolveAppUserId(ctx, id));
+  }
+  for (const id of [...ids]) {
+    const pointing = await ctx.db
+      .query("subscriber_aliases")
+      .withIndex("by_app_user_id", (q) => q.eq("appUserId", id))
+      .collect();
+    for (const row of pointing) ids.add(row.alias);
+  }
+  ids.delete(appUserId);
+
+  const now = Date.now();
+  const ownAlias = await ctx.db
+    .query("subscriber_aliases")
+    .withIndex("by_alias", (q) => q.eq("alias", appUserId))
+    .unique();
+  if (ownAlias) await ctx.db.delete(ownAlias._id);
+
+  const merged: string[] = [];
+  const unfinished: string[] = [];
+  for (const alias of ids) {
+    const existing = await ctx.db
+      .query("subscriber_aliases")
+      .withIndex("by_alias", (q) => q.eq("alias", alias))
+      .unique();
+    if (!existing) {
+      await ctx.db.insert("subscriber_aliases", {
+        alias,
+        appUserId,
+        updatedAt: now,
+      });
+    } else if (existing.appUserId !== appUserId) {
+      await ctx.db.patch(existing._id, { appUserId, updatedAt: now });
+    }
+
+    const { moved, isDone } = await moveRows(ctx, alias, appUserId);
+    if (moved) merged.push(alias);
+    if (!isDone) unfinished.push(alias);
+  }
+
+  return { merged, unfinished };
+}
+
+/**
+ * Move the next page of rows left under an alias onto its canonical ID,
+ * resolved afresh in case a later merge changed it. Returns whether all
+ * were moved; an ID that is no longer an alias has nothing to move.
+ */
+export async function moveRemainingRows(
+  ctx: MutationCtx,
+  alias: string,
+): Promise<boolean> {
+  const appUserId = await resolveAppUserId(ctx, alias);
+  if (appUserId === alias) return true;
+  const { isDone } = await moveRows(ctx, alias, appUserId);
+  return isDone;
+}
+
+/**
+ * Re-key a page of an alias's cached rows onto the canonical ID. Where both
+ * IDs have a row for the same thing, the fresher one is kept. Every row
+ * read leaves the alias's index range, so the next page starts over.
+ */
+async function moveRows(
+  ctx: MutationCtx,
+  from: string,
+  to: string,
+): Promise<{ moved: boolean; isDone: boolean }> {
+  let moved = false;
+  let isDone = true;
+
+  const fromSubscriber = await ctx.db
+    .query("subscribers")
+    .withIndex("by_app_user_id", (q) => q.eq("appUserId", from))
+    .unique();
+  if (fromSubscriber) {
+    moved = true;
+    const toSubscriber = await ctx.db
+      .query("subscribers")
+      .withIndex("by_app_user_id", (q) => q.eq("appUserId", to))
+      .unique();
+    if (!toSubscriber) {
+      await ctx.db.patch(fromSubscriber._id, { appUserId: to });
+    } else {
+      if (
+        (fromSubscriber.lastEventTimestampMs ?? 0) >
+        (toSubscriber.lastEventTimestampMs ?? 0)
+      ) {
+        await ctx.db.patch(toSubscriber._id, {
+          lastEventTimestampMs: fromSubscriber.lastEventTimestampMs,
+        });
+      }
+      await ctx.db.delete(fromSubscriber._id);
+    }
+  }
+
+  const entitlements = await ctx.db
+    .query("entitlements")
+    .withIndex("by_app_user_id", (q) => q.eq("appUserId", from))
+    .take(MOVE_ROWS_PAGE_SIZE);
+  isDone &&= entitlements.length < MOVE_ROWS_PAGE_SIZE;
+  for (const ent of entitlements) {
+    moved = true;
+    const existing = await ctx.db
+      .query("entitlements")
+      .withIndex("by_app_user_id_and_entitlement", (q) =>
+        q.eq("appUserId", to).eq("entitlementId", ent.entitlementId),
+      )
+      .unique();
+    if (!existing) {
+      await ctx.db.patch(ent._id, { appUserId: to });
+    } else if (compareEntitlements(ent, existing) > 0) {
+      await ctx.db.delete(existing._id);
+      await ctx.db.patch(ent._id, { appUserId: to });
+    } else {
+      await ctx.db.delete(ent._id);
+    }
+  }
+
+  const subscriptions = await ctx.db
+    .query("subscriptions")
+    .withIndex("by_app_user_id", (q) => q.eq("appUserId", from))
+    .take(MOVE_ROWS_PAGE_SIZE);
+  isDone &&= subscriptions.length < MOVE_ROWS_PAGE_SIZE;
+  for (const subscription of subscriptions) {
+    moved = true;
+    const existing = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_app_user_id_and_subscription", (q) =>
+        q
+          .eq("appUserId", to)
+          .eq("subscriptionId", subscription.subscriptionId),
+      )
+      .unique();
+    if (!existing || subscription.lastSyncedAt > existing.lastSyncedAt) {
+      if (existing) await ctx.db.delete(existing._id);
+      await ctx.db.patch(subscription._id, { appUserId: to });
+    } else {
+      await ctx.db.delete(subscription._id);
+    }
+  }
+
+  const balances = await ctx.db
+    .query("virtual_currency_balances")
+    .withIndex("by_app_user_id", (q) => q.eq("appUserId", from))
+    .take(MOVE_ROWS_PAGE_SIZE);
+  isDone &&= balances.length < MOVE_ROWS_PAGE_SIZE;
+  for (const balance of balances) {
+    moved = true;
+    const existing = await ctx.db
+      .query("virtual_currency_balances")
+      .withIndex("by_app_user_id_and_currency", (q) =>
+        q.eq("appUserId", to).eq("currencyCode", balance.currencyCode),
+      )
+      .unique();
+    if (!existing || balance.lastSyncedAt > existing.lastSyncedAt) {
+      if (existing) await ctx.db.delete(existing._id);
+      await ctx.db.patch(balance._id, { appUserId: to });
+    } else {
+      await ctx.db.delete(balance._id);
+    }
+  }
+
+  const transactions = await ctx.db
+    .query("transactions")
+    .withIndex("by_app_user_id_and_purchased_at", (q) =>
+      q.eq("appUserId", from),
+    )
+    .take(MOVE_ROWS_PAGE_SIZE);
+  isDone &&= transactions.length < MOVE_ROWS_PAGE_SIZE;
+  for (const transaction of transactions) {
+    moved = true;
+    await ctx.db.patch(transaction._id, { appUserId: to });
+  }
+
+  const ledger = await ctx.db
+    .query("virtual_currency_transactions")
+    .withIndex("by_app_user_id_and_occurred_at", (q) =>
+      q.eq("appUserId", from),
+    )
+    .take(MOVE_ROWS_PAGE_SIZE);
+  isDone &&= ledger.length < MOVE_ROWS_PAGE_SIZE;
+  for (const row of ledger) {
+    moved = true;
+    await ctx.db.patch(row._id, { appUserId: to });
+  }
+
+  const outbox = await ctx.db
+    .query("entitlement_change_outbox")
+    .withIndex("by_app_user_id", (q) => q.eq("appUserId", from))
+    .take(MOVE_ROWS_PAGE_SIZE);
+  isDone &&= outbox.length < MOVE_ROWS_PAGE_SIZE;
+  for (const row of outbox) {
+    moved = true;
+    await ctx.db.patch(row._id, { appUserId: to });
+  }
+
+  const drift = await ctx.db
+    .query("reconciliation_drift")
+    .withIndex("by_app_user_id_and_detected_at", (q) =>
+      q.eq("appUserId", from),
+    )
+    .take(MOVE_ROWS_PAGE_SIZE);
+  isDone &&= drift.length < MOVE_ROWS_PAGE_SIZE;
+  for (const row of drift) {
+    moved = true;
+    await ctx.db.patch(row._id, { appUserId: to });
+  }
+
+  const holds = await ctx.db
+    .query("virtual_currency_holds")
+    .withIndex("by_app_user_id", (q) => q.eq("appUserId", from))
+    .take(MOVE_ROWS_PAGE_SIZE);
+  isDone &&= holds.length < MOVE_ROWS_PAGE_SIZE;
+  for (const hold of holds) {
+    moved = true;
+    await ctx.db.patch(hold._id, { appUserId: to });
+  }
+
+  const purchases = await ctx.db
+    .query("virtual_currency_purchases")
+    .withIndex("by_app_user_id", (q) => q.eq("appUserId", from))
+    .take(MOVE_ROWS_PAGE_SIZE);
+  isDone &&= purchases.length < MOVE_ROWS_PAGE_SIZE;
+  for (const purchase of purchases) {
+    moved = true;
+    await ctx.db.patch(purchase._id, { appUserId: to });
+  }
+
+  // Syncs are coordinated on the canonical ID's lease from now on
+  const lease = await ctx.db
+    .query("sync_leases")
+    .withIndex("by_app_user_id", (q) => q.eq("appUserId", from))
+    .unique();
+  if (lease) await ctx.db.delete(lease._id);
+
+  return { moved, isDone };
+}
+
+/**
+ * Order two rows for the same entitlement: active beats inactive, then the
+ * later expiration (no expiration = lifetime), then the more recent sync.
+ */
+function compareEntitlements(
+  a: Doc<"entitlements">,
+  b: Doc<"entitlements">,
+): number {
+  if (a.isActive !== b.isActive) return a.isActive ? 1 : -1;
+  const expiresA = a.expiresDate ? Date.parse(a.expiresDate) : Infinity;
+  const expiresB = b.expiresDate ? Date.parse(b.expiresDate) : Infinity;
+  if (expiresA !== expiresB) return expiresA > expiresB ? 1 : -1;
+  return a.lastSyncedAt - b.lastSyncedAt;
+}
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import {
+  fakeProject,
+  hostApi,
+  initConvexTest,
+  stubRevenueCat,
+} from "./setup.test.js";
+
+type TestConvex = ReturnType<typeof initConvexTest>;
+
+function event(id: string) {
+  return {
+    id,
+    type: "INITIAL_PURCHASE",
+    event_timestamp_ms: 1_000_000,
+    app_user_id: "user_1",
+  };
+}
+
+function deliver(t: TestConvex, id: string) {
+  return t.action(hostApi.receiveWebhook, {
+    event: event(id),
+    config: { deadLetterAfterAttempts: 2 },
+  });
+}
+
+function getDeadLetter(t: TestConvex, revenuecatEventId: string) {
+  return t.query(api.public.getDeadLetter, { revenuecatEventId });
+}
+
+function refuseCustomers() {
+  stubRevenueCat(() => new Response("{}", { status: 400 }));
+}
+
+describe("webhook dead letters", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  test("dead-letters an event once it has failed often enough", async () => {
+    const t = initConvexTest();
+    refuseCustomers();
+
+    expect((await deliver(t, "evt_1")).status).toBe(500);
+    expect(await getDeadLetter(t, "evt_1")).toBeNull();
+
+    vi.setSystemTime(2_000_000);
+    expect((await deliver(t, "evt_1")).status).toBe(500);
+    expect(await getDeadLetter(t, "evt_1")).toMatchObject({
+      eventType: "INITIAL_PURCHASE",
+      appUserId: "user_1",
+      status: "pending",
+      attempts: 2,
+      lastError: "Failed to fetch customer user_1 from RevenueCat",
+      event: event("evt_1"),
+    });
+
+    // A later failure only refreshes the count
+    vi.setSystemTime(3_000_000);
+    await deliver(t, "evt_1");
+    expect(await getDeadLetter(t, "evt_1")).toMatchObject({
+      attempts: 3,
+      lastFailedAt: 3_000_000,
+    });
+  });
+
+  test("doesn't count rate-limited failures", async () => {
+    const t = initConvexTest();
+    const requests = stubRevenueCat(fakeProject({ user_1: [] }));
+    await t.mutation(api.private.setRateLimits, {
+      limits: { customer: { maxRequests: 1, windowMs: 60_000 } },
+    });
+
+    for (const now of [1_000_000, 1_000_001, 1_000_002]) {
+      vi.setSystemTime(now);
+      expect((await deliver(t, "evt_1")).status).toBe(429);
+    }
+    // The one token covers the first request of the first delivery only
+    expect(requests).toHaveLength(1);
+    expect(await getDeadLetter(t, "evt_1")).toBeNull();
+  });
+
+  test("replays dead letters a page at a time", async () => {
+    const t = initConvexTest();
+    refuseCustomers();
+    for (const [i, id] of ["evt_1", "evt_2"].entries()) {
+      vi.setSystemTime(1_000_000 + i * 1_000);
+      await deliver(t, id);
+      await deliver(t, id);
+    }
+    const pending = await t.query(api.public.listDeadLetters, {
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    expect(pending.page.map((d) => d.revenuecatEventId)).toEqual([
+      "evt_1",
+      "evt_2",
+    ]);
+
+    // Events that fail again stay pending, so a pass pages past them
+    vi.setSystemTime(3_000_000);
+    const first = await t.action(hostApi.replayDeadLetters, { limit: 1 });
+    expect(first).toMatchObject({ replayed: 0, failed: 1, isDone: false });
+    const second = await t.action(hostApi.replayDeadLetters, {
+      limit: 1,
+      cursor: first.continueCursor,
+    });
+    expect(second).toMatchObject({ replayed: 0, failed: 1 });
+    expect(second.results[0]).toMatchObject({ revenuecatEventId: "evt_2" });
+    expect(await getDeadLetter(t, "evt_2")).toMatchObject({ attempts: 3 });
+
+    stubRevenueCat(fakeProject({ user_1: [{ id: "entl_pro" }] }));
+    vi.setSystemTime(4_000_000);
+    const retry = await t.action(hostApi.replayDeadLetters, {});
+    expect(retry).toMatchObject({ replayed: 2, failed: 0, isDone: true });
+    for (const id of ["evt_1", "evt_2"]) {
+      expect(await getDeadLetter(t, id)).toMatchObject({
+        status: "resolved",
+        resolvedAt: 4_000_000,
+      });
+    }
+    expect(
+      await t.query(api.public.hasActiveEntitlement, {
+        appUserId: "user_1",
+        entitlementId: "pro",
+      }),
+    ).toBe(true);
+    const resolved = await t.query(api.public.listDeadLetters, {
+      status: "resolved",
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    expect(resolved.page).toHaveLength(2);
+  });
+});
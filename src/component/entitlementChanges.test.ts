@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import {
+  entitlementChangeCallbacks,
+  fakeProject,
+  hostApi,
+  initConvexTest,
+  stubRevenueCat,
+} from "./setup.test.js";
+
+const { onEntitlementGranted, onEntitlementRevoked } =
+  entitlementChangeCallbacks;
+
+type TestConvex = ReturnType<typeof initConvexTest>;
+
+function pendingChanges(t: TestConvex) {
+  return t.query(api.public.listPendingEntitlementChanges, { limit: 100 });
+}
+
+async function deliver(t: TestConvex) {
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+}
+
+describe("entitlement change outbox", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  test("delivers the changes of a manual sync", async () => {
+    const t = initConvexTest();
+    const customers = { user_1: [{ id: "entl_pro" }] };
+    stubRevenueCat(fakeProject(customers));
+
+    await t.action(hostApi.syncSubscriber, { appUserId: "user_1" });
+    expect(await pendingChanges(t)).toMatchObject([
+      { appUserId: "user_1", kind: "granted", entitlementId: "pro" },
+    ]);
+
+    await deliver(t);
+    expect(onEntitlementGranted).toHaveBeenCalledTimes(1);
+    expect(onEntitlementGranted.mock.calls[0][1]).toMatchObject({
+      appUserId: "user_1",
+      entitlementId: "pro",
+      before: null,
+      after: { isActive: true },
+    });
+    expect(await pendingChanges(t)).toEqual([]);
+
+    // A sync that changes nothing queues nothing
+    vi.setSystemTime(2_000_000);
+    await t.action(hostApi.syncSubscriber, { appUserId: "user_1" });
+    expect(await pendingChanges(t)).toEqual([]);
+
+    customers.user_1 = [];
+    vi.setSystemTime(3_000_000);
+    await t.action(hostApi.syncSubscriber, { appUserId: "user_1" });
+    await deliver(t);
+    expect(onEntitlementRevoked).toHaveBeenCalledTimes(1);
+    expect(onEntitlementRevoked.mock.calls[0][1]).toMatchObject({
+      entitlementId: "pro",
+      before: { isActive: true },
+      after: null,
+    });
+    expect(await pendingChanges(t)).toEqual([]);
+  });
+
+  test("delivers the changes of a poll", async () => {
+    const t = initConvexTest();
+    stubRevenueCat(fakeProject({ user_1: [{ id: "entl_pro" }] }));
+
+    const result = await t.action(hostApi.pollForEntitlement, {
+      appUserId: "user_1",
+      entitlementId: "pro",
+    });
+    expect(result.found).toBe(true);
+
+    await deliver(t);
+    expect(onEntitlementGranted).toHaveBeenCalledTimes(1);
+    expect(onEntitlementGranted.mock.calls[0][1]).toMatchObject({
+      appUserId: "user_1",
+      entitlementId: "pro",
+    });
+    expect(await pendingChanges(t)).toEqual([]);
+  });
+
+  test("delivers the changes of a webhook", async () => {
+    const t = initConvexTest();
+    stubRevenueCat(fakeProject({ user_1: [{ id: "entl_pro" }] }));
+
+    const response = await t.action(hostApi.receiveWebhook, {
+      event: {
+        id: "evt_1",
+        type: "INITIAL_PURCHASE",
+        event_timestamp_ms: 1_000_000,
+        app_user_id: "user_1",
+      },
+    });
+    expect(response.status).toBe(200);
+
+    await deliver(t);
+    expect(onEntitlementGranted).toHaveBeenCalledTimes(1);
+    expect(onEntitlementGranted.mock.calls[0][1]).toMatchObject({
+      appUserId: "user_1",
+      entitlementId: "pro",
+    });
+    expect(await pendingChanges(t)).toEqual([]);
+  });
+
+  test("keeps changes written before a worker is registered", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.private.syncSubscriberAndEntitlements, {
+      appUserId: "user_1",
+      lastSyncedAt: 1_000_000,
+      entitlements: [{ entitlementId: "pro", isActive: true }],
+      subscriptions: [],
+    });
+    expect(await pendingChanges(t)).toHaveLength(1);
+
+    // The next client call registers the worker, which delivers them
+    stubRevenueCat(fakeProject({ user_1: [{ id: "entl_pro" }] }));
+    await t.action(hostApi.syncSubscriber, { appUserId: "user_1" });
+    await deliver(t);
+    expect(onEntitlementGranted).toHaveBeenCalledTimes(1);
+    expect(await pendingChanges(t)).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import {
+  fakeProject,
+  hostApi,
+  initConvexTest,
+  stubRevenueCat,
+  type RevenueCatRequest,
+} from "./setup.test.js";
+
+describe("entitlement definitions cache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  test("refetches an unknown entitlement ID once per refresh", async () => {
+    const t = initConvexTest();
+    const customers = { user_1: [{ id: "entl_pro" }, { id: "entl_gone" }] };
+    const project = fakeProject(customers);
+    // The project no longer defines "entl_gone"
+    const requests = stubRevenueCat((request: RevenueCatRequest) => {
+      const result: any = project(request);
+      if (!request.path.includes("/entitlements?")) return result;
+      return {
+        ...result,
+        items: result.items.filter((item: any) => item.id !== "entl_gone"),
+      };
+    });
+    const definitionFetches = () =>
+      requests.filter((request) => request.path.includes("/entitlements?"))
+        .length;
+    const sync = async (now: number) => {
+      vi.setSystemTime(now);
+      return await t.action(hostApi.syncSubscriber, { appUserId: "user_1" });
+    };
+
+    await sync(1_000_000);
+    expect(definitionFetches()).toBe(1);
+    expect(await t.query(api.public.getUnknownEntitlementIds, {})).toEqual([
+      "entl_gone",
+    ]);
+
+    // Known to be unknown, so later syncs use the cache as it is
+    const { entitlements } = await sync(1_010_000);
+    expect(definitionFetches()).toBe(1);
+    expect(
+      entitlements
+        .map((ent: { entitlementId: string }) => ent.entitlementId)
+        .sort(),
+    ).toEqual(["entl_gone", "pro"]);
+
+    // A new ID refetches the definitions, which settles the unknown ones
+    customers.user_1.push({ id: "entl_plus" });
+    await sync(1_020_000);
+    expect(definitionFetches()).toBe(2);
+    expect(await t.query(api.public.getUnknownEntitlementIds, {})).toEqual([
+      "entl_gone",
+    ]);
+
+    // The hourly refresh refetches them anyway
+    await sync(1_020_000 + 60 * 60 * 1000);
+    expect(definitionFetches()).toBe(3);
+  });
+});
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import {
+  fakeProject,
+  hostApi,
+  initConvexTest,
+  stubRevenueCat,
+  type RevenueCatRequest,
+} from "./setup.test.js";
+
+const EVENT = {
+  id: "evt_1",
+  type: "INITIAL_PURCHASE",
+  event_timestamp_ms: 1_000_000,
+  app_user_id: "user_1",
+};
+
+type TestConvex = ReturnType<typeof initConvexTest>;
+
+function getLogEntry(t: TestConvex) {
+  return t.query(api.public.getEventLogEntry, { revenuecatEventId: "evt_1" });
+}
+
+describe("webhook event log", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  test("logs a delivery and counts redeliveries", async () => {
+    const t = initConvexTest();
+    stubRevenueCat(fakeProject({ user_1: [{ id: "entl_pro" }] }));
+
+    expect(
+      (await t.action(hostApi.receiveWebhook, { event: EVENT })).status,
+    ).toBe(200);
+    const entry = await getLogEntry(t);
+    expect(entry).toMatchObject({
+      eventType: "INITIAL_PURCHASE",
+      appUserId: "user_1",
+      status: "processed",
+      deliveries: 1,
+      event: EVENT,
+    });
+    expect(entry?.statusHistory.map((change) => change.status)).toEqual([
+      "received",
+      "processing",
+      "processed",
+    ]);
+
+    vi.setSystemTime(2_000_000);
+    const redelivery = await t.action(hostApi.receiveWebhook, { event: EVENT });
+    expect(JSON.parse(redelivery.body)).toMatchObject({ duplicate: true });
+    const redelivered = await getLogEntry(t);
+    expect(redelivered).toMatchObject({
+      deliveries: 2,
+      receivedAt: 1_000_000,
+      lastReceivedAt: 2_000_000,
+    });
+    expect(redelivered?.statusHistory).toEqual(entry?.statusHistory);
+  });
+
+  test("records a failed attempt and the retry that succeeds", async () => {
+    const t = initConvexTest();
+    const project = fakeProject({ user_1: [{ id: "entl_pro" }] });
+    let failing = true;
+    stubRevenueCat((request: RevenueCatRequest) =>
+      failing ? new Response("{}", { status: 400 }) : project(request),
+    );
+
+    expect(
+      (await t.action(hostApi.receiveWebhook, { event: EVENT })).status,
+    ).toBe(500);
+    expect(await getLogEntry(t)).toMatchObject({
+      status: "failed",
+      error: "Failed to fetch customer user_1 from RevenueCat",
+    });
+
+    failing = false;
+    vi.setSystemTime(2_000_000);
+    expect(
+      (await t.action(hostApi.receiveWebhook, { event: EVENT })).status,
+    ).toBe(200);
+    const entry = await getLogEntry(t);
+    expect(entry?.status).toBe("processed");
+    expect(entry?.statusHistory.map((change) => change.status)).toEqual([
+      "received",
+      "processing",
+      "failed",
+      "processing",
+      "processed",
+    ]);
+  });
+
+  test("pages through a user's events in a time range", async () => {
+    const t = initConvexTest();
+    stubRevenueCat(fakeProject({ user_1: [{ id: "entl_pro" }] }));
+    for (const [id, timestamp] of [
+      ["evt_1", 1_000_000],
+      ["evt_2", 2_000_000],
+      ["evt_3", 3_000_000],
+    ] as const) {
+      await t.action(hostApi.receiveWebhook, {
+        event: { ...EVENT, id, type: "RENEWAL", event_timestamp_ms: timestamp },
+      });
+    }
+
+    const { page } = await t.query(api.public.listEventLogByAppUserId, {
+      appUserId: "user_1",
+      startMs: 2_000_000,
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    expect(page.map((entry) => entry.revenuecatEventId)).toEqual([
+      "evt_3",
+      "evt_2",
+    ]);
+  });
+});
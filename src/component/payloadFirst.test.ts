@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import {
+  fakeProject,
+  hostApi,
+  initConvexTest,
+  stubRevenueCat,
+} from "./setup.test.js";
+
+const HOUR = 60 * 60 * 1000;
+
+type TestConvex = ReturnType<typeof initConvexTest>;
+
+function deliver(t: TestConvex, event: Record<string, unknown>) {
+  return t.action(hostApi.receiveWebhook, {
+    event: { app_user_id: "user_1", ...event },
+    config: { payloadFirst: true },
+  });
+}
+
+function getEntitlement(t: TestConvex) {
+  return t.query(api.public.getEntitlement, {
+    appUserId: "user_1",
+    entitlementId: "pro",
+  });
+}
+
+describe("payload-first entitlement updates", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  test("applies an unambiguous event without calling RevenueCat", async () => {
+    const t = initConvexTest();
+    const requests = stubRevenueCat(fakeProject({ user_1: [] }));
+
+    const response = await deliver(t, {
+      id: "evt_1",
+      type: "RENEWAL",
+      event_timestamp_ms: 1_000_000,
+      entitlement_ids: ["pro"],
+      expiration_at_ms: 1_000_000 + HOUR,
+    });
+    expect(response.status).toBe(200);
+    expect(requests).toEqual([]);
+    expect(await getEntitlement(t)).toMatchObject({
+      isActive: true,
+      status: "active",
+      expiresDate: new Date(1_000_000 + HOUR).toISOString(),
+    });
+
+    await deliver(t, {
+      id: "evt_2",
+      type: "EXPIRATION",
+      event_timestamp_ms: 2_000_000,
+      entitlement_ids: ["pro"],
+    });
+    expect(requests).toEqual([]);
+    expect(await getEntitlement(t)).toMatchObject({
+      isActive: false,
+      status: "expired",
+    });
+  });
+
+  test("resyncs in the background for an ambiguous event", async () => {
+    const t = initConvexTest();
+    const requests = stubRevenueCat(
+      fakeProject({ user_1: [{ id: "entl_pro" }] }),
+    );
+
+    // A product change's outcome depends on the customer's other purchases
+    const response = await deliver(t, {
+      id: "evt_1",
+      type: "PRODUCT_CHANGE",
+      event_timestamp_ms: 1_000_000,
+      entitlement_ids: ["pro"],
+    });
+    expect(response.status).toBe(200);
+    expect(requests).toEqual([]);
+    expect(await getEntitlement(t)).toBeNull();
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(requests.map((request) => request.path)).toContain(
+      "/v2/projects/proj_test/customers/user_1",
+    );
+    expect(await getEntitlement(t)).toMatchObject({ isActive: true });
+  });
+
+  test("resyncs instead of applying an out-of-order event", async () => {
+    const t = initConvexTest();
+    const requests = stubRevenueCat(
+      fakeProject({ user_1: [{ id: "entl_pro" }] }),
+    );
+    await deliver(t, {
+      id: "evt_2",
+      type: "RENEWAL",
+      event_timestamp_ms: 2_000_000,
+      entitlement_ids: ["pro"],
+      expiration_at_ms: 1_000_000 + HOUR,
+    });
+
+    // An expiration older than the renewal already applied
+    await deliver(t, {
+      id: "evt_1",
+      type: "EXPIRATION",
+      event_timestamp_ms: 1_500_000,
+      entitlement_ids: ["pro"],
+    });
+    expect(await getEntitlement(t)).toMatchObject({ isActive: true });
+    expect(requests).toEqual([]);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(requests.length).toBeGreaterThan(0);
+    expect(await getEntitlement(t)).toMatchObject({ isActive: true });
+  });
+});
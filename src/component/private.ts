@@ -1,90 +1,174 @@
-import { v } from "convex/values";
-import { mutation } from "./_generated/server.js";
+import type { FunctionHandle } from "convex/server";
+import { v, type Infer, type ObjectType } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel.js";
+import { internal } from "./_generated/api.js";
+import {
+  internalMutation,
+  mutation,
+  type MutationCtx,
+} from "./_generated/server.js";
+import {
+  mergeAliases,
+  moveRemainingRows,
+  resolveAppUserId,
+} from "./aliases.js";
+import {
+  DEFAULT_RATE_LIMITS,
+  RATE_LIMIT_BUCKETS,
+  RATE_LIMITED_RETRY_DELAY_MS,
+  refillTokens,
+} from "./rateLimits.js";
+import {
+  entitlementChange,
+  entitlementChangeKind,
+  entitlementDrift,
+  entitlementSnapshot,
+  entitlementStatus,
+  processEventOptions,
+  rateLimitBucket,
+  reconcileReason,
+  virtualCurrencyPurchaseStatus,
+  workerTask,
+} from "./schema.js";
 
 // ============================================================================
 // RATE LIMITING
 // ============================================================================
 
+const rateLimitConfig = v.object({
+  maxRequests: v.number(),
+  windowMs: v.optional(v.number()),
+});
+
+/** Per-bucket budget overrides, set once with `setRateLimits`. */
+const rateLimitsConfig = v.object({
+  customer: v.optional(rateLimitConfig),
+  project: v.optional(rateLimitConfig),
+});
+
 /**
- * RevenueCat API v2 rate limits (per minute):
- * - Customer Information: 480 req/min
- * - Project Configuration (entitlements list): 60 req/min
+ * Set the budget of each bucket. Buckets left out go back to their defaults.
+ * Tokens already in a bucket are refilled under the old budget and capped at
+ * the new size, so a change takes effect without resetting the bucket.
  *
- * Our full resync hits both domains, so we cap webhook-triggered API calls
- * at 50/min to stay well below the tightest limit (60 for project config).
+ * This is the only place budgets are set: every caller of `checkRateLimit`
+ * (routes, `RevenueCatSync` and scheduled jobs) shares it.
  */
-const RATE_LIMIT_WINDOW_MS = 60_000;
-const RATE_LIMIT_MAX_REQUESTS = 50;
+export const setRateLimits = mutation({
+  args: { limits: rateLimitsConfig },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    for (const bucket of RATE_LIMIT_BUCKETS) {
+      const limit = {
+        ...DEFAULT_RATE_LIMITS[bucket],
+        ...args.limits[bucket],
+      };
+      if (!(limit.maxRequests >= 1) || !(limit.windowMs > 0)) {
+        throw new Error(
+          `Invalid ${bucket} rate limit: maxRequests must be at least 1 and windowMs positive`,
+        );
+      }
+
+      const doc = await ctx.db
+        .query("rate_limit_buckets")
+        .withIndex("by_bucket", (q) => q.eq("bucket", bucket))
+        .unique();
+      if (!doc) {
+        await ctx.db.insert("rate_limit_buckets", {
+          bucket,
+          ...limit,
+          tokens: limit.maxRequests,
+          updatedAt: now,
+        });
+        continue;
+      }
+      if (
+        doc.maxRequests === limit.maxRequests &&
+        doc.windowMs === limit.windowMs
+      ) {
+        continue;
+      }
+      const tokens = refillTokens(doc.tokens, doc.updatedAt, doc, now);
+      await ctx.db.patch(doc._id, {
+        ...limit,
+        tokens: Math.min(tokens, limit.maxRequests),
+        updatedAt: now,
+      });
+    }
+    return null;
+  },
+});
 
 /**
- * Check whether a new API call is allowed under our rate limit.
- * If allowed, records the request. Returns "allowed" if the request can proceed.
+ * Take `tokens` (default 1) from a bucket's token bucket, under the budget
+ * set with `setRateLimits` (or the default). Returns "allowed" with the
+ * number taken, or "rate_limited" without taking any if the bucket holds
+ * fewer.
+ *
+ * Taking several at once reserves the budget for a multi-call operation up
+ * front, so it doesn't run out halfway. A request for more than the bucket
+ * can ever hold is capped at its size.
  *
- * Note: Convex mutations are serializable, so the check-then-insert pattern
- * here is safe from race conditions — concurrent calls are executed sequentially.
+ * Note: Convex mutations are serializable, so the read-then-patch of the
+ * bucket document is safe from race conditions — concurrent calls are
+ * executed sequentially.
  */
 export const checkRateLimit = mutation({
   args: {
-    key: v.string(),
+    bucket: rateLimitBucket,
+    tokens: v.optional(v.number()),
   },
-  returns: v.union(v.literal("allowed"), v.literal("rate_limited")),
+  returns: v.union(
+    v.object({ status: v.literal("allowed"), tokens: v.number() }),
+    v.object({ status: v.literal("rate_limited") }),
+  ),
   handler: async (ctx, args) => {
-    const windowStart = Date.now() - RATE_LIMIT_WINDOW_MS;
-
-    const recentRequests = await ctx.db
-      .query("rate_limits")
-      .withIndex("by_key_and_timestamp", (q) =>
-        q.eq("key", args.key).gt("timestamp", windowStart),
-      )
-      .collect();
-
-    if (recentRequests.length >= RATE_LIMIT_MAX_REQUESTS) {
-      return "rate_limited";
+    const now = Date.now();
+    const doc = await ctx.db
+      .query("rate_limit_buckets")
+      .withIndex("by_bucket", (q) => q.eq("bucket", args.bucket))
+      .unique();
+    const limit = doc
+      ? { maxRequests: doc.maxRequests, windowMs: doc.windowMs }
+      : DEFAULT_RATE_LIMITS[args.bucket];
+    const count = Math.min(args.tokens ?? 1, limit.maxRequests);
+    const tokens = doc
+      ? refillTokens(doc.tokens, doc.updatedAt, limit, now)
+      : limit.maxRequests;
+    if (tokens < count) {
+      return { status: "rate_limited" as const };
     }
 
-    await ctx.db.insert("rate_limits", {
-      key: args.key,
-      timestamp: Date.now(),
-    });
-
-    return "allowed";
+    const state = { ...limit, tokens: tokens - count, updatedAt: now };
+    if (doc) {
+      await ctx.db.patch(doc._id, state);
+    } else {
+      await ctx.db.insert("rate_limit_buckets", {
+        bucket: args.bucket,
+        ...state,
+      });
+    }
+    return { status: "allowed" as const, tokens: count };
   },
 });
 
 /**
- * Clean up expired rate limit entries.
- * Designed to be called from a cron job in the consuming app.
+ * Delete the per-request rate limit rows written by earlier versions.
+ * The token bucket limiter keeps one document per bucket and needs no
+ * cleanup, so this only drains the old table; it can be dropped from crons
+ * once it returns 0.
  */
 export const cleanupRateLimits = mutation({
   args: {},
   returns: v.number(),
   handler: async (ctx) => {
-    const cutoff = Date.now() - RATE_LIMIT_WINDOW_MS;
     const BATCH_SIZE = 500;
-    let deleted = 0;
-
-    while (true) {
-      const expired = await ctx.db
-        .query("rate_limits")
-        .withIndex("by_timestamp", (q) => q.lt("timestamp", cutoff))
-        .take(BATCH_SIZE);
-
-      if (expired.length === 0) {
-        break;
-      }
-
-      for (const entry of expired) {
-        await ctx.db.delete(entry._id);
-      }
-
-      deleted += expired.length;
-
-      if (expired.length < BATCH_SIZE) {
-        break;
-      }
+    const rows = await ctx.db.query("rate_limits").take(BATCH_SIZE);
+    for (const row of rows) {
+      await ctx.db.delete(row._id);
     }
-
-    return deleted;
+    return rows.length;
   },
 });
 
@@ -101,6 +185,12 @@ export const cleanupRateLimits = mutation({
  */
 const LOCK_TTL_MS = 10 * 60 * 1000; // 10 minutes
 
+/**
+ * Default number of failed processing attempts after which an event is
+ * moved to the dead-letter table for manual replay.
+ */
+const DEAD_LETTER_AFTER_ATTEMPTS = 5;
+
 /**
  * Atomically check and reserve a webhook event for processing.
  *
@@ -113,6 +203,7 @@ const LOCK_TTL_MS = 10 * 60 * 1000; // 10 minutes
  *   (none) → "processing"  — lock acquired, caller should process
  *   "processing" + stale   — lock expired, re-acquire for retry
  *   "processing" + fresh   — another caller is working, return "processing"
+ *   "queued"               — accepted for async processing, return "processed"
  *   "processed" / absent   — done permanently, return "processed"
  */
 export const checkAndRecordEvent = mutation({
@@ -120,6 +211,8 @@ export const checkAndRecordEvent = mutation({
     revenuecatEventId: v.string(),
     eventType: v.string(),
     eventTimestampMs: v.number(),
+    appUserId: v.optional(v.string()),
+    event: v.optional(v.any()),
   },
   returns: v.union(
     v.literal("acquired"),
@@ -127,6 +220,13 @@ export const checkAndRecordEvent = mutation({
     v.literal("processed"),
   ),
   handler: async (ctx, args) => {
+    await appendEventLogStatus(ctx, args.revenuecatEventId, "received", {
+      eventType: args.eventType,
+      eventTimestampMs: args.eventTimestampMs,
+      appUserId: args.appUserId,
+      event: args.event,
+    });
+
     const existing = await ctx.db
       .query("webhook_events")
       .withIndex("by_revenuecat_event_id", (q) =>
@@ -137,7 +237,11 @@ export const checkAndRecordEvent = mutation({
     if (existing) {
       const status = existing.status ?? "processed";
 
-      if (status === "processed" || status === "processed_pending") {
+      if (
+        status === "processed" ||
+        status === "processed_pending" ||
+        status === "queued"
+      ) {
         return "processed";
       }
 
@@ -158,6 +262,7 @@ export const checkAndRecordEvent = mutation({
       processedAt: Date.now(),
       status: "processing",
     });
+    await appendEventLogStatus(ctx, args.revenuecatEventId, "processing");
 
     return "acquired";
   },
@@ -165,11 +270,15 @@ export const checkAndRecordEvent = mutation({
 
 /**
  * Promote a processing lock to a permanent record.
- * Call this after successful event processing.
+ * Call this after successful event processing. Resolves any pending
+ * dead letter for the event and, when `appUserId` and `eventTimestampMs`
+ * are given, advances the subscriber's last applied event timestamp.
  */
 export const markEventProcessed = mutation({
   args: {
     revenuecatEventId: v.string(),
+    appUserId: v.optional(v.string()),
+    eventTimestampMs: v.optional(v.number()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -186,6 +295,28 @@ export const markEventProcessed = mutation({
         processedAt: Date.now(),
       });
     }
+    await appendEventLogStatus(ctx, args.revenuecatEventId, "processed");
+
+    const deadLetter = await ctx.db
+      .query("webhook_dead_letters")
+      .withIndex("by_revenuecat_event_id", (q) =>
+        q.eq("revenuecatEventId", args.revenuecatEventId),
+      )
+      .unique();
+    if (deadLetter && deadLetter.status === "pending") {
+      await ctx.db.patch(deadLetter._id, {
+        status: "resolved",
+        resolvedAt: Date.now(),
+      });
+    }
+
+    if (args.appUserId && args.eventTimestampMs !== undefined) {
+      await advanceEventWatermark(
+        ctx,
+        await resolveAppUserId(ctx, args.appUserId),
+        args.eventTimestampMs,
+      );
+    }
 
     return null;
   },
@@ -194,10 +325,17 @@ export const markEventProcessed = mutation({
 /**
  * Remove a webhook event processing lock after failure.
  * This allows RevenueCat to redeliver and retry the event.
+ * The failure (and its error message, if given) is appended to the event log,
+ * and once the event has failed `deadLetterAfterAttempts` times it is
+ * recorded in the dead-letter table. `rateLimited` failures are logged but
+ * not counted: the event itself is fine and goes through once budget frees.
  */
 export const unreserveEvent = mutation({
   args: {
     revenuecatEventId: v.string(),
+    error: v.optional(v.string()),
+    rateLimited: v.optional(v.boolean()),
+    deadLetterAfterAttempts: v.optional(v.number()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -208,151 +346,2292 @@ export const unreserveEvent = mutation({
       )
       .unique();
 
-    if (existing && existing.status === "processing") {
+    if (
+      existing &&
+      (existing.status === "processing" || existing.status === "queued")
+    ) {
       await ctx.db.delete(existing._id);
     }
+    await appendEventLogStatus(ctx, args.revenuecatEventId, "failed", {
+      error: args.error,
+      rateLimited: args.rateLimited,
+    });
+    if (!args.rateLimited) {
+      await recordFailedAttempt(
+        ctx,
+        args.revenuecatEventId,
+        args.error,
+        args.deadLetterAfterAttempts ?? DEAD_LETTER_AFTER_ATTEMPTS,
+      );
+    }
 
     return null;
   },
 });
 
+/**
+ * Move an event to the dead-letter table once it has failed too often,
+ * or refresh the attempt count of an event that is already dead-lettered.
+ *
+ * Attempts are counted from the "failed" entries in the event log, leaving
+ * out rate-limited ones, so events without a log entry (and therefore
+ * without a payload to replay) are never dead-lettered.
+ */
+async function recordFailedAttempt(
+  ctx: MutationCtx,
+  revenuecatEventId: string,
+  error: string | undefined,
+  deadLetterAfterAttempts: number,
+): Promise<void> {
+  const logEntry = await ctx.db
+    .query("webhook_event_log")
+    .withIndex("by_revenuecat_event_id", (q) =>
+      q.eq("revenuecatEventId", revenuecatEventId),
+    )
+    .unique();
+  if (!logEntry) return;
+
+  const attempts = logEntry.statusHistory.filter(
+    (entry) => entry.status === "failed" && !entry.rateLimited,
+  ).length;
+  const now = Date.now();
+
+  const deadLetter = await ctx.db
+    .query("webhook_dead_letters")
+    .withIndex("by_revenuecat_event_id", (q) =>
+      q.eq("revenuecatEventId", revenuecatEventId),
+    )
+    .unique();
+
+  if (deadLetter) {
+    await ctx.db.patch(deadLetter._id, {
+      attempts,
+      lastError: error,
+      lastFailedAt: now,
+      status: "pending",
+      resolvedAt: undefined,
+    });
+    return;
+  }
+
+  if (attempts < deadLetterAfterAttempts) return;
+
+  await ctx.db.insert("webhook_dead_letters", {
+    revenuecatEventId,
+    eventType: logEntry.eventType,
+    appUserId: logEntry.appUserId,
+    event: logEntry.event,
+    attempts,
+    lastError: error,
+    deadLetteredAt: now,
+    lastFailedAt: now,
+    status: "pending",
+  });
+}
+
+/**
+ * Record the newest event timestamp applied for a subscriber.
+ * Never moves backwards, so a late older event can't hide a newer one.
+ * Creates the subscriber row (with `lastSyncedAt: 0`) if no REST sync has
+ * happened yet.
+ */
+async function advanceEventWatermark(
+  ctx: MutationCtx,
+  appUserId: string,
+  eventTimestampMs: number,
+): Promise<void> {
+  const subscriber = await ctx.db
+    .query("subscribers")
+    .withIndex("by_app_user_id", (q) => q.eq("appUserId", appUserId))
+    .unique();
+
+  if (!subscriber) {
+    await ctx.db.insert("subscribers", {
+      appUserId,
+      lastSyncedAt: 0,
+      lastEventTimestampMs: eventTimestampMs,
+    });
+    return;
+  }
+
+  if ((subscriber.lastEventTimestampMs ?? -Infinity) < eventTimestampMs) {
+    await ctx.db.patch(subscriber._id, {
+      lastEventTimestampMs: eventTimestampMs,
+    });
+  }
+}
+
 // ============================================================================
-// SUBSCRIBER & ENTITLEMENT MUTATIONS
+// HOST WORKER
 // ============================================================================
 
-const entitlementFields = v.object({
-  entitlementId: v.string(),
-  isActive: v.boolean(),
-  expiresDate: v.optional(v.string()),
-});
+type WorkerTask = Infer<typeof workerTask>;
 
 /**
- * Atomically sync a subscriber record and all their entitlements.
- * Upserts the subscriber and replaces all entitlements in a single transaction.
+ * Record the host app's worker action, which runs the component's background
+ * work. The client registers it before starting any; components can't read
+ * the host app's environment variables, so the worker supplies the
+ * RevenueCat credentials instead of the scheduled tasks carrying them.
  */
-export const syncSubscriberAndEntitlements = mutation({
-  args: {
-    appUserId: v.string(),
-    lastSyncedAt: v.number(),
-    rawSubscriber: v.optional(v.any()),
-    entitlements: v.array(entitlementFields),
-  },
+export const registerWorker = mutation({
+  args: { workerHandle: v.string() },
   returns: v.null(),
   handler: async (ctx, args) => {
-    // Upsert subscriber
-    const existingSub = await ctx.db
-      .query("subscribers")
-      .withIndex("by_app_user_id", (q) =>
-        q.eq("appUserId", args.appUserId),
-      )
-      .unique();
-
-    if (existingSub) {
-      await ctx.db.patch(existingSub._id, {
-        lastSyncedAt: args.lastSyncedAt,
-        rawSubscriber: args.rawSubscriber,
+    const config = await ctx.db.query("config").unique();
+    if (!config) {
+      await ctx.db.insert("config", {
+        workerHandle: args.workerHandle,
+        updatedAt: Date.now(),
       });
-    } else {
-      await ctx.db.insert("subscribers", {
-        appUserId: args.appUserId,
-        lastSyncedAt: args.lastSyncedAt,
-        rawSubscriber: args.rawSubscriber,
+      // Deliver the entitlement changes queued before there was a worker
+      await scheduleEntitlementChangeDelivery(ctx);
+    } else if (config.workerHandle !== args.workerHandle) {
+      await ctx.db.patch(config._id, {
+        workerHandle: args.workerHandle,
+        updatedAt: Date.now(),
       });
     }
+    return null;
+  },
+});
 
-    // Replace all entitlements
-    const existingEnts = await ctx.db
-      .query("entitlements")
-      .withIndex("by_app_user_id", (q) =>
-        q.eq("appUserId", args.appUserId),
-      )
-      .collect();
+/**
+ * Schedule a task on the registered worker. Throws if no worker was
+ * registered yet, rather than losing the task.
+ */
+async function scheduleWorkerTask(
+  ctx: MutationCtx,
+  delayMs: number,
+  task: WorkerTask,
+): Promise<Id<"_scheduled_functions">> {
+  const config = await ctx.db.query("config").unique();
+  if (!config) {
+    throw new Error(
+      `No RevenueCat worker registered to run the background ${task.kind} task; pass \`worker\` to RevenueCatSync and registerRoutes`,
+    );
+  }
+  return await ctx.scheduler.runAfter(
+    delayMs,
+    config.workerHandle as FunctionHandle<"action">,
+    { task },
+  );
+}
 
-    for (const ent of existingEnts) {
-      await ctx.db.delete(ent._id);
-    }
+// ============================================================================
+// ENTITLEMENT CHANGE OUTBOX
+// ============================================================================
 
-    for (const ent of args.entitlements) {
-      await ctx.db.insert("entitlements", {
-        appUserId: args.appUserId,
-        entitlementId: ent.entitlementId,
-        isActive: ent.isActive,
-        expiresDate: ent.expiresDate,
-        lastSyncedAt: args.lastSyncedAt,
-      });
-    }
+type EntitlementChangeKind = Infer<typeof entitlementChangeKind>;
+
+/**
+ * Queue the changes a write made to a subscriber's entitlements for the
+ * worker, which fires the host's entitlement change callbacks. Writing them
+ * in the same transaction as the entitlements means every sync fires them —
+ * inline, queued, scheduled or run by a backfill or reconciliation — and
+ * none is lost if the action that made the sync crashes.
+ *
+ * Changes that fire no callback (status-only ones) aren't queued. Changes
+ * queued before a worker is registered wait for it.
+ */
+async function queueEntitlementChanges(
+  ctx: MutationCtx,
+  appUserId: string,
+  changes: Array<Infer<typeof entitlementChange>>,
+) {
+  let queued = false;
+  for (const change of changes) {
+    const kind = classifyEntitlementChange(change);
+    if (!kind) continue;
+    await ctx.db.insert("entitlement_change_outbox", {
+      appUserId,
+      kind,
+      ...change,
+    });
+    queued = true;
+  }
+  if (queued) await scheduleEntitlementChangeDelivery(ctx);
+}
+
+/**
+ * Schedule the worker to deliver the outbox, unless a delivery is already
+ * pending or no worker is registered yet (`registerWorker` schedules one).
+ * A delivery that is running may miss rows queued after it read its batch,
+ * so it doesn't count.
+ */
+async function scheduleEntitlementChangeDelivery(ctx: MutationCtx) {
+  const config = await ctx.db.query("config").unique();
+  if (!config) return;
+  if (await isPendingJob(ctx, config.outboxJobId)) return;
+  if (!(await ctx.db.query("entitlement_change_outbox").first())) return;
+  const jobId = await scheduleWorkerTask(ctx, 0, {
+    kind: "entitlement_changes",
+  });
+  await ctx.db.patch(config._id, { outboxJobId: jobId });
+}
 
+/**
+ * Which callback a change fires: granted when an entitlement becomes active,
+ * revoked when it stops being active, and expiry changed when it stays
+ * active with a new expiration.
+ */
+function classifyEntitlementChange(
+  change: Infer<typeof entitlementChange>,
+): EntitlementChangeKind | null {
+  const wasActive = change.before?.isActive ?? false;
+  const isActive = change.after?.isActive ?? false;
+  if (!wasActive && isActive) return "granted";
+  if (wasActive && !isActive) return "revoked";
+  if (wasActive && change.before?.expiresDate !== change.after?.expiresDate) {
+    return "expiry_changed";
+  }
+  return null;
+}
+
+/**
+ * Remove outbox rows the worker delivered, and schedule another delivery if
+ * more are waiting.
+ */
+export const acknowledgeEntitlementChanges = mutation({
+  args: { ids: v.array(v.id("entitlement_change_outbox")) },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    for (const id of args.ids) {
+      if (await ctx.db.get(id)) await ctx.db.delete(id);
+    }
+    await scheduleEntitlementChangeDelivery(ctx);
     return null;
   },
 });
 
 // ============================================================================
-// VIRTUAL CURRENCY MUTATIONS
+// ASYNC WEBHOOK PROCESSING
 // ============================================================================
 
-const virtualCurrencyBalanceFields = v.object({
-  currencyCode: v.string(),
-  balance: v.number(),
-});
+/** Defaults for queued event retries. */
+const QUEUED_EVENT_MAX_ATTEMPTS = 5;
+const QUEUED_EVENT_INITIAL_BACKOFF_MS = 30_000;
 
 /**
- * Atomically sync virtual currency balances for a user.
- * Replaces all cached balances in a single transaction.
+ * Hand an acquired event over to the host app's worker.
+ *
+ * Moves the lock from "processing" to "queued" (so redeliveries are
+ * acknowledged as duplicates) and schedules the first processing attempt.
+ * Throws if no worker is registered, so the caller releases the lock and
+ * RevenueCat redelivers the event.
  */
-export const syncVirtualCurrencyBalances = mutation({
+export const enqueueEvent = mutation({
   args: {
-    appUserId: v.string(),
-    lastSyncedAt: v.number(),
-    balances: v.array(virtualCurrencyBalanceFields),
+    revenuecatEventId: v.string(),
+    event: v.any(),
+    options: v.optional(processEventOptions),
+    maxAttempts: v.optional(v.number()),
+    initialBackoffMs: v.optional(v.number()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    // Delete existing balances
     const existing = await ctx.db
-      .query("virtual_currency_balances")
-      .withIndex("by_app_user_id", (q) =>
-        q.eq("appUserId", args.appUserId),
+      .query("webhook_events")
+      .withIndex("by_revenuecat_event_id", (q) =>
+        q.eq("revenuecatEventId", args.revenuecatEventId),
       )
-      .collect();
+      .unique();
 
-    for (const bal of existing) {
-      await ctx.db.delete(bal._id);
+    if (!existing || existing.status !== "processing") {
+      throw new Error(
+        `Cannot queue RevenueCat event ${args.revenuecatEventId}: lock not held`,
+      );
     }
 
-    // Insert new balances
-    for (const bal of args.balances) {
-      await ctx.db.insert("virtual_currency_balances", {
-        appUserId: args.appUserId,
-        currencyCode: bal.currencyCode,
-        balance: bal.balance,
-        lastSyncedAt: args.lastSyncedAt,
-      });
-    }
+    await ctx.db.patch(existing._id, { status: "queued" });
+    await scheduleWorkerTask(ctx, 0, {
+      kind: "process_event",
+      revenuecatEventId: args.revenuecatEventId,
+      event: args.event,
+      options: args.options,
+      attempt: 1,
+      maxAttempts: args.maxAttempts ?? QUEUED_EVENT_MAX_ATTEMPTS,
+      initialBackoffMs:
+        args.initialBackoffMs ?? QUEUED_EVENT_INITIAL_BACKOFF_MS,
+    });
 
     return null;
   },
 });
 
 /**
- * Clear all entitlements for a user (e.g. when subscriber is deleted from RevenueCat).
+ * Record a failed queued attempt and schedule the next one on the worker.
  */
-export const clearEntitlements = mutation({
+export const retryQueuedEvent = mutation({
+  args: {
+    revenuecatEventId: v.string(),
+    event: v.any(),
+    options: v.optional(processEventOptions),
+    attempt: v.number(),
+    maxAttempts: v.number(),
+    initialBackoffMs: v.number(),
+    error: v.string(),
+    rateLimited: v.boolean(),
+    delayMs: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { error, rateLimited, delayMs, ...task } = args;
+    await appendEventLogStatus(ctx, args.revenuecatEventId, "failed", {
+      error,
+      rateLimited,
+    });
+    await scheduleWorkerTask(ctx, delayMs, {
+      kind: "process_event",
+      ...task,
+    });
+    return null;
+  },
+});
+
+/**
+ * Schedule a background full resync for a subscriber on the worker.
+ * Used by payload-first processing to reconcile ambiguous or out-of-order
+ * events without blocking the webhook on RevenueCat API calls, and by the
+ * worker to retry a failed resync.
+ */
+export const scheduleResync = mutation({
   args: {
     appUserId: v.string(),
+    minResyncIntervalMs: v.optional(v.number()),
+    delayMs: v.optional(v.number()),
+    attempt: v.optional(v.number()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const existing = await ctx.db
-      .query("entitlements")
-      .withIndex("by_app_user_id", (q) =>
-        q.eq("appUserId", args.appUserId),
-      )
-      .collect();
+    await scheduleWorkerTask(ctx, args.delayMs ?? 0, {
+      kind: "resync",
+      appUserId: args.appUserId,
+      minResyncIntervalMs: args.minResyncIntervalMs,
+      attempt: args.attempt ?? 1,
+    });
+    return null;
+  },
+});
 
-    for (const ent of existing) {
-      await ctx.db.delete(ent._id);
+// ============================================================================
+// SYNC LEASES
+// ============================================================================
+
+/** Default shortest time between two syncs of the same subscriber. */
+const DEFAULT_MIN_RESYNC_INTERVAL_MS = 5_000;
+
+/**
+ * How long a sync holds its lease at most. A sync that dies without
+ * releasing it stops blocking others after this.
+ */
+const SYNC_LEASE_TTL_MS = 2 * 60_000;
+
+const syncLeaseArgs = v.object({
+  appUserId: v.string(),
+  minResyncIntervalMs: v.optional(v.number()),
+});
+
+/**
+ * Take a subscriber's sync lease before a full resync, so concurrent and
+ * back-to-back syncs of one user are coalesced:
+ *
+ * - `acquired` — no sync is running and none completed within
+ *   `minResyncIntervalMs`; the caller syncs and then calls
+ *   `releaseSyncLease` with the returned `startedAt`.
+ * - `in_flight` — another sync holds the lease.
+ * - `recent` — a sync completed within `minResyncIntervalMs`.
+ *
+ * With `trailing`, a coalesced request makes sure one more resync runs
+ * after the current one, `minResyncIntervalMs` after it completes. Use it
+ * when the request may carry changes the current sync started too early to
+ * see, such as a webhook. Any number of coalesced requests share that one
+ * trailing resync, and a sync that takes the lease before it runs replaces
+ * it.
+ */
+export const acquireSyncLease = mutation({
+  args: {
+    ...syncLeaseArgs.fields,
+    trailing: v.optional(v.boolean()),
+  },
+  returns: v.union(
+    v.object({ status: v.literal("acquired"), startedAt: v.number() }),
+    v.object({ status: v.literal("in_flight") }),
+    v.object({ status: v.literal("recent") }),
+  ),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const minIntervalMs =
+      args.minResyncIntervalMs ?? DEFAULT_MIN_RESYNC_INTERVAL_MS;
+    const now = Date.now();
+    const lease = await ctx.db
+      .query("sync_leases")
+      .withIndex("by_app_user_id", (q) => q.eq("appUserId", appUserId))
+      .unique();
+
+    if (lease?.expiresAt !== undefined && lease.expiresAt > now) {
+      if (args.trailing && !lease.trailingRequested) {
+        await ctx.db.patch(lease._id, { trailingRequested: true });
+      }
+      return { status: "in_flight" as const };
+    }
+
+    if (
+      lease?.completedAt !== undefined &&
+      now - lease.completedAt < minIntervalMs
+    ) {
+      if (args.trailing && !(await isPendingJob(ctx, lease.trailingJobId))) {
+        const trailingJobId = await scheduleTrailingResync(
+          ctx,
+          { ...args, appUserId },
+          lease.completedAt + minIntervalMs - now,
+        );
+        await ctx.db.patch(lease._id, { trailingJobId });
+      }
+      return { status: "recent" as const };
+    }
+
+    // This sync covers whatever the pending trailing resync was for
+    const trailingJobId = lease?.trailingJobId;
+    if (trailingJobId && (await isPendingJob(ctx, trailingJobId))) {
+      await ctx.scheduler.cancel(trailingJobId);
+    }
+
+    const held = {
+      startedAt: now,
+      expiresAt: now + SYNC_LEASE_TTL_MS,
+      trailingRequested: false,
+      trailingJobId: undefined,
+    };
+    if (lease) {
+      await ctx.db.patch(lease._id, held);
+    } else {
+      await ctx.db.insert("sync_leases", { appUserId, ...held });
     }
+    return { status: "acquired" as const, startedAt: now };
+  },
+});
+
+/**
+ * Release a lease taken by `acquireSyncLease`. A successful sync starts the
+ * `minResyncIntervalMs` window; a failed one leaves the next sync free to
+ * run right away. If a trailing resync was requested while the lease was
+ * held, it is scheduled now.
+ *
+ * Does nothing if the lease expired and was taken by another sync since.
+ */
+export const releaseSyncLease = mutation({
+  args: {
+    ...syncLeaseArgs.fields,
+    startedAt: v.number(),
+    succeeded: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const lease = await ctx.db
+      .query("sync_leases")
+      .withIndex("by_app_user_id", (q) => q.eq("appUserId", appUserId))
+      .unique();
+    if (!lease || lease.startedAt !== args.startedAt) return null;
 
+    const now = Date.now();
+    const trailingJobId = lease.trailingRequested
+      ? await scheduleTrailingResync(
+          ctx,
+          { ...args, appUserId },
+          args.minResyncIntervalMs ?? DEFAULT_MIN_RESYNC_INTERVAL_MS,
+        )
+      : lease.trailingJobId;
+    await ctx.db.patch(lease._id, {
+      startedAt: undefined,
+      expiresAt: undefined,
+      completedAt: args.succeeded ? now : lease.completedAt,
+      trailingRequested: false,
+      trailingJobId,
+    });
     return null;
   },
 });
+
+async function isPendingJob(
+  ctx: MutationCtx,
+  jobId: Id<"_scheduled_functions"> | undefined,
+): Promise<boolean> {
+  if (!jobId) return false;
+  const job = await ctx.db.system.get(jobId);
+  return job?.state.kind === "pending";
+}
+
+async function scheduleTrailingResync(
+  ctx: MutationCtx,
+  args: Infer<typeof syncLeaseArgs>,
+  delayMs: number,
+) {
+  return await scheduleWorkerTask(ctx, delayMs, {
+    kind: "resync",
+    appUserId: args.appUserId,
+    minResyncIntervalMs: args.minResyncIntervalMs,
+    attempt: 1,
+  });
+}
+
+// ============================================================================
+// CUSTOMER BACKFILL
+// ============================================================================
+
+const BACKFILL_DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Start a backfill of every customer in the RevenueCat project.
+ *
+ * Only one backfill runs at a time: if one is already running its ID is
+ * returned and nothing new is scheduled.
+ */
+export const startBackfill = mutation({
+  args: {
+    pageSize: v.optional(v.number()),
+  },
+  returns: v.id("backfill_jobs"),
+  handler: async (ctx, args) => {
+    const running = await ctx.db
+      .query("backfill_jobs")
+      .withIndex("by_status", (q) => q.eq("status", "running"))
+      .first();
+    if (running) return running._id;
+
+    const now = Date.now();
+    const jobId = await ctx.db.insert("backfill_jobs", {
+      status: "running",
+      pageSize: args.pageSize ?? BACKFILL_DEFAULT_PAGE_SIZE,
+      pageOffset: 0,
+      pagesProcessed: 0,
+      customersSynced: 0,
+      customersFailed: 0,
+      rateLimitedPauses: 0,
+      startedAt: now,
+      updatedAt: now,
+    });
+    await scheduleWorkerTask(ctx, 0, { kind: "backfill_page", jobId });
+    return jobId;
+  },
+});
+
+/**
+ * Resume a failed or cancelled backfill from where it stopped.
+ */
+export const resumeBackfill = mutation({
+  args: {
+    jobId: v.id("backfill_jobs"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) {
+      throw new Error(`Backfill job ${args.jobId} not found`);
+    }
+    if (job.status === "running" || job.status === "completed") {
+      return null;
+    }
+
+    await ctx.db.patch(job._id, { status: "running", updatedAt: Date.now() });
+    await scheduleWorkerTask(ctx, 0, {
+      kind: "backfill_page",
+      jobId: args.jobId,
+    });
+    return null;
+  },
+});
+
+/**
+ * Stop a running backfill after the page it is working on.
+ */
+export const cancelBackfill = mutation({
+  args: { jobId: v.id("backfill_jobs") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (job?.status === "running") {
+      await ctx.db.patch(job._id, {
+        status: "cancelled",
+        updatedAt: Date.now(),
+      });
+    }
+    return null;
+  },
+});
+
+/**
+ * Save the progress of a backfill page and schedule the next worker run,
+ * atomically.
+ */
+export const recordBackfillProgress = mutation({
+  args: {
+    jobId: v.id("backfill_jobs"),
+    nextPage: v.optional(v.string()),
+    pageOffset: v.number(),
+    customersSynced: v.number(),
+    customersFailed: v.number(),
+    lastError: v.optional(v.string()),
+    outcome: v.union(
+      v.literal("page_done"),
+      v.literal("completed"),
+      v.literal("rate_limited"),
+      v.literal("failed"),
+    ),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) return null;
+
+    const now = Date.now();
+    const pageDone =
+      args.outcome === "page_done" || args.outcome === "completed";
+    // A cancel during this run still keeps the progress made
+    const status =
+      job.status !== "running"
+        ? job.status
+        : args.outcome === "completed"
+          ? "completed"
+          : args.outcome === "failed"
+            ? "failed"
+            : "running";
+
+    await ctx.db.patch(job._id, {
+      status,
+      nextPage: args.nextPage,
+      pageOffset: args.pageOffset,
+      pagesProcessed: job.pagesProcessed + (pageDone ? 1 : 0),
+      customersSynced: job.customersSynced + args.customersSynced,
+      customersFailed: job.customersFailed + args.customersFailed,
+      rateLimitedPauses:
+        job.rateLimitedPauses + (args.outcome === "rate_limited" ? 1 : 0),
+      lastError: args.lastError ?? job.lastError,
+      updatedAt: now,
+      completedAt: status === "completed" ? now : undefined,
+    });
+
+    if (status === "running") {
+      await scheduleWorkerTask(
+        ctx,
+        args.outcome === "rate_limited" ? RATE_LIMITED_RETRY_DELAY_MS : 0,
+        { kind: "backfill_page", jobId: args.jobId },
+      );
+    }
+    return null;
+  },
+});
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+const RECONCILE_DEFAULT_STALE_AFTER_MS = 24 * 60 * 60 * 1000; // 24 hours
+const RECONCILE_DEFAULT_EXPIRING_WITHIN_MS = 60 * 60 * 1000; // 1 hour
+const RECONCILE_DEFAULT_LIMIT = 50;
+const RECONCILE_SCAN_PAGE_SIZE = 200;
+
+const expiringScanArgs = {
+  now: v.number(),
+  staleAfterMs: v.number(),
+  expiringWithinMs: v.number(),
+  limit: v.number(),
+};
+type ExpiringScan = ObjectType<typeof expiringScanArgs>;
+
+/**
+ * Pick subscribers whose cached state may have drifted and schedule a re-sync
+ * for them on the worker. Meant to be called periodically from the host
+ * app's crons.
+ *
+ * A subscriber is picked when it has not been synced for `staleAfterMs`, or
+ * when one of its active entitlements expires within `expiringWithinMs` and
+ * has not been synced since it entered that window (so renewals and missed
+ * EXPIRATION webhooks are caught). At most `limit` subscribers are picked per
+ * run, oldest sync first; the rest are picked by later runs. Expiring
+ * entitlements are scanned a page at a time, and the counts returned cover
+ * the first page; later pages are scanned in follow-up mutations.
+ */
+export const startReconciliation = mutation({
+  args: {
+    staleAfterMs: v.optional(v.number()),
+    expiringWithinMs: v.optional(v.number()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({ stale: v.number(), expiring: v.number() }),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const staleAfterMs = args.staleAfterMs ?? RECONCILE_DEFAULT_STALE_AFTER_MS;
+    const expiringWithinMs =
+      args.expiringWithinMs ?? RECONCILE_DEFAULT_EXPIRING_WITHIN_MS;
+    const limit = args.limit ?? RECONCILE_DEFAULT_LIMIT;
+
+    const candidates = new Map<string, "stale" | "expiring">();
+
+    const stale = await ctx.db
+      .query("subscribers")
+      .withIndex("by_last_synced_at", (q) =>
+        q.lt("lastSyncedAt", now - staleAfterMs),
+      )
+      .take(limit);
+    for (const subscriber of stale) {
+      candidates.set(subscriber.appUserId, "stale");
+    }
+
+    const scan = { now, staleAfterMs, expiringWithinMs, limit };
+    await scanExpiringEntitlements(ctx, scan, null, candidates);
+
+    const counts = { stale: 0, expiring: 0 };
+    for (const reason of candidates.values()) counts[reason]++;
+    return counts;
+  },
+});
+
+/**
+ * Scan the next page of expiring entitlements for a reconciliation run.
+ */
+export const continueReconciliation = internalMutation({
+  args: {
+    ...expiringScanArgs,
+    cursor: v.string(),
+    picked: v.array(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { cursor, picked, ...scan } = args;
+    const candidates = new Map<string, Infer<typeof reconcileReason>>();
+    await scanExpiringEntitlements(ctx, scan, cursor, candidates, picked);
+    return null;
+  },
+});
+
+/**
+ * Pick subscribers from one page of entitlements that are still active but
+ * expire within the window, and schedule their re-sync on the worker. While
+ * fewer than `limit` subscribers are picked in total, the next page is
+ * scanned in a follow-up mutation, so a renewal storm never has one
+ * transaction read every expiring entitlement.
+ *
+ * `picked` are the subscribers earlier pages already scheduled.
+ */
+async function scanExpiringEntitlements(
+  ctx: MutationCtx,
+  scan: ExpiringScan,
+  cursor: string | null,
+  candidates: Map<string, Infer<typeof reconcileReason>>,
+  picked: string[] = [],
+) {
+  const { now, staleAfterMs, expiringWithinMs, limit } = scan;
+  const seen = new Set(picked);
+
+  // Entitlements that expired longer ago than the stale threshold were
+  // either re-synced since or are picked up as stale subscribers
+  const page = await ctx.db
+    .query("entitlements")
+    .withIndex("by_active_and_expires_date", (q) =>
+      q
+        .eq("isActive", true)
+        .gte("expiresDate", new Date(now - staleAfterMs).toISOString())
+        .lte("expiresDate", new Date(now + expiringWithinMs).toISOString()),
+    )
+    .paginate({ numItems: RECONCILE_SCAN_PAGE_SIZE, cursor });
+  for (const ent of page.page) {
+    if (seen.size + candidates.size >= limit) break;
+    if (!ent.expiresDate) continue;
+    if (seen.has(ent.appUserId) || candidates.has(ent.appUserId)) continue;
+    const windowStart = Date.parse(ent.expiresDate) - expiringWithinMs;
+    if (ent.lastSyncedAt < windowStart) {
+      candidates.set(ent.appUserId, "expiring");
+    }
+  }
+
+  if (candidates.size > 0) {
+    await scheduleWorkerTask(ctx, 0, {
+      kind: "reconcile",
+      subscribers: [...candidates].map(([appUserId, reason]) => ({
+        appUserId,
+        reason,
+      })),
+    });
+  }
+
+  if (!page.isDone && seen.size + candidates.size < limit) {
+    await ctx.scheduler.runAfter(0, internal.private.continueReconciliation, {
+      ...scan,
+      cursor: page.continueCursor,
+      picked: [...seen, ...candidates.keys()],
+    });
+  }
+}
+
+type EntitlementSnapshot = Infer<typeof entitlementSnapshot>;
+
+/**
+ * Record the entitlement changes a reconciliation re-sync made.
+ */
+export const recordReconciliationDrift = mutation({
+  args: {
+    appUserId: v.string(),
+    reason: reconcileReason,
+    changes: v.array(entitlementChange),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    await ctx.db.insert("reconciliation_drift", {
+      appUserId,
+      reason: args.reason,
+      detectedAt: Date.now(),
+      changes: args.changes,
+    });
+    return null;
+  },
+});
+
+/**
+ * Compare a user's entitlements before and after a write, by entitlement ID.
+ * Only access-relevant fields count; `lastSyncedAt` always changes.
+ */
+function diffEntitlements(
+  before: Array<{ entitlementId: string } & EntitlementSnapshot>,
+  after: Array<{ entitlementId: string } & EntitlementSnapshot>,
+) {
+  const snapshot = (ent: EntitlementSnapshot): EntitlementSnapshot => ({
+    isActive: ent.isActive,
+    expiresDate: ent.expiresDate,
+    status: ent.status,
+  });
+  const beforeById = new Map(before.map((ent) => [ent.entitlementId, ent]));
+  const afterById = new Map(after.map((ent) => [ent.entitlementId, ent]));
+
+  const changes: Array<Infer<typeof entitlementChange>> = [];
+  const ids = new Set([...beforeById.keys(), ...afterById.keys()]);
+  for (const entitlementId of ids) {
+    const old = beforeById.get(entitlementId);
+    const current = afterById.get(entitlementId);
+    if (
+      old &&
+      current &&
+      old.isActive === current.isActive &&
+      old.expiresDate === current.expiresDate &&
+      old.status === current.status
+    ) {
+      continue;
+    }
+    changes.push({
+      entitlementId,
+      before: old ? snapshot(old) : null,
+      after: current ? snapshot(current) : null,
+    });
+  }
+  return changes;
+}
+
+// ============================================================================
+// DRIFT AUDIT
+// ============================================================================
+
+/**
+ * Open a drift report for an audit run. Returns the report ID.
+ */
+export const startDriftReport = mutation({
+  args: {
+    sampleSize: v.optional(v.number()),
+    subscribersTotal: v.number(),
+  },
+  returns: v.id("drift_reports"),
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("drift_reports", {
+      status: "running",
+      sampleSize: args.sampleSize,
+      subscribersTotal: args.subscribersTotal,
+      subscribersChecked: 0,
+      subscribersWithDrift: 0,
+      subscribersFailed: 0,
+      missingEntitlements: 0,
+      extraEntitlements: 0,
+      expiryMismatches: 0,
+      truncated: false,
+      startedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Add one subscriber's findings to a drift report.
+ */
+export const recordDriftReportEntry = mutation({
+  args: {
+    reportId: v.id("drift_reports"),
+    entry: entitlementDrift,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const report = await ctx.db.get(args.reportId);
+    if (!report) {
+      throw new Error(`Drift report ${args.reportId} not found`);
+    }
+
+    const { entry } = args;
+    await ctx.db.insert("drift_report_entries", {
+      reportId: args.reportId,
+      ...entry,
+    });
+    await ctx.db.patch(report._id, {
+      subscribersWithDrift:
+        report.subscribersWithDrift + (entry.error === undefined ? 1 : 0),
+      subscribersFailed:
+        report.subscribersFailed + (entry.error !== undefined ? 1 : 0),
+      missingEntitlements: report.missingEntitlements + entry.missing.length,
+      extraEntitlements: report.extraEntitlements + entry.extra.length,
+      expiryMismatches:
+        report.expiryMismatches + entry.expiryMismatches.length,
+      lastError: entry.error ?? report.lastError,
+    });
+    return null;
+  },
+});
+
+/**
+ * Close a drift report.
+ */
+export const completeDriftReport = mutation({
+  args: {
+    reportId: v.id("drift_reports"),
+    status: v.union(v.literal("completed"), v.literal("failed")),
+    subscribersChecked: v.number(),
+    truncated: v.boolean(),
+    lastError: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const report = await ctx.db.get(args.reportId);
+    if (!report) {
+      throw new Error(`Drift report ${args.reportId} not found`);
+    }
+    await ctx.db.patch(report._id, {
+      status: args.status,
+      subscribersChecked: args.subscribersChecked,
+      truncated: args.truncated,
+      lastError: args.lastError ?? report.lastError,
+      completedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+// ============================================================================
+// WEBHOOK EVENT LOG
+// ============================================================================
+
+type EventLogStatus = Doc<"webhook_event_log">["status"];
+
+/**
+ * Append a status change to the webhook event log.
+ *
+ * The log is append-only: the first "received" for an event id inserts the
+ * row with the sanitized payload, and later status changes are pushed onto
+ * `statusHistory`. Redeliveries only bump `deliveries` and `lastReceivedAt`,
+ * so an event RevenueCat keeps resending doesn't grow its history. Status
+ * changes for events that were never logged (e.g. locks taken before the
+ * log existed) are ignored.
+ */
+async function appendEventLogStatus(
+  ctx: MutationCtx,
+  revenuecatEventId: string,
+  status: EventLogStatus,
+  details?: {
+    eventType?: string;
+    eventTimestampMs?: number;
+    appUserId?: string;
+    event?: unknown;
+    error?: string;
+    rateLimited?: boolean;
+  },
+): Promise<void> {
+  const now = Date.now();
+  const entry = {
+    status,
+    at: now,
+    error: details?.error,
+    rateLimited: details?.rateLimited || undefined,
+  };
+
+  const existing = await ctx.db
+    .query("webhook_event_log")
+    .withIndex("by_revenuecat_event_id", (q) =>
+      q.eq("revenuecatEventId", revenuecatEventId),
+    )
+    .unique();
+
+  if (existing && status === "received") {
+    await ctx.db.patch(existing._id, {
+      deliveries: (existing.deliveries ?? 1) + 1,
+      lastReceivedAt: now,
+    });
+    return;
+  }
+
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      status,
+      statusHistory: [...existing.statusHistory, entry],
+      ...(details?.error !== undefined ? { error: details.error } : {}),
+    });
+    return;
+  }
+
+  if (
+    details?.eventType === undefined ||
+    details.eventTimestampMs === undefined
+  ) {
+    return;
+  }
+
+  await ctx.db.insert("webhook_event_log", {
+    revenuecatEventId,
+    eventType: details.eventType,
+    appUserId: details.appUserId,
+    eventTimestampMs: details.eventTimestampMs,
+    receivedAt: now,
+    lastReceivedAt: now,
+    deliveries: 1,
+    status,
+    statusHistory: [entry],
+    error: details.error,
+    event: details.event ?? null,
+  });
+}
+
+// ============================================================================
+// SUBSCRIBER & ENTITLEMENT MUTATIONS
+// ============================================================================
+
+const entitlementFields = v.object({
+  entitlementId: v.string(),
+  isActive: v.boolean(),
+  expiresDate: v.optional(v.string()),
+  status: v.optional(entitlementStatus),
+});
+
+const subscriptionFields = v.object({
+  subscriptionId: v.string(),
+  productId: v.optional(v.string()),
+  store: v.string(),
+  storeSubscriptionIdentifier: v.optional(v.string()),
+  status: v.string(),
+  periodType: v.union(v.literal("normal"), v.literal("trial")),
+  givesAccess: v.boolean(),
+  entitlementIds: v.array(v.string()),
+  autoRenewalStatus: v.optional(v.string()),
+  hasBillingIssue: v.boolean(),
+  startsAt: v.optional(v.number()),
+  currentPeriodStartsAt: v.optional(v.number()),
+  currentPeriodEndsAt: v.optional(v.number()),
+  nextRenewalAt: v.optional(v.number()),
+  environment: v.optional(v.string()),
+  managementUrl: v.optional(v.string()),
+});
+
+/**
+ * An entitlement change made by a write, returned under the canonical
+ * app_user_id so the host can fire its entitlement change callbacks.
+ */
+const entitlementChangeResult = v.object({
+  appUserId: v.string(),
+  ...entitlementChange.fields,
+});
+
+/**
+ * Atomically sync a subscriber record, all their entitlements and their
+ * subscriptions. Upserts the subscriber and replaces all entitlements and
+ * subscriptions in a single transaction.
+ *
+ * Returns how the entitlements changed.
+ */
+export const syncSubscriberAndEntitlements = mutation({
+  args: {
+    appUserId: v.string(),
+    lastSyncedAt: v.number(),
+    rawSubscriber: v.optional(v.any()),
+    entitlements: v.array(entitlementFields),
+    subscriptions: v.array(subscriptionFields),
+  },
+  returns: v.array(entitlementChangeResult),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    // Upsert subscriber
+    const existingSub = await ctx.db
+      .query("subscribers")
+      .withIndex("by_app_user_id", (q) =>
+        q.eq("appUserId", appUserId),
+      )
+      .unique();
+
+    if (existingSub) {
+      await ctx.db.patch(existingSub._id, {
+        lastSyncedAt: args.lastSyncedAt,
+        rawSubscriber: args.rawSubscriber,
+      });
+    } else {
+      await ctx.db.insert("subscribers", {
+        appUserId,
+        lastSyncedAt: args.lastSyncedAt,
+        rawSubscriber: args.rawSubscriber,
+      });
+    }
+
+    // Replace all entitlements
+    const existingEnts = await ctx.db
+      .query("entitlements")
+      .withIndex("by_app_user_id", (q) =>
+        q.eq("appUserId", appUserId),
+      )
+      .collect();
+
+    for (const ent of existingEnts) {
+      await ctx.db.delete(ent._id);
+    }
+    const changes = diffEntitlements(existingEnts, args.entitlements);
+    await queueEntitlementChanges(ctx, appUserId, changes);
+
+    for (const ent of args.entitlements) {
+      await ctx.db.insert("entitlements", {
+        appUserId,
+        entitlementId: ent.entitlementId,
+        isActive: ent.isActive,
+        expiresDate: ent.expiresDate,
+        status: ent.status,
+        lastSyncedAt: args.lastSyncedAt,
+      });
+    }
+
+    // Replace all subscriptions
+    const existingSubscriptions = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_app_user_id", (q) =>
+        q.eq("appUserId", appUserId),
+      )
+      .collect();
+
+    for (const subscription of existingSubscriptions) {
+      await ctx.db.delete(subscription._id);
+    }
+
+    for (const subscription of args.subscriptions) {
+      await ctx.db.insert("subscriptions", {
+        appUserId,
+        ...subscription,
+        lastSyncedAt: args.lastSyncedAt,
+      });
+    }
+
+    return changes.map((change) => ({ appUserId, ...change }));
+  },
+});
+
+/**
+ * Apply entitlement state taken straight from a webhook payload.
+ *
+ * Only the listed entitlements are upserted; others are left untouched.
+ * If any of them was last written by a newer event (or a REST sync that
+ * happened after this event), nothing is written and "stale" is returned
+ * so the caller can reconcile with a full resync instead. Otherwise returns
+ * how the listed entitlements changed.
+ */
+export const applyEntitlementEvent = mutation({
+  args: {
+    appUserId: v.string(),
+    eventTimestampMs: v.number(),
+    entitlements: v.array(entitlementFields),
+  },
+  returns: v.union(
+    v.object({
+      status: v.literal("applied"),
+      changes: v.array(entitlementChangeResult),
+    }),
+    v.object({ status: v.literal("stale") }),
+  ),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const existing = [];
+    for (const ent of args.entitlements) {
+      const row = await ctx.db
+        .query("entitlements")
+        .withIndex("by_app_user_id_and_entitlement", (q) =>
+          q
+            .eq("appUserId", appUserId)
+            .eq("entitlementId", ent.entitlementId),
+        )
+        .unique();
+      if (
+        row &&
+        (row.lastEventTimestampMs ?? row.lastSyncedAt) > args.eventTimestampMs
+      ) {
+        return { status: "stale" as const };
+      }
+      existing.push(row);
+    }
+
+    const now = Date.now();
+    for (const [i, ent] of args.entitlements.entries()) {
+      const fields = {
+        isActive: ent.isActive,
+        expiresDate: ent.expiresDate,
+        status: ent.status,
+        lastSyncedAt: now,
+        lastEventTimestampMs: args.eventTimestampMs,
+      };
+      const row = existing[i];
+      if (row) {
+        await ctx.db.patch(row._id, fields);
+      } else {
+        await ctx.db.insert("entitlements", {
+          appUserId,
+          entitlementId: ent.entitlementId,
+          ...fields,
+        });
+      }
+    }
+
+    const changes = diffEntitlements(
+      existing.filter((row) => row !== null),
+      args.entitlements,
+    );
+    await queueEntitlementChanges(ctx, appUserId, changes);
+    return {
+      status: "applied" as const,
+      changes: changes.map((change) => ({ appUserId, ...change })),
+    };
+  },
+});
+
+// ============================================================================
+// SUBSCRIBER ALIASES
+// ============================================================================
+
+/**
+ * Record that `aliases` are the same RevenueCat customer as `appUserId`,
+ * which becomes the canonical ID. Cached rows stored under any alias are
+ * re-keyed onto it; where both IDs have a row for the same entitlement,
+ * subscription or currency, the fresher one is kept. An alias with more
+ * rows than one mutation moves has the rest moved in scheduled follow-ups.
+ */
+export const mergeSubscriberAliases = mutation({
+  args: {
+    appUserId: v.string(),
+    aliases: v.array(v.string()),
+  },
+  returns: v.object({ merged: v.array(v.string()) }),
+  handler: async (ctx, args) => {
+    const { merged, unfinished } = await mergeAliases(
+      ctx,
+      args.appUserId,
+      args.aliases,
+    );
+    for (const alias of unfinished) {
+      await ctx.scheduler.runAfter(0, internal.private.continueAliasMerge, {
+        alias,
+      });
+    }
+    return { merged };
+  },
+});
+
+/**
+ * Move the next page of rows left under an alias by a merge.
+ */
+export const continueAliasMerge = internalMutation({
+  args: { alias: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    if (!(await moveRemainingRows(ctx, args.alias))) {
+      await ctx.scheduler.runAfter(0, internal.private.continueAliasMerge, {
+        alias: args.alias,
+      });
+    }
+    return null;
+  },
+});
+
+// ============================================================================
+// TRANSACTION MUTATIONS
+// ============================================================================
+
+const transactionFields = v.object({
+  transactionId: v.string(),
+  originalTransactionId: v.optional(v.string()),
+  productId: v.optional(v.string()),
+  store: v.optional(v.string()),
+  environment: v.optional(v.string()),
+  purchaseType: v.optional(v.string()),
+  price: v.optional(v.number()),
+  priceInPurchasedCurrency: v.optional(v.number()),
+  currency: v.optional(v.string()),
+  takehomePercentage: v.optional(v.number()),
+  countryCode: v.optional(v.string()),
+  purchasedAtMs: v.number(),
+});
+
+/**
+ * Record a transaction from a webhook event.
+ *
+ * Purchase events upsert the transaction's details. Refund events flip its
+ * status, unless a newer event has already been applied; a refund for an
+ * unknown transaction inserts it as refunded, and the purchase event filling
+ * in the details later keeps that status.
+ */
+export const recordTransaction = mutation({
+  args: {
+    appUserId: v.string(),
+    kind: v.union(
+      v.literal("purchase"),
+      v.literal("refund"),
+      v.literal("refund_reversed"),
+    ),
+    eventTimestampMs: v.number(),
+    transaction: transactionFields,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("transactions")
+      .withIndex("by_transaction_id", (q) =>
+        q.eq("transactionId", args.transaction.transactionId),
+      )
+      .unique();
+
+    const status = args.kind === "refund" ? "refunded" : "completed";
+    const refundedAtMs =
+      args.kind === "refund" ? args.eventTimestampMs : undefined;
+
+    if (!existing) {
+      await ctx.db.insert("transactions", {
+        appUserId,
+        ...args.transaction,
+        status,
+        refundedAtMs,
+        source: "webhook",
+        lastEventTimestampMs: args.eventTimestampMs,
+        updatedAt: now,
+      });
+      return null;
+    }
+
+    const lastEventTimestampMs = Math.max(
+      existing.lastEventTimestampMs ?? 0,
+      args.eventTimestampMs,
+    );
+
+    if (args.kind === "purchase") {
+      await ctx.db.patch(existing._id, {
+        ...args.transaction,
+        source: "webhook",
+        lastEventTimestampMs,
+        updatedAt: now,
+      });
+    } else if ((existing.lastEventTimestampMs ?? 0) <= args.eventTimestampMs) {
+      await ctx.db.patch(existing._id, {
+        status,
+        refundedAtMs,
+        lastEventTimestampMs,
+        updatedAt: now,
+      });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Upsert transactions fetched from the REST API.
+ *
+ * New transactions are inserted; for known ones only the refund status is
+ * updated, since webhook payloads carry richer pricing details.
+ */
+export const upsertTransactions = mutation({
+  args: {
+    appUserId: v.string(),
+    transactions: v.array(
+      v.object({
+        ...transactionFields.fields,
+        status: v.union(v.literal("completed"), v.literal("refunded")),
+      }),
+    ),
+  },
+  returns: v.object({ inserted: v.number(), updated: v.number() }),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const now = Date.now();
+    let inserted = 0;
+    let updated = 0;
+
+    for (const transaction of args.transactions) {
+      const existing = await ctx.db
+        .query("transactions")
+        .withIndex("by_transaction_id", (q) =>
+          q.eq("transactionId", transaction.transactionId),
+        )
+        .unique();
+
+      if (!existing) {
+        await ctx.db.insert("transactions", {
+          appUserId,
+          ...transaction,
+          source: "rest_api",
+          updatedAt: now,
+        });
+        inserted++;
+      } else if (existing.status !== transaction.status) {
+        await ctx.db.patch(existing._id, {
+          status: transaction.status,
+          refundedAtMs:
+            transaction.status === "refunded"
+              ? existing.refundedAtMs
+              : undefined,
+          updatedAt: now,
+        });
+        updated++;
+      }
+    }
+
+    return { inserted, updated };
+  },
+});
+
+// ============================================================================
+// ENTITLEMENT DEFINITION CACHE
+// ============================================================================
+
+/**
+ * Replace the cached entitlement definitions (ID → lookup_key map).
+ */
+export const replaceEntitlementDefinitions = mutation({
+  args: {
+    definitions: v.array(
+      v.object({
+        entitlementId: v.string(),
+        lookupKey: v.string(),
+        displayName: v.optional(v.string()),
+      }),
+    ),
+    fetchedAt: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db.query("entitlement_definitions").collect();
+    for (const def of existing) {
+      await ctx.db.delete(def._id);
+    }
+    // The fresh definitions settle whether these are still unknown
+    const unknown = await ctx.db.query("unknown_entitlements").collect();
+    for (const row of unknown) {
+      await ctx.db.delete(row._id);
+    }
+
+    for (const def of args.definitions) {
+      await ctx.db.insert("entitlement_definitions", {
+        entitlementId: def.entitlementId,
+        lookupKey: def.lookupKey,
+        displayName: def.displayName,
+        fetchedAt: args.fetchedAt,
+      });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Record entitlement IDs the cached definitions don't include even after a
+ * refetch, so syncs stop refetching them until the definitions are next
+ * refreshed.
+ */
+export const recordUnknownEntitlements = mutation({
+  args: { entitlementIds: v.array(v.string()) },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    for (const entitlementId of new Set(args.entitlementIds)) {
+      const existing = await ctx.db
+        .query("unknown_entitlements")
+        .withIndex("by_entitlement_id", (q) =>
+          q.eq("entitlementId", entitlementId),
+        )
+        .unique();
+      if (!existing) {
+        await ctx.db.insert("unknown_entitlements", {
+          entitlementId,
+          recordedAt: now,
+        });
+      }
+    }
+    return null;
+  },
+});
+
+// ============================================================================
+// CATALOG MUTATIONS
+// ============================================================================
+
+/**
+ * Replace the product, offering and package catalog with a fresh snapshot.
+ */
+export const replaceCatalog = mutation({
+  args: {
+    products: v.array(
+      v.object({
+        productId: v.string(),
+        storeIdentifier: v.string(),
+        type: v.string(),
+        appId: v.optional(v.string()),
+        displayName: v.optional(v.string()),
+        subscriptionDuration: v.optional(v.string()),
+      }),
+    ),
+    offerings: v.array(
+      v.object({
+        offeringId: v.string(),
+        lookupKey: v.string(),
+        displayName: v.string(),
+        isCurrent: v.boolean(),
+        metadata: v.optional(v.any()),
+      }),
+    ),
+    packages: v.array(
+      v.object({
+        packageId: v.string(),
+        offeringId: v.string(),
+        lookupKey: v.string(),
+        displayName: v.string(),
+        position: v.optional(v.number()),
+        productIds: v.array(v.string()),
+      }),
+    ),
+    entitlementProducts: v.array(
+      v.object({
+        entitlementId: v.string(),
+        productId: v.string(),
+      }),
+    ),
+    lastSyncedAt: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    for (const table of [
+      "products",
+      "offerings",
+      "packages",
+      "entitlement_products",
+    ] as const) {
+      const existing = await ctx.db.query(table).collect();
+      for (const doc of existing) {
+        await ctx.db.delete(doc._id);
+      }
+    }
+
+    const { lastSyncedAt } = args;
+    for (const product of args.products) {
+      await ctx.db.insert("products", { ...product, lastSyncedAt });
+    }
+    for (const offering of args.offerings) {
+      await ctx.db.insert("offerings", { ...offering, lastSyncedAt });
+    }
+    for (const pkg of args.packages) {
+      await ctx.db.insert("packages", { ...pkg, lastSyncedAt });
+    }
+    for (const link of args.entitlementProducts) {
+      await ctx.db.insert("entitlement_products", { ...link, lastSyncedAt });
+    }
+
+    return null;
+  },
+});
+
+// ============================================================================
+// VIRTUAL CURRENCY MUTATIONS
+// ============================================================================
+
+const virtualCurrencyBalanceFields = v.object({
+  currencyCode: v.string(),
+  balance: v.number(),
+});
+
+const virtualCurrencyTransactionFields = v.object({
+  transactionId: v.optional(v.string()),
+  idempotencyKey: v.optional(v.string()),
+  source: v.optional(v.string()),
+  origin: v.union(v.literal("webhook"), v.literal("rest_api")),
+  occurredAt: v.number(),
+  adjustments: v.array(
+    v.object({
+      currencyCode: v.string(),
+      amount: v.number(),
+    }),
+  ),
+});
+
+/**
+ * Atomically sync virtual currency balances for a user.
+ * Replaces all cached balances in a single transaction, and records the
+ * transaction that produced them in the ledger if one is given.
+ */
+export const syncVirtualCurrencyBalances = mutation({
+  args: {
+    appUserId: v.string(),
+    lastSyncedAt: v.number(),
+    balances: v.array(virtualCurrencyBalanceFields),
+    transaction: v.optional(virtualCurrencyTransactionFields),
+    holdId: v.optional(v.id("virtual_currency_holds")),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    // Delete existing balances
+    const existing = await ctx.db
+      .query("virtual_currency_balances")
+      .withIndex("by_app_user_id", (q) =>
+        q.eq("appUserId", appUserId),
+      )
+      .collect();
+
+    for (const bal of existing) {
+      await ctx.db.delete(bal._id);
+    }
+
+    // Insert new balances
+    for (const bal of args.balances) {
+      await ctx.db.insert("virtual_currency_balances", {
+        appUserId,
+        currencyCode: bal.currencyCode,
+        balance: bal.balance,
+        lastSyncedAt: args.lastSyncedAt,
+      });
+    }
+
+    if (args.transaction) {
+      await recordVirtualCurrencyTransaction(ctx, appUserId, args.transaction);
+    }
+    if (args.holdId && (await ctx.db.get(args.holdId))) {
+      await ctx.db.delete(args.holdId);
+    }
+
+    return null;
+  },
+});
+
+const virtualCurrencyDefinitionFields = v.object({
+  currencyCode: v.string(),
+  name: v.string(),
+  description: v.optional(v.string()),
+});
+
+/**
+ * Replace the cached virtual currency definitions with a fresh snapshot.
+ */
+export const replaceVirtualCurrencyDefinitions = mutation({
+  args: {
+    definitions: v.array(virtualCurrencyDefinitionFields),
+    lastSyncedAt: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("virtual_currency_definitions")
+      .collect();
+    for (const def of existing) {
+      await ctx.db.delete(def._id);
+    }
+
+    for (const def of args.definitions) {
+      await ctx.db.insert("virtual_currency_definitions", {
+        ...def,
+        lastSyncedAt: args.lastSyncedAt,
+      });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Insert or update individual virtual currency definitions, e.g. the
+ * currencies named in a webhook payload. Other definitions are kept.
+ */
+export const upsertVirtualCurrencyDefinitions = mutation({
+  args: {
+    definitions: v.array(virtualCurrencyDefinitionFields),
+    lastSyncedAt: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    for (const def of args.definitions) {
+      const existing = await ctx.db
+        .query("virtual_currency_definitions")
+        .withIndex("by_currency_code", (q) =>
+          q.eq("currencyCode", def.currencyCode),
+        )
+        .unique();
+      if (!existing) {
+        await ctx.db.insert("virtual_currency_definitions", {
+          ...def,
+          lastSyncedAt: args.lastSyncedAt,
+        });
+      } else if (
+        existing.name !== def.name ||
+        existing.description !== def.description
+      ) {
+        await ctx.db.patch(existing._id, {
+          name: def.name,
+          description: def.description,
+          lastSyncedAt: args.lastSyncedAt,
+        });
+      }
+    }
+    return null;
+  },
+});
+
+/**
+ * How long a hold reserves funds if it is never released, e.g. because the
+ * action holding them crashed.
+ */
+const VIRTUAL_CURRENCY_HOLD_TTL_MS = 60_000;
+
+/**
+ * Hold funds for debits while their transaction runs. A currency's
+ * available funds are its cached balance (zero if not cached) less its
+ * unexpired holds; the hold is only placed if every currency can cover its
+ * amount. Mutations are serialized, so concurrent spends can't both be
+ * covered by the same funds.
+ *
+ * A retry of a transaction already recorded under `idempotencyKey` isn't
+ * checked, since RevenueCat replays it without debiting again.
+ */
+export const holdVirtualCurrency = mutation({
+  args: {
+    appUserId: v.string(),
+    adjustments: v.array(
+      v.object({
+        currencyCode: v.string(),
+        amount: v.number(),
+      }),
+    ),
+    idempotencyKey: v.optional(v.string()),
+  },
+  returns: v.union(
+    v.object({
+      status: v.literal("held"),
+      holdId: v.id("virtual_currency_holds"),
+    }),
+    v.object({ status: v.literal("already_recorded") }),
+    v.object({
+      status: v.literal("insufficient_funds"),
+      currencyCode: v.string(),
+      requested: v.number(),
+      available: v.number(),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const now = Date.now();
+
+    if (args.idempotencyKey) {
+      const recorded = await ctx.db
+        .query("virtual_currency_transactions")
+        .withIndex("by_idempotency_key", (q) =>
+          q.eq("idempotencyKey", args.idempotencyKey),
+        )
+        .first();
+      if (recorded) return { status: "already_recorded" as const };
+    }
+
+    const held = new Map<string, number>();
+    const holds = await ctx.db
+      .query("virtual_currency_holds")
+      .withIndex("by_app_user_id", (q) => q.eq("appUserId", appUserId))
+      .collect();
+    for (const hold of holds) {
+      if (hold.expiresAt <= now) {
+        await ctx.db.delete(hold._id);
+        continue;
+      }
+      for (const { currencyCode, amount } of hold.adjustments) {
+        held.set(currencyCode, (held.get(currencyCode) ?? 0) + amount);
+      }
+    }
+
+    for (const { currencyCode, amount } of args.adjustments) {
+      const balance = await ctx.db
+        .query("virtual_currency_balances")
+        .withIndex("by_app_user_id_and_currency", (q) =>
+          q.eq("appUserId", appUserId).eq("currencyCode", currencyCode),
+        )
+        .unique();
+      const available = Math.max(
+        0,
+        (balance?.balance ?? 0) - (held.get(currencyCode) ?? 0),
+      );
+      if (available < amount) {
+        return {
+          status: "insufficient_funds" as const,
+          currencyCode,
+          requested: amount,
+          available,
+        };
+      }
+    }
+
+    const holdId = await ctx.db.insert("virtual_currency_holds", {
+      appUserId,
+      adjustments: args.adjustments,
+      createdAt: now,
+      expiresAt: now + VIRTUAL_CURRENCY_HOLD_TTL_MS,
+    });
+    return { status: "held" as const, holdId };
+  },
+});
+
+/**
+ * Release a hold whose transaction failed.
+ */
+export const releaseVirtualCurrencyHold = mutation({
+  args: { holdId: v.id("virtual_currency_holds") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    if (await ctx.db.get(args.holdId)) {
+      await ctx.db.delete(args.holdId);
+    }
+    return null;
+  },
+});
+
+/**
+ * Add a transaction's adjustments to the ledger. Adjustments already
+ * recorded under the same transaction ID or idempotency key (a redelivered
+ * webhook, or a retried request) are skipped.
+ */
+async function recordVirtualCurrencyTransaction(
+  ctx: MutationCtx,
+  appUserId: string,
+  transaction: Infer<typeof virtualCurrencyTransactionFields>,
+): Promise<void> {
+  const { adjustments, ...fields } = transaction;
+  for (const { currencyCode, amount } of adjustments) {
+    const existing = fields.transactionId
+      ? await ctx.db
+          .query("virtual_currency_transactions")
+          .withIndex("by_transaction_id", (q) =>
+            q
+              .eq("transactionId", fields.transactionId)
+              .eq("currencyCode", currencyCode),
+          )
+          .first()
+      : fields.idempotencyKey
+        ? await ctx.db
+            .query("virtual_currency_transactions")
+            .withIndex("by_idempotency_key", (q) =>
+              q
+                .eq("idempotencyKey", fields.idempotencyKey)
+                .eq("currencyCode", currencyCode),
+            )
+            .first()
+        : null;
+    if (existing) continue;
+
+    await ctx.db.insert("virtual_currency_transactions", {
+      appUserId,
+      currencyCode,
+      amount,
+      ...fields,
+    });
+  }
+}
+
+/**
+ * Clear all entitlements and subscriptions for a user (e.g. when subscriber
+ * is deleted from RevenueCat). Returns the removed entitlements as changes.
+ */
+export const clearEntitlements = mutation({
+  args: {
+    appUserId: v.string(),
+  },
+  returns: v.array(entitlementChangeResult),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const existing = await ctx.db
+      .query("entitlements")
+      .withIndex("by_app_user_id", (q) =>
+        q.eq("appUserId", appUserId),
+      )
+      .collect();
+
+    for (const ent of existing) {
+      await ctx.db.delete(ent._id);
+    }
+
+    const subscriptions = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_app_user_id", (q) =>
+        q.eq("appUserId", appUserId),
+      )
+      .collect();
+
+    for (const subscription of subscriptions) {
+      await ctx.db.delete(subscription._id);
+    }
+
+    // The customer was checked, so reconciliation doesn't treat it as stale
+    const subscriber = await ctx.db
+      .query("subscribers")
+      .withIndex("by_app_user_id", (q) => q.eq("appUserId", appUserId))
+      .unique();
+    if (subscriber) {
+      await ctx.db.patch(subscriber._id, { lastSyncedAt: Date.now() });
+    }
+
+    const changes = diffEntitlements(existing, []);
+    await queueEntitlementChanges(ctx, appUserId, changes);
+    return changes.map((change) => ({ appUserId, ...change }));
+  },
+});
+
+// ============================================================================
+// VIRTUAL CURRENCY PURCHASES
+// ============================================================================
+
+/**
+ * Attempts before a purchase is marked failed. A purchase whose spend may
+ * have been sent is never marked failed: it keeps being retried, so the
+ * user doesn't pay for nothing.
+ */
+const PURCHASE_MAX_ATTEMPTS = 5;
+
+/**
+ * Delay of the scheduled retry that resumes a purchase if the action running
+ * it crashes, and of the first retry after a failed attempt (doubled after
+ * each further one, up to `PURCHASE_MAX_RETRY_DELAY_MS`).
+ */
+const PURCHASE_RETRY_DELAY_MS = 60_000;
+const PURCHASE_MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * How long an attempt has a purchase to itself. Attempts never overlap, so
+ * a spend can't be held twice or a purchase marked failed while another
+ * attempt completes it.
+ */
+const PURCHASE_ATTEMPT_TTL_MS = 2 * 60 * 1000;
+
+const purchaseAdjustments = v.array(
+  v.object({
+    currencyCode: v.string(),
+    amount: v.number(),
+  }),
+);
+
+/**
+ * Persist the intent of a virtual currency purchase and schedule the retry
+ * that resumes it if the action running it crashes. Starting a purchase
+ * with a `purchaseKey` already used returns the existing purchase instead,
+ * and throws if it was for another user or other amounts.
+ */
+export const startVirtualCurrencyPurchase = mutation({
+  args: {
+    appUserId: v.string(),
+    adjustments: purchaseAdjustments,
+    fulfilHandle: v.string(),
+    fulfilArgs: v.any(),
+    purchaseKey: v.optional(v.string()),
+  },
+  returns: v.id("virtual_currency_purchases"),
+  handler: async (ctx, args) => {
+    if (args.purchaseKey) {
+      const existing = await ctx.db
+        .query("virtual_currency_purchases")
+        .withIndex("by_purchase_key", (q) =>
+          q.eq("purchaseKey", args.purchaseKey),
+        )
+        .unique();
+      if (existing) {
+        if (
+          existing.appUserId !== args.appUserId ||
+          !sameAdjustments(existing.adjustments, args.adjustments)
+        ) {
+          throw new Error(
+            `purchaseKey ${args.purchaseKey} is already used by a purchase with a different appUserId or adjustments`,
+          );
+        }
+        return existing._id;
+      }
+    }
+
+    const now = Date.now();
+    const purchaseId = await ctx.db.insert("virtual_currency_purchases", {
+      ...args,
+      status: "pending",
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const retryJobId = await scheduleWorkerTask(ctx, PURCHASE_RETRY_DELAY_MS, {
+      kind: "purchase",
+      purchaseId,
+    });
+    await ctx.db.patch(purchaseId, { retryJobId });
+    return purchaseId;
+  },
+});
+
+function sameAdjustments(
+  a: Array<{ currencyCode: string; amount: number }>,
+  b: Array<{ currencyCode: string; amount: number }>,
+): boolean {
+  if (a.length !== b.length) return false;
+  const amounts = new Map(a.map((adj) => [adj.currencyCode, adj.amount]));
+  return b.every((adj) => amounts.get(adj.currencyCode) === adj.amount);
+}
+
+/**
+ * Claim a purchase for one attempt. Returns what the attempt has left to do
+ * (spend, or only fulfil) and whether an earlier attempt already sent the
+ * spend, or why there is nothing to do: the purchase is finished, or
+ * another attempt has it until `expiresAt`.
+ */
+export const beginVirtualCurrencyPurchaseAttempt = mutation({
+  args: { purchaseId: v.id("virtual_currency_purchases") },
+  returns: v.union(
+    v.object({
+      status: v.union(v.literal("pending"), v.literal("spent")),
+      appUserId: v.string(),
+      adjustments: purchaseAdjustments,
+      idempotencyKey: v.string(),
+      spendSent: v.boolean(),
+    }),
+    v.object({
+      status: v.union(v.literal("fulfilled"), v.literal("failed")),
+    }),
+    v.object({ status: v.literal("in_progress"), expiresAt: v.number() }),
+  ),
+  handler: async (ctx, args) => {
+    const purchase = await ctx.db.get(args.purchaseId);
+    if (!purchase) {
+      throw new Error(`Virtual currency purchase ${args.purchaseId} not found`);
+    }
+    if (purchase.status === "fulfilled" || purchase.status === "failed") {
+      return { status: purchase.status };
+    }
+
+    const now = Date.now();
+    if (purchase.attemptExpiresAt && purchase.attemptExpiresAt > now) {
+      // Resume it once the claim lapses, in case the attempt crashed
+      await ensurePurchaseRetry(ctx, purchase, purchase.attemptExpiresAt - now);
+      return {
+        status: "in_progress" as const,
+        expiresAt: purchase.attemptExpiresAt,
+      };
+    }
+
+    await ctx.db.patch(purchase._id, {
+      attempts: purchase.attempts + 1,
+      attemptExpiresAt: now + PURCHASE_ATTEMPT_TTL_MS,
+      updatedAt: now,
+    });
+    await ensurePurchaseRetry(ctx, purchase, PURCHASE_ATTEMPT_TTL_MS);
+    return {
+      status: purchase.status,
+      appUserId: purchase.appUserId,
+      adjustments: purchase.adjustments,
+      // Every attempt sends the same key, so RevenueCat debits at most once
+      idempotencyKey: `virtual-currency-purchase:${purchase._id}`,
+      spendSent: purchase.spendSentAt !== undefined,
+    };
+  },
+});
+
+/**
+ * Record that an attempt is about to send a purchase's spend, once its
+ * balance check passed.
+ */
+export const markVirtualCurrencyPurchaseSpendSent = mutation({
+  args: { purchaseId: v.id("virtual_currency_purchases") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const purchase = await ctx.db.get(args.purchaseId);
+    if (purchase?.status !== "pending" || purchase.spendSentAt) return null;
+    const now = Date.now();
+    await ctx.db.patch(purchase._id, { spendSentAt: now, updatedAt: now });
+    return null;
+  },
+});
+
+/**
+ * Record that a purchase's currency was spent.
+ */
+export const markVirtualCurrencyPurchaseSpent = mutation({
+  args: { purchaseId: v.id("virtual_currency_purchases") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const purchase = await ctx.db.get(args.purchaseId);
+    if (purchase?.status !== "pending") return null;
+    const now = Date.now();
+    await ctx.db.patch(purchase._id, {
+      status: "spent",
+      spentAt: now,
+      updatedAt: now,
+    });
+    return null;
+  },
+});
+
+/**
+ * Run a spent purchase's fulfilment mutation and mark the purchase
+ * fulfilled in the same transaction. If the fulfilment throws, neither is
+ * committed and a later attempt runs it again, so it runs exactly once.
+ */
+export const fulfilVirtualCurrencyPurchase = mutation({
+  args: { purchaseId: v.id("virtual_currency_purchases") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const purchase = await ctx.db.get(args.purchaseId);
+    if (purchase?.status !== "spent") return null;
+    await ctx.runMutation(
+      purchase.fulfilHandle as FunctionHandle<"mutation">,
+      purchase.fulfilArgs,
+    );
+    await finishVirtualCurrencyPurchase(ctx, purchase, "fulfilled");
+    return null;
+  },
+});
+
+/**
+ * Mark a purchase that was given up failed, stopping its retries. Called by
+ * the attempt that abandons it, after refunding a spend that may have been
+ * sent.
+ */
+export const abandonVirtualCurrencyPurchase = mutation({
+  args: {
+    purchaseId: v.id("virtual_currency_purchases"),
+    refunded: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const purchase = await ctx.db.get(args.purchaseId);
+    if (purchase?.status !== "pending" && purchase?.status !== "spent") {
+      return null;
+    }
+    await finishVirtualCurrencyPurchase(ctx, purchase, "failed", "Abandoned");
+    if (args.refunded) {
+      await ctx.db.patch(purchase._id, { refundedAt: Date.now() });
+    }
+    return null;
+  },
+});
+
+/**
+ * Record a failed attempt. The purchase is retried with backoff until it
+ * runs out of attempts, or marked failed right away if the error is final.
+ * Once its spend may have been sent it is never marked failed, and is
+ * retried until it is fulfilled. `spendRejected` says RevenueCat refused
+ * the spend, so nothing was debited: the sent spend is forgotten and the
+ * purchase can fail again. Returns the purchase's status afterwards.
+ */
+export const failVirtualCurrencyPurchaseAttempt = mutation({
+  args: {
+    purchaseId: v.id("virtual_currency_purchases"),
+    error: v.string(),
+    retryable: v.boolean(),
+    spendRejected: v.optional(v.boolean()),
+  },
+  returns: virtualCurrencyPurchaseStatus,
+  handler: async (ctx, args) => {
+    const purchase = await ctx.db.get(args.purchaseId);
+    if (!purchase) {
+      throw new Error(`Virtual currency purchase ${args.purchaseId} not found`);
+    }
+    if (purchase.status === "fulfilled" || purchase.status === "failed") {
+      return purchase.status;
+    }
+    if (
+      args.spendRejected &&
+      purchase.status === "pending" &&
+      purchase.spendSentAt !== undefined
+    ) {
+      await ctx.db.patch(purchase._id, { spendSentAt: undefined });
+      purchase.spendSentAt = undefined;
+    }
+    const maySpend =
+      purchase.status === "spent" || purchase.spendSentAt !== undefined;
+    if (
+      !maySpend &&
+      (!args.retryable || purchase.attempts >= PURCHASE_MAX_ATTEMPTS)
+    ) {
+      await finishVirtualCurrencyPurchase(ctx, purchase, "failed", args.error);
+      return "failed";
+    }
+
+    // Back off instead of resuming when the crash guard fires
+    if (
+      purchase.retryJobId &&
+      (await isPendingJob(ctx, purchase.retryJobId))
+    ) {
+      await ctx.scheduler.cancel(purchase.retryJobId);
+    }
+    const retryJobId = await scheduleWorkerTask(
+      ctx,
+      Math.min(
+        PURCHASE_RETRY_DELAY_MS * 2 ** (purchase.attempts - 1),
+        PURCHASE_MAX_RETRY_DELAY_MS,
+      ),
+      { kind: "purchase", purchaseId: purchase._id },
+    );
+    await ctx.db.patch(purchase._id, {
+      attemptExpiresAt: undefined,
+      retryJobId,
+      lastError: args.error,
+      updatedAt: Date.now(),
+    });
+    return purchase.status;
+  },
+});
+
+/**
+ * Make sure a retry of the purchase is scheduled, so it is resumed if the
+ * action running it dies. A retry already pending is kept.
+ */
+async function ensurePurchaseRetry(
+  ctx: MutationCtx,
+  purchase: Doc<"virtual_currency_purchases">,
+  delayMs: number,
+) {
+  if (await isPendingJob(ctx, purchase.retryJobId)) return;
+  const retryJobId = await scheduleWorkerTask(ctx, delayMs, {
+    kind: "purchase",
+    purchaseId: purchase._id,
+  });
+  await ctx.db.patch(purchase._id, { retryJobId });
+}
+
+async function finishVirtualCurrencyPurchase(
+  ctx: MutationCtx,
+  purchase: Doc<"virtual_currency_purchases">,
+  status: "fulfilled" | "failed",
+  error?: string,
+) {
+  if (
+    purchase.retryJobId &&
+    (await isPendingJob(ctx, purchase.retryJobId))
+  ) {
+    await ctx.scheduler.cancel(purchase.retryJobId);
+  }
+  const now = Date.now();
+  await ctx.db.patch(purchase._id, {
+    status,
+    attemptExpiresAt: undefined,
+    retryJobId: undefined,
+    ...(error !== undefined && { lastError: error }),
+    updatedAt: now,
+    completedAt: now,
+  });
+}
@@ -1,6 +1,19 @@
-import { v } from "convex/values";
-import { query } from "./_generated/server.js";
-import schema from "./schema.js";
+import { paginationOptsValidator, paginationResultValidator } from "convex/server";
+import { v, type Infer } from "convex/values";
+import type { Doc } from "./_generated/dataModel.js";
+import { query, type QueryCtx } from "./_generated/server.js";
+import { resolveAppUserId } from "./aliases.js";
+import {
+  getBucketState,
+  msUntilTokens,
+  RATE_LIMIT_BUCKETS,
+} from "./rateLimits.js";
+import schema, {
+  entitlementDrift,
+  entitlementStatus,
+  rateLimitBucket,
+  virtualCurrencyPurchaseStatus,
+} from "./schema.js";
 
 // ============================================================================
 // VALIDATOR HELPERS
@@ -8,8 +21,54 @@ import schema from "./schema.js";
 
 const entitlementValidator = schema.tables.entitlements.validator;
 const subscriberValidator = schema.tables.subscribers.validator;
+const subscriptionValidator = schema.tables.subscriptions.validator;
+const subscriptionStatusValidator = v.object({
+  entitlementId: v.string(),
+  status: entitlementStatus,
+  isActive: v.boolean(),
+  expiresDate: v.optional(v.string()),
+});
+const transactionValidator = schema.tables.transactions.validator;
+const entitlementDefinitionValidator =
+  schema.tables.entitlement_definitions.validator;
+const productValidator = schema.tables.products.validator;
+const offeringWithPackagesValidator = v.object({
+  ...schema.tables.offerings.validator.fields,
+  packages: v.array(
+    v.object({
+      ...schema.tables.packages.validator.fields,
+      products: v.array(productValidator),
+    }),
+  ),
+});
 const virtualCurrencyBalanceValidator =
   schema.tables.virtual_currency_balances.validator;
+const virtualCurrencyDefinitionValidator =
+  schema.tables.virtual_currency_definitions.validator;
+const virtualCurrencyBalanceWithDefinitionValidator = v.object({
+  ...virtualCurrencyBalanceValidator.fields,
+  name: v.optional(v.string()),
+  description: v.optional(v.string()),
+});
+const virtualCurrencyPurchaseValidator = v.object({
+  purchaseId: v.id("virtual_currency_purchases"),
+  ...schema.tables.virtual_currency_purchases.validator.fields,
+});
+const virtualCurrencyTransactionValidator =
+  schema.tables.virtual_currency_transactions.validator;
+const backfillJobValidator = v.object({
+  jobId: v.id("backfill_jobs"),
+  ...schema.tables.backfill_jobs.validator.fields,
+});
+const reconciliationDriftValidator =
+  schema.tables.reconciliation_drift.validator;
+const driftReportValidator = v.object({
+  reportId: v.id("drift_reports"),
+  ...schema.tables.drift_reports.validator.fields,
+});
+const driftReportEntryValidator = entitlementDrift;
+const eventLogValidator = schema.tables.webhook_event_log.validator;
+const deadLetterValidator = schema.tables.webhook_dead_letters.validator;
 
 // ============================================================================
 // HELPERS
@@ -29,6 +88,71 @@ function computeIsActive(ent: {
   return new Date(ent.expiresDate).getTime() > Date.now();
 }
 
+/**
+ * Compute an entitlement's lifecycle status. The stored status is written
+ * at sync time, so an entitlement whose expiration has since passed is
+ * reported as expired. Rows synced before statuses were tracked fall back
+ * to "active" / "expired".
+ */
+function computeStatus(ent: Doc<"entitlements">): Infer<
+  typeof subscriptionStatusValidator
+> {
+  const isActive = computeIsActive(ent);
+  return {
+    entitlementId: ent.entitlementId,
+    status: !isActive ? "expired" : (ent.status ?? "active"),
+    isActive,
+    expiresDate: ent.expiresDate,
+  };
+}
+
+/**
+ * Attach an offering's packages, in position order, each with its products.
+ */
+async function withPackages(
+  ctx: QueryCtx,
+  offering: Doc<"offerings">,
+): Promise<Infer<typeof offeringWithPackagesValidator>> {
+  const packages = await ctx.db
+    .query("packages")
+    .withIndex("by_offering_id_and_position", (q) =>
+      q.eq("offeringId", offering.offeringId),
+    )
+    .collect();
+
+  const { _id, _creationTime, ...offeringData } = offering;
+  return {
+    ...offeringData,
+    packages: await Promise.all(
+      packages.map(async ({ _id, _creationTime, ...pkg }) => ({
+        ...pkg,
+        products: await getProductsById(ctx, pkg.productIds),
+      })),
+    ),
+  };
+}
+
+/**
+ * Look up cached products by ID, skipping any not in the catalog.
+ */
+async function getProductsById(
+  ctx: QueryCtx,
+  productIds: string[],
+): Promise<Infer<typeof productValidator>[]> {
+  const products: Infer<typeof productValidator>[] = [];
+  for (const productId of productIds) {
+    const product = await ctx.db
+      .query("products")
+      .withIndex("by_product_id", (q) => q.eq("productId", productId))
+      .unique();
+    if (product) {
+      const { _id, _creationTime, ...data } = product;
+      products.push(data);
+    }
+  }
+  return products;
+}
+
 // ============================================================================
 // PUBLIC QUERIES
 // ============================================================================
@@ -40,10 +164,11 @@ export const getActiveEntitlements = query({
   args: { appUserId: v.string() },
   returns: v.array(entitlementValidator),
   handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
     const entitlements = await ctx.db
       .query("entitlements")
       .withIndex("by_app_user_id_and_active", (q) =>
-        q.eq("appUserId", args.appUserId).eq("isActive", true),
+        q.eq("appUserId", appUserId).eq("isActive", true),
       )
       .collect();
     return entitlements
@@ -59,11 +184,12 @@ export const hasActiveEntitlement = query({
   args: { appUserId: v.string(), entitlementId: v.string() },
   returns: v.boolean(),
   handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
     const entitlement = await ctx.db
       .query("entitlements")
       .withIndex("by_app_user_id_and_entitlement", (q) =>
         q
-          .eq("appUserId", args.appUserId)
+          .eq("appUserId", appUserId)
           .eq("entitlementId", args.entitlementId),
       )
       .unique();
@@ -79,10 +205,11 @@ export const getEntitlements = query({
   args: { appUserId: v.string() },
   returns: v.array(entitlementValidator),
   handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
     const entitlements = await ctx.db
       .query("entitlements")
       .withIndex("by_app_user_id", (q) =>
-        q.eq("appUserId", args.appUserId),
+        q.eq("appUserId", appUserId),
       )
       .collect();
     return entitlements.map(({ _id, _creationTime, ...data }) => data);
@@ -96,11 +223,12 @@ export const getEntitlement = query({
   args: { appUserId: v.string(), entitlementId: v.string() },
   returns: v.union(entitlementValidator, v.null()),
   handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
     const entitlement = await ctx.db
       .query("entitlements")
       .withIndex("by_app_user_id_and_entitlement", (q) =>
         q
-          .eq("appUserId", args.appUserId)
+          .eq("appUserId", appUserId)
           .eq("entitlementId", args.entitlementId),
       )
       .unique();
@@ -117,10 +245,11 @@ export const getSubscriber = query({
   args: { appUserId: v.string() },
   returns: v.union(subscriberValidator, v.null()),
   handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
     const subscriber = await ctx.db
       .query("subscribers")
       .withIndex("by_app_user_id", (q) =>
-        q.eq("appUserId", args.appUserId),
+        q.eq("appUserId", appUserId),
       )
       .unique();
     if (!subscriber) return null;
@@ -129,6 +258,318 @@ export const getSubscriber = query({
   },
 });
 
+/**
+ * Page through the app_user_ids of all cached subscribers.
+ */
+export const listSubscriberIds = query({
+  args: { paginationOpts: paginationOptsValidator },
+  returns: paginationResultValidator(v.string()),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("subscribers")
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map((subscriber) => subscriber.appUserId),
+    };
+  },
+});
+
+// ============================================================================
+// SUBSCRIPTION QUERIES
+// ============================================================================
+
+/**
+ * Get the lifecycle status of an entitlement for a user (trial, active,
+ * grace_period, billing_retry, cancelled, paused or expired).
+ */
+export const getSubscriptionStatus = query({
+  args: { appUserId: v.string(), entitlementId: v.string() },
+  returns: v.union(subscriptionStatusValidator, v.null()),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const entitlement = await ctx.db
+      .query("entitlements")
+      .withIndex("by_app_user_id_and_entitlement", (q) =>
+        q
+          .eq("appUserId", appUserId)
+          .eq("entitlementId", args.entitlementId),
+      )
+      .unique();
+    if (!entitlement) return null;
+    return computeStatus(entitlement);
+  },
+});
+
+/**
+ * Get the lifecycle status of every entitlement a user has or had.
+ */
+export const getSubscriptionStatuses = query({
+  args: { appUserId: v.string() },
+  returns: v.array(subscriptionStatusValidator),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const entitlements = await ctx.db
+      .query("entitlements")
+      .withIndex("by_app_user_id", (q) =>
+        q.eq("appUserId", appUserId),
+      )
+      .collect();
+    return entitlements.map(computeStatus);
+  },
+});
+
+/**
+ * Get subscriptions that currently grant access (including trials and
+ * billing grace periods) for a user.
+ */
+export const getActiveSubscriptions = query({
+  args: { appUserId: v.string() },
+  returns: v.array(subscriptionValidator),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const subscriptions = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_app_user_id_and_gives_access", (q) =>
+        q.eq("appUserId", appUserId).eq("givesAccess", true),
+      )
+      .collect();
+
+    return subscriptions.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * Get all subscriptions for a user, including expired ones.
+ */
+export const getSubscriptions = query({
+  args: { appUserId: v.string() },
+  returns: v.array(subscriptionValidator),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const subscriptions = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_app_user_id", (q) => q.eq("appUserId", appUserId))
+      .collect();
+
+    return subscriptions.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * Get a specific subscription by its RevenueCat subscription ID.
+ */
+export const getSubscription = query({
+  args: { appUserId: v.string(), subscriptionId: v.string() },
+  returns: v.union(subscriptionValidator, v.null()),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const subscription = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_app_user_id_and_subscription", (q) =>
+        q
+          .eq("appUserId", appUserId)
+          .eq("subscriptionId", args.subscriptionId),
+      )
+      .unique();
+    if (!subscription) return null;
+    const { _id, _creationTime, ...data } = subscription;
+    return data;
+  },
+});
+
+// ============================================================================
+// ALIAS QUERIES
+// ============================================================================
+
+/**
+ * Resolve an app_user_id to the canonical ID its cached rows are stored
+ * under, with every other ID known to be the same customer.
+ */
+export const getSubscriberAliases = query({
+  args: { appUserId: v.string() },
+  returns: v.object({ appUserId: v.string(), aliases: v.array(v.string()) }),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const aliases = await ctx.db
+      .query("subscriber_aliases")
+      .withIndex("by_app_user_id", (q) => q.eq("appUserId", appUserId))
+      .collect();
+    return { appUserId, aliases: aliases.map((row) => row.alias) };
+  },
+});
+
+// ============================================================================
+// TRANSACTION QUERIES
+// ============================================================================
+
+/**
+ * Get a transaction by its store `transaction_id`.
+ */
+export const getTransaction = query({
+  args: { transactionId: v.string() },
+  returns: v.union(transactionValidator, v.null()),
+  handler: async (ctx, args) => {
+    const transaction = await ctx.db
+      .query("transactions")
+      .withIndex("by_transaction_id", (q) =>
+        q.eq("transactionId", args.transactionId),
+      )
+      .unique();
+    if (!transaction) return null;
+    const { _id, _creationTime, ...data } = transaction;
+    return data;
+  },
+});
+
+/**
+ * Page through a user's transactions, most recent purchase first.
+ */
+export const listTransactionsByAppUserId = query({
+  args: {
+    appUserId: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(transactionValidator),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const result = await ctx.db
+      .query("transactions")
+      .withIndex("by_app_user_id_and_purchased_at", (q) =>
+        q.eq("appUserId", appUserId),
+      )
+      .order("desc")
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(({ _id, _creationTime, ...data }) => data),
+    };
+  },
+});
+
+/**
+ * Page through the renewals of a subscription (all transactions sharing an
+ * `original_transaction_id`), most recent first.
+ */
+export const listTransactionsByOriginalTransactionId = query({
+  args: {
+    originalTransactionId: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(transactionValidator),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("transactions")
+      .withIndex("by_original_transaction_id_and_purchased_at", (q) =>
+        q.eq("originalTransactionId", args.originalTransactionId),
+      )
+      .order("desc")
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(({ _id, _creationTime, ...data }) => data),
+    };
+  },
+});
+
+// ============================================================================
+// ENTITLEMENT DEFINITION QUERIES
+// ============================================================================
+
+/**
+ * Get the cached entitlement definitions (opaque ID → lookup key).
+ */
+export const getEntitlementDefinitions = query({
+  args: {},
+  returns: v.array(entitlementDefinitionValidator),
+  handler: async (ctx) => {
+    const definitions = await ctx.db.query("entitlement_definitions").collect();
+    return definitions.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * Get the entitlement IDs customers have that the cached definitions don't
+ * include, e.g. entitlements deleted from the project.
+ */
+export const getUnknownEntitlementIds = query({
+  args: {},
+  returns: v.array(v.string()),
+  handler: async (ctx) => {
+    const unknown = await ctx.db.query("unknown_entitlements").collect();
+    return unknown.map((row) => row.entitlementId);
+  },
+});
+
+// ============================================================================
+// CATALOG QUERIES
+// ============================================================================
+
+/**
+ * Get all offerings with their packages and products.
+ */
+export const getOfferings = query({
+  args: {},
+  returns: v.array(offeringWithPackagesValidator),
+  handler: async (ctx) => {
+    const offerings = await ctx.db.query("offerings").collect();
+    return await Promise.all(
+      offerings.map((offering) => withPackages(ctx, offering)),
+    );
+  },
+});
+
+/**
+ * Get the offering marked as current in the RevenueCat dashboard.
+ */
+export const getCurrentOffering = query({
+  args: {},
+  returns: v.union(offeringWithPackagesValidator, v.null()),
+  handler: async (ctx) => {
+    const offering = await ctx.db
+      .query("offerings")
+      .withIndex("by_is_current", (q) => q.eq("isCurrent", true))
+      .first();
+    return offering ? await withPackages(ctx, offering) : null;
+  },
+});
+
+/**
+ * Get an offering by its lookup key.
+ */
+export const getOffering = query({
+  args: { lookupKey: v.string() },
+  returns: v.union(offeringWithPackagesValidator, v.null()),
+  handler: async (ctx, args) => {
+    const offering = await ctx.db
+      .query("offerings")
+      .withIndex("by_lookup_key", (q) => q.eq("lookupKey", args.lookupKey))
+      .first();
+    return offering ? await withPackages(ctx, offering) : null;
+  },
+});
+
+/**
+ * Get the products that unlock an entitlement.
+ * The `entitlementId` is the entitlement's lookup key (e.g., "premium").
+ */
+export const getProductsForEntitlement = query({
+  args: { entitlementId: v.string() },
+  returns: v.array(productValidator),
+  handler: async (ctx, args) => {
+    const links = await ctx.db
+      .query("entitlement_products")
+      .withIndex("by_entitlement_id", (q) =>
+        q.eq("entitlementId", args.entitlementId),
+      )
+      .collect();
+    return await getProductsById(
+      ctx,
+      links.map((link) => link.productId),
+    );
+  },
+});
+
 // ============================================================================
 // VIRTUAL CURRENCY QUERIES
 // ============================================================================
@@ -140,10 +581,11 @@ export const getVirtualCurrencyBalances = query({
   args: { appUserId: v.string() },
   returns: v.array(virtualCurrencyBalanceValidator),
   handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
     const balances = await ctx.db
       .query("virtual_currency_balances")
       .withIndex("by_app_user_id", (q) =>
-        q.eq("appUserId", args.appUserId),
+        q.eq("appUserId", appUserId),
       )
       .collect();
     return balances.map(({ _id, _creationTime, ...data }) => data);
@@ -157,11 +599,12 @@ export const getVirtualCurrencyBalance = query({
   args: { appUserId: v.string(), currencyCode: v.string() },
   returns: v.union(virtualCurrencyBalanceValidator, v.null()),
   handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
     const balance = await ctx.db
       .query("virtual_currency_balances")
       .withIndex("by_app_user_id_and_currency", (q) =>
         q
-          .eq("appUserId", args.appUserId)
+          .eq("appUserId", appUserId)
           .eq("currencyCode", args.currencyCode),
       )
       .unique();
@@ -170,3 +613,582 @@ export const getVirtualCurrencyBalance = query({
     return data;
   },
 });
+
+/**
+ * Get a user's cached virtual currency balances with each currency's name
+ * and description. Balances of currencies without a cached definition are
+ * returned without them.
+ */
+export const getVirtualCurrencyBalancesWithDefinitions = query({
+  args: { appUserId: v.string() },
+  returns: v.array(virtualCurrencyBalanceWithDefinitionValidator),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const balances = await ctx.db
+      .query("virtual_currency_balances")
+      .withIndex("by_app_user_id", (q) => q.eq("appUserId", appUserId))
+      .collect();
+    return await Promise.all(
+      balances.map(async ({ _id, _creationTime, ...balance }) => {
+        const definition = await ctx.db
+          .query("virtual_currency_definitions")
+          .withIndex("by_currency_code", (q) =>
+            q.eq("currencyCode", balance.currencyCode),
+          )
+          .unique();
+        return {
+          ...balance,
+          ...(definition && {
+            name: definition.name,
+            ...(definition.description !== undefined && {
+              description: definition.description,
+            }),
+          }),
+        };
+      }),
+    );
+  },
+});
+
+/**
+ * Get the cached virtual currency definitions of the project.
+ */
+export const getVirtualCurrencyDefinitions = query({
+  args: {},
+  returns: v.array(virtualCurrencyDefinitionValidator),
+  handler: async (ctx) => {
+    const definitions = await ctx.db
+      .query("virtual_currency_definitions")
+      .collect();
+    return definitions.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * Page through a user's virtual currency ledger, most recent first. A
+ * transaction adjusting several currencies has one entry per currency.
+ */
+export const listVirtualCurrencyTransactionsByAppUserId = query({
+  args: {
+    appUserId: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(virtualCurrencyTransactionValidator),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const result = await ctx.db
+      .query("virtual_currency_transactions")
+      .withIndex("by_app_user_id_and_occurred_at", (q) =>
+        q.eq("appUserId", appUserId),
+      )
+      .order("desc")
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(({ _id, _creationTime, ...data }) => data),
+    };
+  },
+});
+
+/**
+ * Page through a user's ledger entries for one currency, most recent first.
+ */
+export const listVirtualCurrencyTransactionsByCurrency = query({
+  args: {
+    appUserId: v.string(),
+    currencyCode: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(virtualCurrencyTransactionValidator),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const result = await ctx.db
+      .query("virtual_currency_transactions")
+      .withIndex("by_app_user_id_and_currency_and_occurred_at", (q) =>
+        q.eq("appUserId", appUserId).eq("currencyCode", args.currencyCode),
+      )
+      .order("desc")
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(({ _id, _creationTime, ...data }) => data),
+    };
+  },
+});
+
+/**
+ * Get a virtual currency purchase with its progress.
+ */
+export const getVirtualCurrencyPurchase = query({
+  args: { purchaseId: v.id("virtual_currency_purchases") },
+  returns: v.union(virtualCurrencyPurchaseValidator, v.null()),
+  handler: async (ctx, args) => {
+    const purchase = await ctx.db.get(args.purchaseId);
+    if (!purchase) return null;
+    const { _id, _creationTime, ...data } = purchase;
+    return { purchaseId: _id, ...data };
+  },
+});
+
+/**
+ * Page through virtual currency purchases in one status, newest first,
+ * e.g. the failed ones to refund or fulfil by hand.
+ */
+export const listVirtualCurrencyPurchasesByStatus = query({
+  args: {
+    status: virtualCurrencyPurchaseStatus,
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(virtualCurrencyPurchaseValidator),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("virtual_currency_purchases")
+      .withIndex("by_status_and_created_at", (q) =>
+        q.eq("status", args.status),
+      )
+      .order("desc")
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(({ _id, _creationTime, ...data }) => ({
+        purchaseId: _id,
+        ...data,
+      })),
+    };
+  },
+});
+
+// ============================================================================
+// BACKFILL QUERIES
+// ============================================================================
+
+/**
+ * Get a customer backfill job with its progress and stats.
+ */
+export const getBackfillJob = query({
+  args: { jobId: v.id("backfill_jobs") },
+  returns: v.union(backfillJobValidator, v.null()),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) return null;
+    const { _id, _creationTime, ...data } = job;
+    return { jobId: _id, ...data };
+  },
+});
+
+/**
+ * Page through customer backfill jobs, newest first.
+ */
+export const listBackfillJobs = query({
+  args: { paginationOpts: paginationOptsValidator },
+  returns: paginationResultValidator(backfillJobValidator),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("backfill_jobs")
+      .order("desc")
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(({ _id, _creationTime, ...data }) => ({
+        jobId: _id,
+        ...data,
+      })),
+    };
+  },
+});
+
+// ============================================================================
+// RECONCILIATION QUERIES
+// ============================================================================
+
+/**
+ * Page through entitlement drift corrected by reconciliation, newest first.
+ */
+export const listReconciliationDrift = query({
+  args: { paginationOpts: paginationOptsValidator },
+  returns: paginationResultValidator(reconciliationDriftValidator),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("reconciliation_drift")
+      .withIndex("by_detected_at")
+      .order("desc")
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(({ _id, _creationTime, ...data }) => data),
+    };
+  },
+});
+
+/**
+ * Page through entitlement drift corrected for one user, newest first.
+ */
+export const listReconciliationDriftByAppUserId = query({
+  args: { appUserId: v.string(), paginationOpts: paginationOptsValidator },
+  returns: paginationResultValidator(reconciliationDriftValidator),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const result = await ctx.db
+      .query("reconciliation_drift")
+      .withIndex("by_app_user_id_and_detected_at", (q) =>
+        q.eq("appUserId", appUserId),
+      )
+      .order("desc")
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(({ _id, _creationTime, ...data }) => data),
+    };
+  },
+});
+
+// ============================================================================
+// ENTITLEMENT CHANGE QUERIES
+// ============================================================================
+
+/**
+ * List the oldest entitlement changes waiting for the worker to fire the
+ * host's entitlement change callbacks.
+ */
+export const listPendingEntitlementChanges = query({
+  args: { limit: v.number() },
+  returns: v.array(
+    v.object({
+      id: v.id("entitlement_change_outbox"),
+      ...schema.tables.entitlement_change_outbox.validator.fields,
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const pending = await ctx.db
+      .query("entitlement_change_outbox")
+      .take(args.limit);
+    return pending.map(({ _id, _creationTime, ...data }) => ({
+      id: _id,
+      ...data,
+    }));
+  },
+});
+
+// ============================================================================
+// DRIFT AUDIT QUERIES
+// ============================================================================
+
+/**
+ * Get a drift audit report with its summary counts.
+ */
+export const getDriftReport = query({
+  args: { reportId: v.id("drift_reports") },
+  returns: v.union(driftReportValidator, v.null()),
+  handler: async (ctx, args) => {
+    const report = await ctx.db.get(args.reportId);
+    if (!report) return null;
+    const { _id, _creationTime, ...data } = report;
+    return { reportId: _id, ...data };
+  },
+});
+
+/**
+ * Page through drift audit reports, newest first.
+ */
+export const listDriftReports = query({
+  args: { paginationOpts: paginationOptsValidator },
+  returns: paginationResultValidator(driftReportValidator),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("drift_reports")
+      .order("desc")
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(({ _id, _creationTime, ...data }) => ({
+        reportId: _id,
+        ...data,
+      })),
+    };
+  },
+});
+
+/**
+ * Page through the per-subscriber findings of a drift audit report.
+ */
+export const listDriftReportEntries = query({
+  args: {
+    reportId: v.id("drift_reports"),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(driftReportEntryValidator),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("drift_report_entries")
+      .withIndex("by_report_id", (q) => q.eq("reportId", args.reportId))
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(
+        ({ _id, _creationTime, reportId, ...data }) => data,
+      ),
+    };
+  },
+});
+
+// ============================================================================
+// WEBHOOK EVENT LOG QUERIES
+// ============================================================================
+
+/**
+ * Get the event log entry (payload and status history) for a RevenueCat event.
+ */
+export const getEventLogEntry = query({
+  args: { revenuecatEventId: v.string() },
+  returns: v.union(eventLogValidator, v.null()),
+  handler: async (ctx, args) => {
+    const entry = await ctx.db
+      .query("webhook_event_log")
+      .withIndex("by_revenuecat_event_id", (q) =>
+        q.eq("revenuecatEventId", args.revenuecatEventId),
+      )
+      .unique();
+    if (!entry) return null;
+    const { _id, _creationTime, ...data } = entry;
+    return data;
+  },
+});
+
+/**
+ * Page through logged webhook events for a user, newest first.
+ * Optionally restricted to an `eventTimestampMs` range (inclusive).
+ *
+ * The log is keyed by the `app_user_id` each event was delivered with, so
+ * events are matched on that ID as given, never on another ID of the same
+ * customer.
+ */
+export const listEventLogByAppUserId = query({
+  args: {
+    appUserId: v.string(),
+    startMs: v.optional(v.number()),
+    endMs: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(eventLogValidator),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("webhook_event_log")
+      .withIndex("by_app_user_id_and_timestamp", (q) => {
+        const byUser = q.eq("appUserId", args.appUserId);
+        const lower =
+          args.startMs !== undefined
+            ? byUser.gte("eventTimestampMs", args.startMs)
+            : byUser;
+        return args.endMs !== undefined
+          ? lower.lte("eventTimestampMs", args.endMs)
+          : lower;
+      })
+      .order("desc")
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(({ _id, _creationTime, ...data }) => data),
+    };
+  },
+});
+
+/**
+ * Page through logged webhook events of one type, newest first.
+ * Optionally restricted to an `eventTimestampMs` range (inclusive).
+ */
+export const listEventLogByEventType = query({
+  args: {
+    eventType: v.string(),
+    startMs: v.optional(v.number()),
+    endMs: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(eventLogValidator),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("webhook_event_log")
+      .withIndex("by_event_type_and_timestamp", (q) => {
+        const byType = q.eq("eventType", args.eventType);
+        const lower =
+          args.startMs !== undefined
+            ? byType.gte("eventTimestampMs", args.startMs)
+            : byType;
+        return args.endMs !== undefined
+          ? lower.lte("eventTimestampMs", args.endMs)
+          : lower;
+      })
+      .order("desc")
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(({ _id, _creationTime, ...data }) => data),
+    };
+  },
+});
+
+/**
+ * Page through all logged webhook events in an `eventTimestampMs` range
+ * (inclusive), newest first.
+ */
+export const listEventLogByTimeRange = query({
+  args: {
+    startMs: v.optional(v.number()),
+    endMs: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(eventLogValidator),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("webhook_event_log")
+      .withIndex("by_timestamp", (q) => {
+        const lower =
+          args.startMs !== undefined
+            ? q.gte("eventTimestampMs", args.startMs)
+            : q;
+        return args.endMs !== undefined
+          ? lower.lte("eventTimestampMs", args.endMs)
+          : lower;
+      })
+      .order("desc")
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(({ _id, _creationTime, ...data }) => data),
+    };
+  },
+});
+
+// ============================================================================
+// DEAD-LETTER QUERIES
+// ============================================================================
+
+/**
+ * Get the dead letter for a RevenueCat event, if it has one.
+ */
+export const getDeadLetter = query({
+  args: { revenuecatEventId: v.string() },
+  returns: v.union(deadLetterValidator, v.null()),
+  handler: async (ctx, args) => {
+    const deadLetter = await ctx.db
+      .query("webhook_dead_letters")
+      .withIndex("by_revenuecat_event_id", (q) =>
+        q.eq("revenuecatEventId", args.revenuecatEventId),
+      )
+      .unique();
+    if (!deadLetter) return null;
+    const { _id, _creationTime, ...data } = deadLetter;
+    return data;
+  },
+});
+
+/**
+ * Page through dead-lettered webhook events, oldest first.
+ * Defaults to events still pending replay.
+ */
+export const listDeadLetters = query({
+  args: {
+    status: v.optional(v.union(v.literal("pending"), v.literal("resolved"))),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(deadLetterValidator),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("webhook_dead_letters")
+      .withIndex("by_status_and_dead_lettered_at", (q) =>
+        q.eq("status", args.status ?? "pending"),
+      )
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map(({ _id, _creationTime, ...data }) => data),
+    };
+  },
+});
+
+// ============================================================================
+// RATE LIMIT QUERIES
+// ============================================================================
+
+/**
+ * Get the current state of each RevenueCat API rate limit bucket: its
+ * budget, the whole tokens left to spend, and when the next token is
+ * refilled (`null` when the bucket is full).
+ */
+export const getRateLimitStatus = query({
+  args: {},
+  returns: v.array(
+    v.object({
+      bucket: rateLimitBucket,
+      maxRequests: v.number(),
+      windowMs: v.number(),
+      used: v.number(),
+      remaining: v.number(),
+      nextSlotAt: v.union(v.number(), v.null()),
+    }),
+  ),
+  handler: async (ctx) => {
+    const now = Date.now();
+    const statuses = [];
+    for (const bucket of RATE_LIMIT_BUCKETS) {
+      const { tokens, ...limit } = await getBucketState(ctx, bucket, now);
+      const remaining = Math.floor(tokens);
+      statuses.push({
+        bucket,
+        ...limit,
+        used: limit.maxRequests - remaining,
+        remaining,
+        nextSlotAt:
+          remaining < limit.maxRequests
+            ? now + msUntilTokens(tokens, remaining + 1, limit)
+            : null,
+      });
+    }
+    return statuses;
+  },
+});
+
+// ============================================================================
+// SYNC LEASE QUERIES
+// ============================================================================
+
+/**
+ * Get a subscriber's sync lease: whether a full resync is running, when the
+ * last one completed, and whether a trailing resync is pending.
+ */
+export const getSyncLease = query({
+  args: { appUserId: v.string() },
+  returns: v.union(
+    v.object({
+      appUserId: v.string(),
+      running: v.boolean(),
+      startedAt: v.optional(v.number()),
+      completedAt: v.optional(v.number()),
+      trailingSyncPending: v.boolean(),
+    }),
+    v.null(),
+  ),
+  handler: async (ctx, args) => {
+    const appUserId = await resolveAppUserId(ctx, args.appUserId);
+    const lease = await ctx.db
+      .query("sync_leases")
+      .withIndex("by_app_user_id", (q) => q.eq("appUserId", appUserId))
+      .unique();
+    if (!lease) return null;
+    const {
+      _id,
+      _creationTime,
+      startedAt,
+      expiresAt,
+      trailingRequested,
+      trailingJobId,
+      ...data
+    } = lease;
+    const running = expiresAt !== undefined && expiresAt > Date.now();
+    return {
+      ...data,
+      running,
+      ...(running ? { startedAt } : {}),
+      trailingSyncPending: trailingRequested || trailingJobId !== undefined,
+    };
+  },
+});
@@ -0,0 +1,398 @@
+import { createFunctionHandle } from "convex/server";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import type { Id } from "./_generated/dataModel.js";
+import {
+  hostApi,
+  initConvexTest,
+  stubRevenueCat,
+  type RevenueCatRequest,
+} from "./setup.test.js";
+
+// Time is moved with setSystemTime, so scheduled worker tasks never run
+async function initWithWorker() {
+  const t = initConvexTest();
+  const workerHandle = await t.run(() =>
+    createFunctionHandle(api.public.getSyncLease),
+  );
+  await t.mutation(api.private.registerWorker, { workerHandle });
+  return t;
+}
+
+type TestConvex = Awaited<ReturnType<typeof initWithWorker>>;
+
+// The fulfilment aliases the buyer to a marker ID, so it can be observed
+async function startPurchase(t: TestConvex, fulfilArgs?: unknown) {
+  const fulfilHandle = await t.run(() =>
+    createFunctionHandle(api.private.mergeSubscriberAliases),
+  );
+  return await t.mutation(api.private.startVirtualCurrencyPurchase, {
+    appUserId: "user_1",
+    adjustments: [{ currencyCode: "GEMS", amount: 10 }],
+    fulfilHandle,
+    fulfilArgs: fulfilArgs ?? { appUserId: "fulfilled", aliases: ["user_1"] },
+  });
+}
+
+function getPurchase(
+  t: TestConvex,
+  purchaseId: Id<"virtual_currency_purchases">,
+) {
+  return t.query(api.public.getVirtualCurrencyPurchase, { purchaseId });
+}
+
+function pendingRetries(t: TestConvex) {
+  return t.run(async (ctx) => {
+    const jobs = await ctx.db.system.query("_scheduled_functions").collect();
+    return jobs.filter(
+      (job) =>
+        job.state.kind === "pending" && job.args[0]?.task?.kind === "purchase",
+    );
+  });
+}
+
+async function failAttempt(
+  t: TestConvex,
+  purchaseId: Id<"virtual_currency_purchases">,
+  retryable: boolean,
+) {
+  const attempt = await t.mutation(
+    api.private.beginVirtualCurrencyPurchaseAttempt,
+    { purchaseId },
+  );
+  expect(attempt.status).not.toBe("in_progress");
+  return await t.mutation(api.private.failVirtualCurrencyPurchaseAttempt, {
+    purchaseId,
+    error: "boom",
+    retryable,
+  });
+}
+
+describe("virtual currency purchases", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  test("refuses to start without a worker", async () => {
+    const t = initConvexTest();
+    await expect(
+      t.mutation(api.private.startVirtualCurrencyPurchase, {
+        appUserId: "user_1",
+        adjustments: [{ currencyCode: "GEMS", amount: 10 }],
+        fulfilHandle: "unused",
+        fulfilArgs: {},
+      }),
+    ).rejects.toThrow(/No RevenueCat worker registered/);
+  });
+
+  test("resumes a purchase by its key and rejects a reuse for another", async () => {
+    const t = await initWithWorker();
+    const start = (appUserId: string, amount: number) =>
+      t.mutation(api.private.startVirtualCurrencyPurchase, {
+        appUserId,
+        adjustments: [{ currencyCode: "GEMS", amount }],
+        fulfilHandle: "unused",
+        fulfilArgs: {},
+        purchaseKey: "order_1",
+      });
+
+    const purchaseId = await start("user_1", 10);
+    expect(await start("user_1", 10)).toBe(purchaseId);
+    await expect(start("user_2", 10)).rejects.toThrow(
+      /purchaseKey order_1 is already used/,
+    );
+    await expect(start("user_1", 20)).rejects.toThrow(
+      /purchaseKey order_1 is already used/,
+    );
+    expect(await pendingRetries(t)).toHaveLength(1);
+  });
+
+  test("gives overlapping attempts the purchase one at a time", async () => {
+    const t = await initWithWorker();
+    const purchaseId = await startPurchase(t);
+    expect(await pendingRetries(t)).toHaveLength(1);
+
+    const first = await t.mutation(
+      api.private.beginVirtualCurrencyPurchaseAttempt,
+      { purchaseId },
+    );
+    expect(first).toMatchObject({
+      status: "pending",
+      idempotencyKey: `virtual-currency-purchase:${purchaseId}`,
+      spendSent: false,
+    });
+
+    const second = await t.mutation(
+      api.private.beginVirtualCurrencyPurchaseAttempt,
+      { purchaseId },
+    );
+    expect(second).toEqual({ status: "in_progress", expiresAt: 1_120_000 });
+
+    // Once the claim lapses, a crashed attempt's purchase is resumed
+    vi.setSystemTime(1_120_001);
+    const resumed = await t.mutation(
+      api.private.beginVirtualCurrencyPurchaseAttempt,
+      { purchaseId },
+    );
+    expect(resumed).toMatchObject({
+      status: "pending",
+      idempotencyKey: `virtual-currency-purchase:${purchaseId}`,
+    });
+    expect((await getPurchase(t, purchaseId))?.attempts).toBe(2);
+  });
+
+  test("tells a resumed attempt the spend was already sent", async () => {
+    const t = await initWithWorker();
+    const purchaseId = await startPurchase(t);
+    await t.mutation(api.private.beginVirtualCurrencyPurchaseAttempt, {
+      purchaseId,
+    });
+    await t.mutation(api.private.markVirtualCurrencyPurchaseSpendSent, {
+      purchaseId,
+    });
+
+    vi.setSystemTime(1_200_000);
+    const resumed = await t.mutation(
+      api.private.beginVirtualCurrencyPurchaseAttempt,
+      { purchaseId },
+    );
+    expect(resumed).toMatchObject({ status: "pending", spendSent: true });
+  });
+
+  test("fails an unsent purchase on a final error", async () => {
+    const t = await initWithWorker();
+    const purchaseId = await startPurchase(t);
+
+    expect(await failAttempt(t, purchaseId, false)).toBe("failed");
+    expect(await getPurchase(t, purchaseId)).toMatchObject({
+      status: "failed",
+      lastError: "boom",
+    });
+    expect(await pendingRetries(t)).toHaveLength(0);
+  });
+
+  test("fails an unsent purchase once it runs out of attempts", async () => {
+    const t = await initWithWorker();
+    const purchaseId = await startPurchase(t);
+
+    for (let attempt = 1; attempt < 5; attempt++) {
+      expect(await failAttempt(t, purchaseId, true)).toBe("pending");
+      expect(await pendingRetries(t)).toHaveLength(1);
+    }
+    expect(await failAttempt(t, purchaseId, true)).toBe("failed");
+    expect(await pendingRetries(t)).toHaveLength(0);
+  });
+
+  test("never fails a purchase whose spend may have been sent", async () => {
+    const t = await initWithWorker();
+    const purchaseId = await startPurchase(t);
+    await t.mutation(api.private.beginVirtualCurrencyPurchaseAttempt, {
+      purchaseId,
+    });
+    await t.mutation(api.private.markVirtualCurrencyPurchaseSpendSent, {
+      purchaseId,
+    });
+    await t.mutation(api.private.failVirtualCurrencyPurchaseAttempt, {
+      purchaseId,
+      error: "timeout",
+      retryable: true,
+    });
+
+    for (let attempt = 2; attempt <= 8; attempt++) {
+      expect(await failAttempt(t, purchaseId, false)).toBe("pending");
+    }
+    expect(await getPurchase(t, purchaseId)).toMatchObject({
+      status: "pending",
+      attempts: 8,
+    });
+
+    // Backoff is capped at an hour
+    const [retry] = await pendingRetries(t);
+    expect(retry.scheduledTime - Date.now()).toBe(60 * 60 * 1000);
+  });
+
+  test("forgets a sent spend that RevenueCat rejected", async () => {
+    const t = await initWithWorker();
+    const purchaseId = await startPurchase(t);
+    await t.mutation(api.private.beginVirtualCurrencyPurchaseAttempt, {
+      purchaseId,
+    });
+    await t.mutation(api.private.markVirtualCurrencyPurchaseSpendSent, {
+      purchaseId,
+    });
+
+    expect(
+      await t.mutation(api.private.failVirtualCurrencyPurchaseAttempt, {
+        purchaseId,
+        error: "422",
+        retryable: true,
+        spendRejected: true,
+      }),
+    ).toBe("pending");
+    expect((await getPurchase(t, purchaseId))?.spendSentAt).toBeUndefined();
+
+    // Nothing was spent, so a final error fails it
+    const resumed = await t.mutation(
+      api.private.beginVirtualCurrencyPurchaseAttempt,
+      { purchaseId },
+    );
+    expect(resumed).toMatchObject({ status: "pending", spendSent: false });
+    expect(
+      await t.mutation(api.private.failVirtualCurrencyPurchaseAttempt, {
+        purchaseId,
+        error: "422",
+        retryable: false,
+      }),
+    ).toBe("failed");
+    expect(await pendingRetries(t)).toHaveLength(0);
+  });
+
+  test("fails a sent purchase when RevenueCat refuses the resent spend", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.private.syncVirtualCurrencyBalances, {
+      appUserId: "user_1",
+      lastSyncedAt: 1_000_000,
+      balances: [{ currencyCode: "GEMS", balance: 100 }],
+    });
+    const customerPath = "/v2/projects/proj_test/customers/user_1";
+    let sends = 0;
+    stubRevenueCat(({ method, path }: RevenueCatRequest) => {
+      if (path === `${customerPath}/virtual_currencies/transactions`) {
+        // The first send may or may not have reached RevenueCat
+        if (++sends === 1) throw new TypeError("fetch failed");
+        return new Response(
+          JSON.stringify({
+            object: "error",
+            type: "invalid_request",
+            message: "Insufficient balance for virtual currency GEMS",
+          }),
+          { status: 422 },
+        );
+      }
+      if (method === "GET" && path === `${customerPath}/virtual_currencies`) {
+        return {
+          items: [{ currency_code: "GEMS", balance: 0 }],
+          next_page: null,
+        };
+      }
+      return undefined;
+    });
+    const purchase = {
+      appUserId: "user_1",
+      adjustments: { GEMS: 10 },
+      purchaseKey: "order_1",
+    };
+
+    const first = await t.action(hostApi.purchaseWithVirtualCurrency, purchase);
+    expect(first).toMatchObject({ status: "pending" });
+    const { purchaseId } = first as {
+      purchaseId: Id<"virtual_currency_purchases">;
+    };
+    expect((await getPurchase(t, purchaseId))?.spendSentAt).toBe(1_000_000);
+
+    // The resent spend is refused, so nothing was ever debited
+    expect(
+      await t.action(hostApi.purchaseWithVirtualCurrency, purchase),
+    ).toEqual({
+      insufficientFunds: { currencyCode: "GEMS", requested: 10, available: 0 },
+    });
+    const failed = await getPurchase(t, purchaseId);
+    expect(failed).toMatchObject({ status: "failed", attempts: 2 });
+    expect(failed?.spendSentAt).toBeUndefined();
+    expect(await pendingRetries(t)).toHaveLength(0);
+  });
+
+  test("never fails a spent purchase", async () => {
+    const t = await initWithWorker();
+    const purchaseId = await startPurchase(t);
+    await t.mutation(api.private.beginVirtualCurrencyPurchaseAttempt, {
+      purchaseId,
+    });
+    await t.mutation(api.private.markVirtualCurrencyPurchaseSpent, {
+      purchaseId,
+    });
+    await t.mutation(api.private.failVirtualCurrencyPurchaseAttempt, {
+      purchaseId,
+      error: "fulfilment threw",
+      retryable: false,
+    });
+
+    const resumed = await t.mutation(
+      api.private.beginVirtualCurrencyPurchaseAttempt,
+      { purchaseId },
+    );
+    expect(resumed).toMatchObject({ status: "spent" });
+  });
+
+  test("fulfils a spent purchase exactly once", async () => {
+    const t = await initWithWorker();
+    const purchaseId = await startPurchase(t);
+    await t.mutation(api.private.beginVirtualCurrencyPurchaseAttempt, {
+      purchaseId,
+    });
+    await t.mutation(api.private.markVirtualCurrencyPurchaseSpent, {
+      purchaseId,
+    });
+
+    await t.mutation(api.private.fulfilVirtualCurrencyPurchase, { purchaseId });
+    expect(
+      await t.query(api.public.getSubscriberAliases, { appUserId: "user_1" }),
+    ).toEqual({ appUserId: "fulfilled", aliases: ["user_1"] });
+    expect(await getPurchase(t, purchaseId)).toMatchObject({
+      status: "fulfilled",
+    });
+    expect(await pendingRetries(t)).toHaveLength(0);
+
+    // A late attempt finds nothing left to do
+    await t.mutation(api.private.fulfilVirtualCurrencyPurchase, { purchaseId });
+    expect(
+      await t.mutation(api.private.beginVirtualCurrencyPurchaseAttempt, {
+        purchaseId,
+      }),
+    ).toEqual({ status: "fulfilled" });
+  });
+
+  test("keeps a purchase spent when its fulfilment throws", async () => {
+    const t = await initWithWorker();
+    // Missing `aliases`, so the fulfilment mutation rejects its arguments
+    const purchaseId = await startPurchase(t, { appUserId: "fulfilled" });
+    await t.mutation(api.private.beginVirtualCurrencyPurchaseAttempt, {
+      purchaseId,
+    });
+    await t.mutation(api.private.markVirtualCurrencyPurchaseSpent, {
+      purchaseId,
+    });
+
+    await expect(
+      t.mutation(api.private.fulfilVirtualCurrencyPurchase, { purchaseId }),
+    ).rejects.toThrow();
+    expect((await getPurchase(t, purchaseId))?.status).toBe("spent");
+  });
+
+  test("records the refund of an abandoned purchase", async () => {
+    const t = await initWithWorker();
+    const purchaseId = await startPurchase(t);
+    await t.mutation(api.private.beginVirtualCurrencyPurchaseAttempt, {
+      purchaseId,
+    });
+    await t.mutation(api.private.markVirtualCurrencyPurchaseSpent, {
+      purchaseId,
+    });
+
+    await t.mutation(api.private.abandonVirtualCurrencyPurchase, {
+      purchaseId,
+      refunded: true,
+    });
+    expect(await getPurchase(t, purchaseId)).toMatchObject({
+      status: "failed",
+      lastError: "Abandoned",
+      refundedAt: 1_000_000,
+    });
+    expect(await pendingRetries(t)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+
+describe("rate limiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("takes tokens until the bucket is empty, in one document", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.private.setRateLimits, {
+      limits: { customer: { maxRequests: 2 } },
+    });
+
+    const take = () =>
+      t.mutation(api.private.checkRateLimit, { bucket: "customer" });
+    expect(await take()).toEqual({ status: "allowed", tokens: 1 });
+    expect(await take()).toEqual({ status: "allowed", tokens: 1 });
+    expect(await take()).toEqual({ status: "rate_limited" });
+
+    const docs = await t.run((ctx) =>
+      ctx.db.query("rate_limit_buckets").collect(),
+    );
+    expect(docs.map((doc) => doc.bucket).sort()).toEqual([
+      "customer",
+      "project",
+    ]);
+  });
+
+  test("refills at maxRequests per window", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.private.setRateLimits, {
+      limits: { project: { maxRequests: 2, windowMs: 60_000 } },
+    });
+    await t.mutation(api.private.checkRateLimit, {
+      bucket: "project",
+      tokens: 2,
+    });
+    expect(
+      await t.mutation(api.private.checkRateLimit, { bucket: "project" }),
+    ).toEqual({ status: "rate_limited" });
+
+    vi.advanceTimersByTime(30_000);
+    expect(
+      await t.mutation(api.private.checkRateLimit, { bucket: "project" }),
+    ).toEqual({ status: "allowed", tokens: 1 });
+    expect(
+      await t.mutation(api.private.checkRateLimit, { bucket: "project" }),
+    ).toEqual({ status: "rate_limited" });
+  });
+
+  test("reserves several tokens at once, capped at the bucket size", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.private.setRateLimits, {
+      limits: { project: { maxRequests: 3 } },
+    });
+
+    expect(
+      await t.mutation(api.private.checkRateLimit, {
+        bucket: "project",
+        tokens: 2,
+      }),
+    ).toEqual({ status: "allowed", tokens: 2 });
+    // Doesn't take the one token left for a reservation it can't cover
+    expect(
+      await t.mutation(api.private.checkRateLimit, {
+        bucket: "project",
+        tokens: 2,
+      }),
+    ).toEqual({ status: "rate_limited" });
+
+    vi.advanceTimersByTime(60_000);
+    expect(
+      await t.mutation(api.private.checkRateLimit, {
+        bucket: "project",
+        tokens: 10,
+      }),
+    ).toEqual({ status: "allowed", tokens: 3 });
+  });
+
+  test("keeps the tokens used when the budget changes", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.private.setRateLimits, {
+      limits: { customer: { maxRequests: 4 } },
+    });
+    await t.mutation(api.private.checkRateLimit, {
+      bucket: "customer",
+      tokens: 3,
+    });
+
+    await t.mutation(api.private.setRateLimits, {
+      limits: { customer: { maxRequests: 2 } },
+    });
+    const status = await t.query(api.public.getRateLimitStatus, {});
+    expect(status.find((s) => s.bucket === "customer")).toMatchObject({
+      maxRequests: 2,
+      remaining: 1,
+    });
+    // Buckets left out go back to their defaults
+    expect(status.find((s) => s.bucket === "project")).toMatchObject({
+      maxRequests: 50,
+      remaining: 50,
+    });
+  });
+
+  test("rejects an invalid budget", async () => {
+    const t = initConvexTest();
+    await expect(
+      t.mutation(api.private.setRateLimits, {
+        limits: { customer: { maxRequests: 0 } },
+      }),
+    ).rejects.toThrow("Invalid customer rate limit");
+  });
+});
@@ -0,0 +1,94 @@
+import type { Infer } from "convex/values";
+import type { QueryCtx } from "./_generated/server.js";
+import type { rateLimitBucket } from "./schema.js";
+
+/**
+ * RevenueCat API request budgets.
+ *
+ * RevenueCat API v2 rate limits (per minute):
+ * - Customer Information: 480 req/min
+ * - Project Configuration (entitlements, products, offerings): 60 req/min
+ *
+ * Each domain is charged to its own bucket. The defaults stay below both
+ * limits to leave headroom for other clients of the same project; the host
+ * app can override them per bucket with `setRateLimits`.
+ *
+ * A bucket is a token bucket kept in a single `rate_limit_buckets` document:
+ * it holds up to `maxRequests` tokens and refills at `maxRequests` per
+ * `windowMs`. Each request takes one token, so there are no per-request rows
+ * to clean up.
+ */
+
+export type RateLimitBucket = Infer<typeof rateLimitBucket>;
+
+export type RateLimit = { maxRequests: number; windowMs: number };
+
+export const RATE_LIMIT_WINDOW_MS = 60_000;
+
+/** Minimum retry delay after hitting our RevenueCat API rate limit. */
+export const RATE_LIMITED_RETRY_DELAY_MS = RATE_LIMIT_WINDOW_MS;
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitBucket, RateLimit> = {
+  customer: { maxRequests: 400, windowMs: RATE_LIMIT_WINDOW_MS },
+  project: { maxRequests: 50, windowMs: RATE_LIMIT_WINDOW_MS },
+};
+
+export const RATE_LIMIT_BUCKETS = Object.keys(
+  DEFAULT_RATE_LIMITS,
+) as RateLimitBucket[];
+
+export type BucketState = RateLimit & {
+  /** Whole and fractional tokens available now. */
+  tokens: number;
+};
+
+/**
+ * The budget recorded for a bucket and its tokens as of `now`, or a full
+ * bucket with the default budget if none was used yet.
+ */
+export async function getBucketState(
+  ctx: QueryCtx,
+  bucket: RateLimitBucket,
+  now: number,
+): Promise<BucketState> {
+  const doc = await ctx.db
+    .query("rate_limit_buckets")
+    .withIndex("by_bucket", (q) => q.eq("bucket", bucket))
+    .unique();
+  if (!doc) {
+    const limit = DEFAULT_RATE_LIMITS[bucket];
+    return { ...limit, tokens: limit.maxRequests };
+  }
+  const limit = { maxRequests: doc.maxRequests, windowMs: doc.windowMs };
+  return {
+    ...limit,
+    tokens: refillTokens(doc.tokens, doc.updatedAt, limit, now),
+  };
+}
+
+/**
+ * Tokens in a bucket at `now`, given its count at `since`. Rows written
+ * before the token bucket have no count and start full.
+ */
+export function refillTokens(
+  tokens: number | undefined,
+  since: number,
+  limit: RateLimit,
+  now: number,
+): number {
+  if (tokens === undefined) return limit.maxRequests;
+  const refilled = ((now - since) / limit.windowMs) * limit.maxRequests;
+  return Math.min(limit.maxRequests, tokens + Math.max(0, refilled));
+}
+
+/**
+ * Milliseconds until a bucket holding `tokens` has `count` of them.
+ */
+export function msUntilTokens(
+  tokens: number,
+  count: number,
+  limit: RateLimit,
+): number {
+  if (tokens >= count) return 0;
+  return Math.ceil(((count - tokens) / limit.maxRequests) * limit.windowMs);
+}
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import {
+  fakeProject,
+  hostApi,
+  initConvexTest,
+  stubRevenueCat,
+} from "./setup.test.js";
+
+const NOW = Date.UTC(2026, 0, 1);
+const HOUR = 60 * 60 * 1000;
+
+type TestConvex = ReturnType<typeof initConvexTest>;
+
+function sync(
+  t: TestConvex,
+  appUserId: string,
+  lastSyncedAt: number,
+  expiresAt?: number,
+) {
+  return t.mutation(api.private.syncSubscriberAndEntitlements, {
+    appUserId,
+    lastSyncedAt,
+    entitlements: [
+      {
+        entitlementId: "pro",
+        isActive: true,
+        expiresDate:
+          expiresAt === undefined
+            ? undefined
+            : new Date(expiresAt).toISOString(),
+      },
+    ],
+    subscriptions: [],
+  });
+}
+
+async function listDrift(t: TestConvex) {
+  const { page } = await t.query(api.public.listReconciliationDrift, {
+    paginationOpts: { numItems: 100, cursor: null },
+  });
+  return page;
+}
+
+describe("reconciliation", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  test("re-syncs stale subscribers and records the drift", async () => {
+    const t = initConvexTest();
+    await sync(t, "user_1", NOW - 25 * HOUR);
+    await sync(t, "user_2", NOW - HOUR);
+    const requests = stubRevenueCat(fakeProject({ user_1: [], user_2: [] }));
+
+    expect(await t.mutation(hostApi.reconcileSubscribers, {})).toEqual({
+      stale: 1,
+      expiring: 0,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(requests.some((r) => r.path.includes("user_2"))).toBe(false);
+    expect(await listDrift(t)).toMatchObject([
+      {
+        appUserId: "user_1",
+        reason: "stale",
+        changes: [
+          { entitlementId: "pro", before: { isActive: true }, after: null },
+        ],
+      },
+    ]);
+  });
+
+  test("re-syncs entitlements expiring since their last sync", async () => {
+    const t = initConvexTest();
+    // Synced before its expiry window opened
+    await sync(t, "user_1", NOW - 2 * HOUR, NOW + HOUR / 2);
+    // Synced inside the window, so already up to date
+    await sync(t, "user_2", NOW - HOUR / 4, NOW + HOUR / 2);
+    // Expires outside the window
+    await sync(t, "user_3", NOW - 2 * HOUR, NOW + 2 * HOUR);
+    stubRevenueCat(
+      fakeProject({
+        user_1: [{ id: "entl_pro", expiresAt: NOW + 30 * 24 * HOUR }],
+      }),
+    );
+
+    expect(await t.mutation(hostApi.reconcileSubscribers, {})).toEqual({
+      stale: 0,
+      expiring: 1,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(await listDrift(t)).toMatchObject([
+      {
+        appUserId: "user_1",
+        reason: "expiring",
+        changes: [
+          {
+            entitlementId: "pro",
+            after: {
+              isActive: true,
+              expiresDate: new Date(NOW + 30 * 24 * HOUR).toISOString(),
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  test("scans expiring entitlements a page at a time up to the limit", async () => {
+    const t = initConvexTest();
+    await t.run(async (ctx) => {
+      for (let i = 0; i < 250; i++) {
+        await ctx.db.insert("entitlements", {
+          appUserId: `user_${i}`,
+          entitlementId: "pro",
+          isActive: true,
+          expiresDate: new Date(NOW + HOUR / 2).toISOString(),
+          lastSyncedAt: NOW - 2 * HOUR,
+        });
+      }
+    });
+    await t.mutation(api.private.setRateLimits, {
+      limits: { customer: { maxRequests: 10_000, windowMs: 60_000 } },
+    });
+    const requests = stubRevenueCat(() => new Response("{}", { status: 400 }));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    // The first page holds 200 entitlements; the rest come from a follow-up
+    expect(
+      await t.mutation(hostApi.reconcileSubscribers, { limit: 210 }),
+    ).toEqual({ stale: 0, expiring: 200 });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const synced = new Set(
+      requests.map((r) => r.path.match(/\/customers\/([^/?]+)/)?.[1]),
+    );
+    expect(synced.size).toBe(210);
+  });
+});
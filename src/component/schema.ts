@@ -1,23 +1,265 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+const eventLogStatus = v.union(
+  v.literal("received"),
+  v.literal("processing"),
+  v.literal("processed"),
+  v.literal("failed"),
+);
+
+export const entitlementStatus = v.union(
+  v.literal("trial"),
+  v.literal("active"),
+  v.literal("grace_period"),
+  v.literal("billing_retry"),
+  v.literal("cancelled"),
+  v.literal("paused"),
+  v.literal("expired"),
+);
+
+export const entitlementSnapshot = v.object({
+  isActive: v.boolean(),
+  expiresDate: v.optional(v.string()),
+  status: v.optional(entitlementStatus),
+});
+
+export const entitlementChange = v.object({
+  entitlementId: v.string(),
+  before: v.union(entitlementSnapshot, v.null()),
+  after: v.union(entitlementSnapshot, v.null()),
+});
+
+export const entitlementChangeKind = v.union(
+  v.literal("granted"),
+  v.literal("revoked"),
+  v.literal("expiry_changed"),
+);
+
+export const virtualCurrencyPurchaseStatus = v.union(
+  v.literal("pending"),
+  v.literal("spent"),
+  v.literal("fulfilled"),
+  v.literal("failed"),
+);
+
+export const rateLimitBucket = v.union(
+  v.literal("customer"),
+  v.literal("project"),
+);
+
+export const processEventOptions = v.object({
+  payloadFirst: v.optional(v.boolean()),
+  skipStaleEvents: v.optional(v.boolean()),
+  minResyncIntervalMs: v.optional(v.number()),
+});
+
+export const reconcileReason = v.union(
+  v.literal("stale"),
+  v.literal("expiring"),
+);
+
+/**
+ * Background work the component schedules on the host app's worker action.
+ * The worker holds the RevenueCat credentials, so no task carries them.
+ */
+export const workerTask = v.union(
+  v.object({
+    kind: v.literal("process_event"),
+    revenuecatEventId: v.string(),
+    event: v.any(),
+    options: v.optional(processEventOptions),
+    attempt: v.number(),
+    maxAttempts: v.number(),
+    initialBackoffMs: v.number(),
+  }),
+  v.object({
+    kind: v.literal("resync"),
+    appUserId: v.string(),
+    minResyncIntervalMs: v.optional(v.number()),
+    attempt: v.number(),
+  }),
+  v.object({ kind: v.literal("backfill_page"), jobId: v.string() }),
+  v.object({
+    kind: v.literal("reconcile"),
+    subscribers: v.array(
+      v.object({ appUserId: v.string(), reason: reconcileReason }),
+    ),
+  }),
+  v.object({ kind: v.literal("purchase"), purchaseId: v.string() }),
+  v.object({ kind: v.literal("entitlement_changes") }),
+);
+
+const driftEntitlement = v.object({
+  entitlementId: v.string(),
+  expiresDate: v.optional(v.string()),
+});
+
+export const entitlementDrift = v.object({
+  appUserId: v.string(),
+  missing: v.array(driftEntitlement),
+  extra: v.array(driftEntitlement),
+  expiryMismatches: v.array(
+    v.object({
+      entitlementId: v.string(),
+      cachedExpiresDate: v.optional(v.string()),
+      revenueCatExpiresDate: v.optional(v.string()),
+    }),
+  ),
+  error: v.optional(v.string()),
+});
+
 export default defineSchema({
+  // Singleton: the host app's worker action, registered by the client
+  config: defineTable({
+    workerHandle: v.string(),
+    // Worker run delivering the entitlement change outbox
+    outboxJobId: v.optional(v.id("_scheduled_functions")),
+    updatedAt: v.number(),
+  }),
+
   subscribers: defineTable({
     appUserId: v.string(),
     lastSyncedAt: v.number(),
     rawSubscriber: v.optional(v.any()),
-  }).index("by_app_user_id", ["appUserId"]),
+    lastEventTimestampMs: v.optional(v.number()),
+  })
+    .index("by_app_user_id", ["appUserId"])
+    .index("by_last_synced_at", ["lastSyncedAt"]),
+
+  subscriber_aliases: defineTable({
+    alias: v.string(),
+    appUserId: v.string(),
+    updatedAt: v.number(),
+  })
+    .index("by_alias", ["alias"])
+    .index("by_app_user_id", ["appUserId"]),
 
   entitlements: defineTable({
     appUserId: v.string(),
     entitlementId: v.string(),
     isActive: v.boolean(),
     expiresDate: v.optional(v.string()),
+    status: v.optional(entitlementStatus),
     lastSyncedAt: v.number(),
+    lastEventTimestampMs: v.optional(v.number()),
   })
     .index("by_app_user_id", ["appUserId"])
     .index("by_app_user_id_and_entitlement", ["appUserId", "entitlementId"])
-    .index("by_app_user_id_and_active", ["appUserId", "isActive"]),
+    .index("by_app_user_id_and_active", ["appUserId", "isActive"])
+    .index("by_active_and_expires_date", ["isActive", "expiresDate"]),
+
+  // Entitlement changes waiting for the worker to fire the host's callbacks
+  entitlement_change_outbox: defineTable({
+    appUserId: v.string(),
+    kind: entitlementChangeKind,
+    ...entitlementChange.fields,
+  }).index("by_app_user_id", ["appUserId"]),
+
+  subscriptions: defineTable({
+    appUserId: v.string(),
+    subscriptionId: v.string(),
+    productId: v.optional(v.string()),
+    store: v.string(),
+    storeSubscriptionIdentifier: v.optional(v.string()),
+    status: v.string(),
+    periodType: v.union(v.literal("normal"), v.literal("trial")),
+    givesAccess: v.boolean(),
+    entitlementIds: v.array(v.string()),
+    autoRenewalStatus: v.optional(v.string()),
+    hasBillingIssue: v.boolean(),
+    startsAt: v.optional(v.number()),
+    currentPeriodStartsAt: v.optional(v.number()),
+    currentPeriodEndsAt: v.optional(v.number()),
+    nextRenewalAt: v.optional(v.number()),
+    environment: v.optional(v.string()),
+    managementUrl: v.optional(v.string()),
+    lastSyncedAt: v.number(),
+  })
+    .index("by_app_user_id", ["appUserId"])
+    .index("by_app_user_id_and_subscription", ["appUserId", "subscriptionId"])
+    .index("by_app_user_id_and_gives_access", ["appUserId", "givesAccess"]),
+
+  transactions: defineTable({
+    appUserId: v.string(),
+    transactionId: v.string(),
+    originalTransactionId: v.optional(v.string()),
+    productId: v.optional(v.string()),
+    store: v.optional(v.string()),
+    environment: v.optional(v.string()),
+    purchaseType: v.optional(v.string()),
+    price: v.optional(v.number()),
+    priceInPurchasedCurrency: v.optional(v.number()),
+    currency: v.optional(v.string()),
+    takehomePercentage: v.optional(v.number()),
+    countryCode: v.optional(v.string()),
+    purchasedAtMs: v.number(),
+    status: v.union(v.literal("completed"), v.literal("refunded")),
+    refundedAtMs: v.optional(v.number()),
+    source: v.union(v.literal("webhook"), v.literal("rest_api")),
+    lastEventTimestampMs: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index("by_transaction_id", ["transactionId"])
+    .index("by_original_transaction_id_and_purchased_at", [
+      "originalTransactionId",
+      "purchasedAtMs",
+    ])
+    .index("by_app_user_id_and_purchased_at", ["appUserId", "purchasedAtMs"]),
+
+  entitlement_definitions: defineTable({
+    entitlementId: v.string(),
+    lookupKey: v.string(),
+    displayName: v.optional(v.string()),
+    fetchedAt: v.number(),
+  }).index("by_entitlement_id", ["entitlementId"]),
+
+  // Entitlement IDs customers have that the cached definitions don't
+  // include, so syncs don't refetch them; cleared with each refetch
+  unknown_entitlements: defineTable({
+    entitlementId: v.string(),
+    recordedAt: v.number(),
+  }).index("by_entitlement_id", ["entitlementId"]),
+
+  products: defineTable({
+    productId: v.string(),
+    storeIdentifier: v.string(),
+    type: v.string(),
+    appId: v.optional(v.string()),
+    displayName: v.optional(v.string()),
+    subscriptionDuration: v.optional(v.string()),
+    lastSyncedAt: v.number(),
+  }).index("by_product_id", ["productId"]),
+
+  offerings: defineTable({
+    offeringId: v.string(),
+    lookupKey: v.string(),
+    displayName: v.string(),
+    isCurrent: v.boolean(),
+    metadata: v.optional(v.any()),
+    lastSyncedAt: v.number(),
+  })
+    .index("by_offering_id", ["offeringId"])
+    .index("by_lookup_key", ["lookupKey"])
+    .index("by_is_current", ["isCurrent"]),
+
+  packages: defineTable({
+    packageId: v.string(),
+    offeringId: v.string(),
+    lookupKey: v.string(),
+    displayName: v.string(),
+    position: v.optional(v.number()),
+    productIds: v.array(v.string()),
+    lastSyncedAt: v.number(),
+  }).index("by_offering_id_and_position", ["offeringId", "position"]),
+
+  entitlement_products: defineTable({
+    entitlementId: v.string(),
+    productId: v.string(),
+    lastSyncedAt: v.number(),
+  })
+    .index("by_entitlement_id", ["entitlementId"])
+    .index("by_product_id", ["productId"]),
 
   virtual_currency_balances: defineTable({
     appUserId: v.string(),
@@ -28,6 +270,146 @@ export default defineSchema({
     .index("by_app_user_id", ["appUserId"])
     .index("by_app_user_id_and_currency", ["appUserId", "currencyCode"]),
 
+  virtual_currency_definitions: defineTable({
+    currencyCode: v.string(),
+    name: v.string(),
+    description: v.optional(v.string()),
+    lastSyncedAt: v.number(),
+  }).index("by_currency_code", ["currencyCode"]),
+
+  // Funds reserved for debits whose transaction is in progress
+  virtual_currency_holds: defineTable({
+    appUserId: v.string(),
+    adjustments: v.array(
+      v.object({
+        currencyCode: v.string(),
+        amount: v.number(),
+      }),
+    ),
+    createdAt: v.number(),
+    expiresAt: v.number(),
+  }).index("by_app_user_id", ["appUserId"]),
+
+  virtual_currency_purchases: defineTable({
+    appUserId: v.string(),
+    // Caller's key for the purchase (e.g. an order ID); starting a purchase
+    // with a key already used resumes the existing one
+    purchaseKey: v.optional(v.string()),
+    // Amounts to spend per currency (positive numbers)
+    adjustments: v.array(
+      v.object({
+        currencyCode: v.string(),
+        amount: v.number(),
+      }),
+    ),
+    fulfilHandle: v.string(),
+    fulfilArgs: v.any(),
+    status: virtualCurrencyPurchaseStatus,
+    attempts: v.number(),
+    attemptExpiresAt: v.optional(v.number()),
+    retryJobId: v.optional(v.id("_scheduled_functions")),
+    lastError: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    // Set before the spend request is sent: from then on RevenueCat may
+    // have debited the currency, even if no response arrived
+    spendSentAt: v.optional(v.number()),
+    spentAt: v.optional(v.number()),
+    refundedAt: v.optional(v.number()),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_purchase_key", ["purchaseKey"])
+    .index("by_app_user_id", ["appUserId"])
+    .index("by_status_and_created_at", ["status", "createdAt"]),
+
+  // One row per currency adjusted by a transaction
+  virtual_currency_transactions: defineTable({
+    appUserId: v.string(),
+    currencyCode: v.string(),
+    amount: v.number(),
+    // RevenueCat's virtual_currency_transaction_id (webhooks only)
+    transactionId: v.optional(v.string()),
+    // Idempotency key of a transaction made through the client
+    idempotencyKey: v.optional(v.string()),
+    // RevenueCat's transaction source, e.g. "in_app_purchase" (webhooks only)
+    source: v.optional(v.string()),
+    origin: v.union(v.literal("webhook"), v.literal("rest_api")),
+    occurredAt: v.number(),
+  })
+    .index("by_transaction_id", ["transactionId", "currencyCode"])
+    .index("by_idempotency_key", ["idempotencyKey", "currencyCode"])
+    .index("by_app_user_id_and_occurred_at", ["appUserId", "occurredAt"])
+    .index("by_app_user_id_and_currency_and_occurred_at", [
+      "appUserId",
+      "currencyCode",
+      "occurredAt",
+    ]),
+
+  backfill_jobs: defineTable({
+    status: v.union(
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed"),
+      v.literal("cancelled"),
+    ),
+    pageSize: v.number(),
+    nextPage: v.optional(v.string()),
+    pageOffset: v.number(),
+    pagesProcessed: v.number(),
+    customersSynced: v.number(),
+    customersFailed: v.number(),
+    rateLimitedPauses: v.number(),
+    lastError: v.optional(v.string()),
+    startedAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  }).index("by_status", ["status"]),
+
+  reconciliation_drift: defineTable({
+    appUserId: v.string(),
+    reason: v.union(v.literal("stale"), v.literal("expiring")),
+    detectedAt: v.number(),
+    changes: v.array(entitlementChange),
+  })
+    .index("by_detected_at", ["detectedAt"])
+    .index("by_app_user_id_and_detected_at", ["appUserId", "detectedAt"]),
+
+  drift_reports: defineTable({
+    status: v.union(
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed"),
+    ),
+    sampleSize: v.optional(v.number()),
+    subscribersTotal: v.number(),
+    subscribersChecked: v.number(),
+    subscribersWithDrift: v.number(),
+    subscribersFailed: v.number(),
+    missingEntitlements: v.number(),
+    extraEntitlements: v.number(),
+    expiryMismatches: v.number(),
+    truncated: v.boolean(),
+    lastError: v.optional(v.string()),
+    startedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  }),
+
+  drift_report_entries: defineTable({
+    reportId: v.id("drift_reports"),
+    ...entitlementDrift.fields,
+  }).index("by_report_id", ["reportId"]),
+
+  sync_leases: defineTable({
+    appUserId: v.string(),
+    startedAt: v.optional(v.number()),
+    expiresAt: v.optional(v.number()),
+    completedAt: v.optional(v.number()),
+    trailingRequested: v.boolean(),
+    trailingJobId: v.optional(v.id("_scheduled_functions")),
+  }).index("by_app_user_id", ["appUserId"]),
+
+  // Per-request rows written before the token bucket limiter; only read by
+  // cleanupRateLimits to delete them
   rate_limits: defineTable({
     key: v.string(),
     timestamp: v.number(),
@@ -35,6 +417,14 @@ export default defineSchema({
     .index("by_key_and_timestamp", ["key", "timestamp"])
     .index("by_timestamp", ["timestamp"]),
 
+  rate_limit_buckets: defineTable({
+    bucket: rateLimitBucket,
+    maxRequests: v.number(),
+    windowMs: v.number(),
+    tokens: v.optional(v.number()),
+    updatedAt: v.number(),
+  }).index("by_bucket", ["bucket"]),
+
   webhook_events: defineTable({
     revenuecatEventId: v.string(),
     eventType: v.string(),
@@ -43,9 +433,50 @@ export default defineSchema({
     status: v.optional(
       v.union(
         v.literal("processing"),
+        v.literal("queued"),
         v.literal("processed"),
         v.literal("processed_pending"),
       ),
     ),
   }).index("by_revenuecat_event_id", ["revenuecatEventId"]),
+
+  webhook_event_log: defineTable({
+    revenuecatEventId: v.string(),
+    eventType: v.string(),
+    appUserId: v.optional(v.string()),
+    eventTimestampMs: v.number(),
+    receivedAt: v.number(),
+    lastReceivedAt: v.optional(v.number()),
+    deliveries: v.optional(v.number()),
+    status: eventLogStatus,
+    statusHistory: v.array(
+      v.object({
+        status: eventLogStatus,
+        at: v.number(),
+        error: v.optional(v.string()),
+        rateLimited: v.optional(v.boolean()),
+      }),
+    ),
+    error: v.optional(v.string()),
+    event: v.any(),
+  })
+    .index("by_revenuecat_event_id", ["revenuecatEventId"])
+    .index("by_app_user_id_and_timestamp", ["appUserId", "eventTimestampMs"])
+    .index("by_event_type_and_timestamp", ["eventType", "eventTimestampMs"])
+    .index("by_timestamp", ["eventTimestampMs"]),
+
+  webhook_dead_letters: defineTable({
+    revenuecatEventId: v.string(),
+    eventType: v.string(),
+    appUserId: v.optional(v.string()),
+    event: v.any(),
+    attempts: v.number(),
+    lastError: v.optional(v.string()),
+    deadLetteredAt: v.number(),
+    lastFailedAt: v.number(),
+    status: v.union(v.literal("pending"), v.literal("resolved")),
+    resolvedAt: v.optional(v.number()),
+  })
+    .index("by_revenuecat_event_id", ["revenuecatEventId"])
+    .index("by_status_and_dead_lettered_at", ["status", "deadLetteredAt"]),
 });
@@ -0,0 +1,280 @@
+/// <reference types="vite/client" />
+import { test, vi } from "vitest";
+import { convexTest } from "convex-test";
+import {
+  anyApi,
+  httpRouter,
+  internalActionGeneric,
+  internalMutationGeneric,
+  type FunctionReference,
+} from "convex/server";
+import { v } from "convex/values";
+import {
+  InsufficientFundsError,
+  registerRoutes,
+  RevenueCatSync,
+  type RegisterRoutesConfig,
+  type RevenueCatSyncOptions,
+} from "../client/index.js";
+import type { ComponentApi } from "./_generated/component.js";
+import { api } from "./_generated/api.js";
+import schema from "./schema.js";
+
+export const modules = {
+  ...import.meta.glob("./**/*.*s"),
+  // The glob leaves out the module it is in, the test host app below
+  "./setup.test.ts": () => import("./setup.test.js"),
+};
+
+export function initConvexTest() {
+  return convexTest(schema, modules);
+}
+
+/**
+ * The component's API as the client sees it when installed. Tests run the
+ * component as the root app, so its functions are referenced from `api`.
+ */
+export const component = api as unknown as ComponentApi;
+
+export type RevenueCatRequest = {
+  method: string;
+  path: string;
+  body: any;
+};
+
+/**
+ * Replace `fetch` with a fake RevenueCat API. The handler returns the JSON
+ * body to answer with, or a `Response` for anything else; `undefined`
+ * answers 404.
+ */
+export function stubRevenueCat(
+  handler: (request: RevenueCatRequest) => unknown,
+) {
+  const requests: RevenueCatRequest[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: string, init?: RequestInit) => {
+      const url = new URL(input);
+      const request = {
+        method: init?.method ?? "GET",
+        path: url.pathname + url.search,
+        body: init?.body ? JSON.parse(init.body as string) : undefined,
+      };
+      requests.push(request);
+      const result = handler(request);
+      if (result instanceof Response) return result;
+      if (result === undefined) return new Response("{}", { status: 404 });
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }),
+  );
+  return requests;
+}
+
+/**
+ * A v2 customer object with the given active entitlements, keyed by their
+ * opaque IDs.
+ */
+export function customerResponse(
+  appUserId: string,
+  entitlements: Array<{ id: string; expiresAt?: number }> = [],
+) {
+  return {
+    object: "customer",
+    id: appUserId,
+    active_entitlements: {
+      items: entitlements.map((ent) => ({
+        entitlement_id: ent.id,
+        expires_at: ent.expiresAt ?? null,
+      })),
+      next_page: null,
+    },
+  };
+}
+
+/**
+ * Answer the reads a sync makes: customers from `customers` (their active
+ * entitlements by opaque ID, e.g. "entl_pro" for "pro"), no subscriptions,
+ * and one entitlement definition per ID. Change `customers` between syncs
+ * to change what RevenueCat returns.
+ */
+export function fakeProject(
+  customers: Record<string, Array<{ id: string; expiresAt?: number }>>,
+) {
+  const prefix = "/v2/projects/proj_test";
+  return ({ method, path }: RevenueCatRequest): unknown => {
+    if (method !== "GET") return undefined;
+    if (path === `${prefix}/entitlements?limit=200`) {
+      const ids = new Set(
+        Object.values(customers).flatMap((ents) => ents.map((ent) => ent.id)),
+      );
+      return {
+        items: [...ids].map((id) => ({
+          id,
+          lookup_key: id.replace(/^entl_/, ""),
+        })),
+        next_page: null,
+      };
+    }
+    const match = path.match(
+      new RegExp(`^${prefix}/customers/([^/?]+)(/subscriptions\\?limit=100)?$`),
+    );
+    const appUserId = match && decodeURIComponent(match[1]);
+    if (!appUserId || !(appUserId in customers)) return undefined;
+    if (match[2]) return { items: [], next_page: null };
+    return customerResponse(appUserId, customers[appUserId]);
+  };
+}
+
+// ============================================================================
+// HOST APP
+// ============================================================================
+
+// This module doubles as the host app: its actions run the client, and the
+// component schedules background work on its worker
+
+const host = anyApi["setup.test"] as Record<
+  string,
+  FunctionReference<"action", "internal">
+>;
+
+export const WEBHOOK_AUTH_KEY = "whsec_test";
+
+export const entitlementChangeCallbacks = {
+  onEntitlementGranted: vi.fn(),
+  onEntitlementRevoked: vi.fn(),
+  onEntitlementExpiryChanged: vi.fn(),
+};
+
+const clientOptions: RevenueCatSyncOptions = {
+  REVENUECAT_API_KEY: "sk_test",
+  REVENUECAT_PROJECT_ID: "proj_test",
+  worker: host.worker,
+  ...entitlementChangeCallbacks,
+};
+
+/**
+ * A client like the host app's. Each test gets its own, since a client
+ * registers the worker only once.
+ */
+export function createClient() {
+  return new RevenueCatSync(component, clientOptions);
+}
+
+export const worker = createClient().worker();
+
+export const syncSubscriber = internalActionGeneric({
+  args: { appUserId: v.string() },
+  handler: async (ctx, args) => await createClient().syncSubscriber(ctx, args),
+});
+
+export const pollForEntitlement = internalActionGeneric({
+  args: { appUserId: v.string(), entitlementId: v.string() },
+  handler: async (ctx, args) =>
+    await createClient().pollForEntitlement(ctx, { ...args, maxAttempts: 1 }),
+});
+
+export const reconcileSubscribers = internalMutationGeneric({
+  args: {
+    staleAfterMs: v.optional(v.number()),
+    expiringWithinMs: v.optional(v.number()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) =>
+    await createClient().reconcileSubscribers(ctx, args),
+});
+
+/**
+ * Run `fn`, returning a thrown `InsufficientFundsError`'s fields so they
+ * survive the action boundary.
+ */
+async function catchInsufficientFunds<T>(fn: () => Promise<T>) {
+  try {
+    return await fn();
+  } catch (error) {
+    if (!(error instanceof InsufficientFundsError)) throw error;
+    const { currencyCode, requested, available } = error;
+    return { insufficientFunds: { currencyCode, requested, available } };
+  }
+}
+
+export const spendVirtualCurrency = internalActionGeneric({
+  args: {
+    appUserId: v.string(),
+    adjustments: v.record(v.string(), v.number()),
+  },
+  handler: async (ctx, args) =>
+    await catchInsufficientFunds(() =>
+      createClient().spendVirtualCurrency(ctx, args),
+    ),
+});
+
+/**
+ * Buy with virtual currency. The fulfilment aliases the buyer to
+ * "fulfilled", so it can be observed.
+ */
+export const purchaseWithVirtualCurrency = internalActionGeneric({
+  args: {
+    appUserId: v.string(),
+    adjustments: v.record(v.string(), v.number()),
+    purchaseKey: v.optional(v.string()),
+  },
+  handler: async (ctx, args) =>
+    await catchInsufficientFunds(() =>
+      createClient().purchaseWithVirtualCurrency(ctx, {
+        ...args,
+        fulfil: api.private.mergeSubscriberAliases,
+        fulfilArgs: { appUserId: "fulfilled", aliases: [args.appUserId] },
+      }),
+    ),
+});
+
+/**
+ * Deliver a webhook to the route `registerRoutes` adds with `config`.
+ */
+export const receiveWebhook = internalActionGeneric({
+  args: { event: v.any(), config: v.optional(v.any()) },
+  handler: async (ctx, args) => {
+    const http = httpRouter();
+    registerRoutes(http, component, {
+      REVENUECAT_WEBHOOK_AUTH_KEY: WEBHOOK_AUTH_KEY,
+      REVENUECAT_API_KEY: "sk_test",
+      REVENUECAT_PROJECT_ID: "proj_test",
+      worker: host.worker,
+      ...(args.config as RegisterRoutesConfig | undefined),
+    });
+    const [route] = http.lookup("/revenuecat/webhook", "POST")!;
+    const response: Response = await (route as any)._handler(
+      ctx,
+      new Request("https://example.convex.site/revenuecat/webhook", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${WEBHOOK_AUTH_KEY}` },
+        body: JSON.stringify({ api_version: "1.0", event: args.event }),
+      }),
+    );
+    return { status: response.status, body: await response.text() };
+  },
+});
+
+export const replayDeadLetters = internalActionGeneric({
+  args: {
+    limit: v.optional(v.number()),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) =>
+    await createClient().replayDeadLetters(ctx, args),
+});
+
+export const hostApi = {
+  syncSubscriber: host.syncSubscriber,
+  pollForEntitlement: host.pollForEntitlement,
+  spendVirtualCurrency: host.spendVirtualCurrency,
+  purchaseWithVirtualCurrency: host.purchaseWithVirtualCurrency,
+  receiveWebhook: host.receiveWebhook,
+  replayDeadLetters: host.replayDeadLetters,
+  reconcileSubscribers: anyApi["setup.test"]
+    .reconcileSubscribers as FunctionReference<"mutation", "internal">,
+};
+
+test("setup", () => {});
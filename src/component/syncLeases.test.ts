@@ -0,0 +1,164 @@
+import { createFunctionHandle } from "convex/server";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+
+// Time is moved with setSystemTime, so scheduled worker tasks never run
+async function initWithWorker() {
+  const t = initConvexTest();
+  const workerHandle = await t.run(() =>
+    createFunctionHandle(api.public.getSyncLease),
+  );
+  await t.mutation(api.private.registerWorker, { workerHandle });
+  return t;
+}
+
+type TestConvex = Awaited<ReturnType<typeof initWithWorker>>;
+
+function scheduledResyncs(t: TestConvex) {
+  return t.run(async (ctx) => {
+    const jobs = await ctx.db.system.query("_scheduled_functions").collect();
+    return jobs.filter(
+      (job) =>
+        job.state.kind === "pending" && job.args[0]?.task?.kind === "resync",
+    );
+  });
+}
+
+describe("sync leases", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("coalesces a sync while another one is running", async () => {
+    const t = await initWithWorker();
+    const first = await t.mutation(api.private.acquireSyncLease, {
+      appUserId: "user_1",
+    });
+    expect(first).toEqual({ status: "acquired", startedAt: 1_000_000 });
+    expect(
+      await t.mutation(api.private.acquireSyncLease, { appUserId: "user_1" }),
+    ).toEqual({ status: "in_flight" });
+    // Other users aren't affected
+    expect(
+      await t.mutation(api.private.acquireSyncLease, { appUserId: "user_2" }),
+    ).toMatchObject({ status: "acquired" });
+  });
+
+  test("skips syncs within minResyncIntervalMs of a successful one", async () => {
+    const t = await initWithWorker();
+    const lease = await t.mutation(api.private.acquireSyncLease, {
+      appUserId: "user_1",
+      minResyncIntervalMs: 10_000,
+    });
+    if (lease.status !== "acquired") throw new Error("lease not acquired");
+    await t.mutation(api.private.releaseSyncLease, {
+      appUserId: "user_1",
+      minResyncIntervalMs: 10_000,
+      startedAt: lease.startedAt,
+      succeeded: true,
+    });
+
+    vi.setSystemTime(1_005_000);
+    expect(
+      await t.mutation(api.private.acquireSyncLease, {
+        appUserId: "user_1",
+        minResyncIntervalMs: 10_000,
+      }),
+    ).toEqual({ status: "recent" });
+
+    vi.setSystemTime(1_010_000);
+    expect(
+      await t.mutation(api.private.acquireSyncLease, {
+        appUserId: "user_1",
+        minResyncIntervalMs: 10_000,
+      }),
+    ).toMatchObject({ status: "acquired" });
+  });
+
+  test("lets the next sync run right after a failed one", async () => {
+    const t = await initWithWorker();
+    const lease = await t.mutation(api.private.acquireSyncLease, {
+      appUserId: "user_1",
+    });
+    if (lease.status !== "acquired") throw new Error("lease not acquired");
+    await t.mutation(api.private.releaseSyncLease, {
+      appUserId: "user_1",
+      startedAt: lease.startedAt,
+      succeeded: false,
+    });
+
+    expect(
+      await t.mutation(api.private.acquireSyncLease, { appUserId: "user_1" }),
+    ).toMatchObject({ status: "acquired" });
+  });
+
+  test("schedules one trailing resync for any number of coalesced requests", async () => {
+    const t = await initWithWorker();
+    const lease = await t.mutation(api.private.acquireSyncLease, {
+      appUserId: "user_1",
+    });
+    if (lease.status !== "acquired") throw new Error("lease not acquired");
+    for (let i = 0; i < 3; i++) {
+      expect(
+        await t.mutation(api.private.acquireSyncLease, {
+          appUserId: "user_1",
+          trailing: true,
+        }),
+      ).toEqual({ status: "in_flight" });
+    }
+    expect(await scheduledResyncs(t)).toHaveLength(0);
+
+    await t.mutation(api.private.releaseSyncLease, {
+      appUserId: "user_1",
+      startedAt: lease.startedAt,
+      succeeded: true,
+    });
+    const [job, ...rest] = await scheduledResyncs(t);
+    expect(rest).toHaveLength(0);
+    expect(job.args[0].task).toMatchObject({
+      kind: "resync",
+      appUserId: "user_1",
+    });
+
+    // A request within the window shares the pending trailing resync
+    expect(
+      await t.mutation(api.private.acquireSyncLease, {
+        appUserId: "user_1",
+        trailing: true,
+      }),
+    ).toEqual({ status: "recent" });
+    expect(await scheduledResyncs(t)).toHaveLength(1);
+    expect(
+      await t.query(api.public.getSyncLease, { appUserId: "user_1" }),
+    ).toMatchObject({ running: false, trailingSyncPending: true });
+  });
+
+  test("a sync that takes the lease replaces the pending trailing resync", async () => {
+    const t = await initWithWorker();
+    const lease = await t.mutation(api.private.acquireSyncLease, {
+      appUserId: "user_1",
+    });
+    if (lease.status !== "acquired") throw new Error("lease not acquired");
+    await t.mutation(api.private.releaseSyncLease, {
+      appUserId: "user_1",
+      startedAt: lease.startedAt,
+      succeeded: true,
+    });
+    await t.mutation(api.private.acquireSyncLease, {
+      appUserId: "user_1",
+      trailing: true,
+    });
+    expect(await scheduledResyncs(t)).toHaveLength(1);
+
+    vi.setSystemTime(1_005_000);
+    expect(
+      await t.mutation(api.private.acquireSyncLease, { appUserId: "user_1" }),
+    ).toMatchObject({ status: "acquired" });
+    expect(await scheduledResyncs(t)).toHaveLength(0);
+  });
+});
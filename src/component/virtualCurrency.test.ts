@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import {
+  hostApi,
+  initConvexTest,
+  stubRevenueCat,
+  type RevenueCatRequest,
+} from "./setup.test.js";
+
+const CUSTOMER_PATH = "/v2/projects/proj_test/customers/user_1";
+
+type TestConvex = ReturnType<typeof initConvexTest>;
+
+function cacheBalance(t: TestConvex, balance: number) {
+  return t.mutation(api.private.syncVirtualCurrencyBalances, {
+    appUserId: "user_1",
+    lastSyncedAt: 1_000_000,
+    balances: [{ currencyCode: "GEMS", balance }],
+  });
+}
+
+/**
+ * Refuse every transaction with `error`, and answer balance reads with
+ * `balance` GEMS.
+ */
+function refuseTransactions(error: object, balance: number) {
+  return stubRevenueCat(({ method, path }: RevenueCatRequest) => {
+    if (
+      method === "POST" &&
+      path === `${CUSTOMER_PATH}/virtual_currencies/transactions`
+    ) {
+      return new Response(JSON.stringify({ object: "error", ...error }), {
+        status: 422,
+      });
+    }
+    if (method === "GET" && path === `${CUSTOMER_PATH}/virtual_currencies`) {
+      return {
+        items: [
+          {
+            object: "virtual_currency_balance",
+            currency_code: "GEMS",
+            balance,
+          },
+        ],
+        next_page: null,
+      };
+    }
+    return undefined;
+  });
+}
+
+describe("virtual currency transactions", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  test("maps RevenueCat's insufficient balance refusal to InsufficientFundsError", async () => {
+    const t = initConvexTest();
+    // The cache still shows funds a spend elsewhere used up
+    await cacheBalance(t, 100);
+    const requests = refuseTransactions(
+      {
+        type: "invalid_request",
+        message: "Insufficient balance for virtual currency GEMS",
+      },
+      5,
+    );
+
+    const result = await t.action(hostApi.spendVirtualCurrency, {
+      appUserId: "user_1",
+      adjustments: { GEMS: 10 },
+    });
+    expect(result).toEqual({
+      insufficientFunds: { currencyCode: "GEMS", requested: 10, available: 5 },
+    });
+    expect(requests.map((request) => request.method)).toEqual(["POST", "GET"]);
+
+    // The cache caught up and the hold was released
+    expect(
+      await t.query(api.public.getVirtualCurrencyBalances, {
+        appUserId: "user_1",
+      }),
+    ).toMatchObject([{ currencyCode: "GEMS", balance: 5 }]);
+    expect(
+      await t.run((ctx) => ctx.db.query("virtual_currency_holds").collect()),
+    ).toEqual([]);
+  });
+
+  test("throws RevenueCat's message for other refusals", async () => {
+    const t = initConvexTest();
+    await cacheBalance(t, 100);
+    refuseTransactions(
+      { type: "invalid_request", message: "Unknown virtual currency GEMS" },
+      100,
+    );
+
+    await expect(
+      t.action(hostApi.spendVirtualCurrency, {
+        appUserId: "user_1",
+        adjustments: { GEMS: 10 },
+      }),
+    ).rejects.toThrow(/422 \(Unknown virtual currency GEMS\)/);
+  });
+});